@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { accountRoleCan, normalizeAccountRole } from '@/lib/accountMembers'
+
+describe('accountRoleCan', () => {
+  it('lets owners manage the team and managers edit settings', () => {
+    expect(accountRoleCan('owner', 'manage_team')).toBe(true)
+    expect(accountRoleCan('manager', 'manage_team')).toBe(false)
+    expect(accountRoleCan('manager', 'edit_settings')).toBe(true)
+    expect(accountRoleCan('manager', 'request_properties')).toBe(true)
+  })
+
+  it('limits viewers to viewing', () => {
+    expect(accountRoleCan('viewer', 'view')).toBe(true)
+    expect(accountRoleCan('viewer', 'edit_settings')).toBe(false)
+    expect(accountRoleCan('viewer', 'request_properties')).toBe(false)
+    expect(accountRoleCan(null, 'view')).toBe(false)
+  })
+})
+
+describe('normalizeAccountRole', () => {
+  it('accepts known roles regardless of case', () => {
+    expect(normalizeAccountRole(' Manager ')).toBe('manager')
+    expect(normalizeAccountRole('client')).toBeNull()
+  })
+})
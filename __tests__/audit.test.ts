@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { diffAuditEntry, formatAuditValue } from '@/lib/audit'
+
+describe('diffAuditEntry', () => {
+  it('lists only the fields an update changed', () => {
+    const changes = diffAuditEntry({
+      before: { id: 'job-1', assigned_to: null, bins: ['Red'], notes: 'Side gate' },
+      after: { id: 'job-1', assigned_to: 'staff-1', bins: ['Red', 'Yellow'], notes: 'Side gate' },
+    })
+    expect(changes).toEqual([
+      { field: 'assigned_to', before: null, after: 'staff-1' },
+      { field: 'bins', before: ['Red'], after: ['Red', 'Yellow'] },
+    ])
+  })
+
+  it('lists the filled fields of inserted and deleted rows', () => {
+    expect(diffAuditEntry({ before: null, after: { id: 'p-1', address: '1 Main St', notes: null } })).toEqual([
+      { field: 'id', before: null, after: 'p-1' },
+      { field: 'address', before: null, after: '1 Main St' },
+    ])
+    expect(diffAuditEntry({ before: { id: 'p-1' }, after: null })).toEqual([
+      { field: 'id', before: 'p-1', after: null },
+    ])
+  })
+})
+
+describe('formatAuditValue', () => {
+  it('shows empty values as a dash and objects as JSON', () => {
+    expect(formatAuditValue(null)).toBe('—')
+    expect(formatAuditValue('')).toBe('—')
+    expect(formatAuditValue(42)).toBe('42')
+    expect(formatAuditValue({ lat: 1 })).toBe('{"lat":1}')
+  })
+})
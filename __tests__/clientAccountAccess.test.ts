@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { canManageShareLinks, userCanAccessAccount } from '@/lib/clientAccountAccess'
+
+type Row = { property_id: string; account_id: string | null; email: string | null }
+
+const clientWithRows = (rows: Row[]) =>
+  ({
+    from: () => ({
+      select: () => ({
+        or: async () => ({ data: rows, error: null }),
+      }),
+    }),
+  }) as unknown as SupabaseClient
+
+const user = (overrides: Partial<User>) =>
+  ({ id: 'user-1', email: 'bob@x.com', user_metadata: {}, app_metadata: {}, ...overrides }) as User
+
+const rows: Row[] = [{ property_id: 'prop-1', account_id: 'acct-1', email: 'jimbob@x.com; alice@x.com' }]
+
+describe('userCanAccessAccount', () => {
+  it('matches the sign-in email against each listed address', async () => {
+    const supabase = clientWithRows(rows)
+    expect(await userCanAccessAccount(supabase, user({ email: 'Alice@X.com' }), 'acct-1')).toBe(true)
+    expect(await userCanAccessAccount(supabase, user({ email: 'bob@x.com' }), 'acct-1')).toBe(false)
+  })
+
+  it('ignores account, property and email claims in user metadata', async () => {
+    const supabase = clientWithRows(rows)
+    const spoofed = user({
+      email: 'mallory@x.com',
+      user_metadata: { account_id: 'acct-1', property_ids: ['prop-1'], contact: 'alice@x.com' },
+    })
+    expect(await userCanAccessAccount(supabase, spoofed, 'acct-1')).toBe(false)
+  })
+
+  it('accepts the personal account of a user without properties', async () => {
+    const supabase = clientWithRows([])
+    expect(await userCanAccessAccount(supabase, user({}), 'user-1')).toBe(true)
+    expect(await userCanAccessAccount(supabase, user({}), 'acct-2')).toBe(false)
+  })
+})
+
+describe('canManageShareLinks', () => {
+  it('lets admins whose role comes from app_metadata share any account', async () => {
+    const supabase = clientWithRows(rows)
+    const admin = user({ email: 'ops@x.com', app_metadata: { role: 'admin' } })
+    expect(await canManageShareLinks(supabase, admin, 'acct-1')).toBe(true)
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildClientImportRows,
+  flagDuplicatePropertyIds,
+  parseCsv,
+  suggestClientImportMapping,
+} from '@/lib/clientImport'
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes, CRLF and blank lines', () => {
+    const text = '\uFEFFAddress,Notes\r\n"1 Main St, Carlton","Gate code ""42"""\r\n\r\n2 High St,\n'
+    expect(parseCsv(text)).toEqual([
+      ['Address', 'Notes'],
+      ['1 Main St, Carlton', 'Gate code "42"'],
+      ['2 High St', ''],
+    ])
+  })
+})
+
+describe('suggestClientImportMapping', () => {
+  it('matches headers by key or label and ignores unknown columns', () => {
+    expect(suggestClientImportMapping(['Address', 'red_freq', 'Lat/Lng', 'Building manager', 'address'])).toEqual([
+      'address',
+      'red_freq',
+      'lat_lng',
+      null,
+      null,
+    ])
+  })
+})
+
+describe('buildClientImportRows', () => {
+  const mapping = suggestClientImportMapping([
+    'Property ID',
+    'Address',
+    'Put Bins Out',
+    'Lat/Lng',
+    'Red Bin Frequency',
+    'Red Flip',
+    'Red Bins',
+    'Assigned To',
+    'Trial Start',
+  ])
+  const staff = [{ id: 'staff-1', name: 'Sam Driver' }]
+
+  it('normalises valid rows', () => {
+    const [row] = buildClientImportRows(
+      [['', '1 Main St', 'Sunday', '-37.8, 144.9', 'fortnightly', 'y', 2, 'sam driver', '1/3/2026']],
+      mapping,
+      staff,
+    )
+    expect(row.errors).toEqual([])
+    expect(row.values).toMatchObject({
+      property_id: null,
+      address: '1 Main St',
+      red_freq: 'Fortnightly',
+      red_flip: 'Yes',
+      red_bins: 2,
+      assigned_to: 'staff-1',
+      trial_start: '2026-03-01',
+    })
+  })
+
+  it('reports every problem on a row and repeated property ids', () => {
+    const id = '5f0c6c1e-8a4b-4c1e-9a57-3d2a1b0c9e8f'
+    const rows = buildClientImportRows(
+      [
+        [id, '', 'Someday', '200, 10', 'monthly', 'maybe', -1, 'Nobody', '31/2/2026'],
+        [id, '2 High St', 'Mon', '', '', '', '', '', ''],
+      ],
+      mapping,
+      staff,
+    )
+    expect(rows[0].line).toBe(2)
+    expect(rows[0].errors).toHaveLength(8)
+    expect(rows[1].errors).toEqual(['Property ID is also used on line 2.'])
+  })
+})
+
+describe('flagDuplicatePropertyIds', () => {
+  it('flags repeated ids regardless of case, as the server sees them', () => {
+    const id = '0f8fad5b-d9cb-469f-a165-70867728950e'
+    const rows = flagDuplicatePropertyIds([
+      { line: 2, values: { property_id: id }, errors: [] },
+      { line: 3, values: { property_id: id.toUpperCase() }, errors: [] },
+      { line: 4, values: { property_id: null }, errors: [] },
+    ])
+    expect(rows.map((row) => row.errors)).toEqual([[], ['Property ID is also used on line 2.'], []])
+  })
+})
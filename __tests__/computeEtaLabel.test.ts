@@ -43,6 +43,15 @@ describe('computeEtaLabel', () => {
     vi.useRealTimers()
   })
 
+  it('prefers the ETA published from the route', () => {
+    vi.useFakeTimers()
+    const now = new Date()
+    vi.setSystemTime(now)
+    const etaAt = new Date(now.getTime() + 8 * 60 * 1000).toISOString()
+    expect(computeEtaLabel({ ...baseJob, status: 'en_route', etaAt, startedAt: now.toISOString() })).toBe('~8 min')
+    vi.useRealTimers()
+  })
+
   it('falls back to in progress when en_route without eta', () => {
     expect(computeEtaLabel({ ...baseJob, status: 'en_route', etaMinutes: null })).toBe('In progress')
   })
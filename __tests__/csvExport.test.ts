@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { exportFileName, toCsv } from '@/lib/csvExport'
+
+describe('toCsv', () => {
+  it('quotes special characters and defuses formulas but keeps negative numbers', () => {
+    const rows = [
+      { address: '1 Main St, Carlton', notes: 'Gate "B"', lat: '-37.8', owner: '=HYPERLINK("x")', bins: null },
+    ]
+    const csv = toCsv(rows, [
+      { header: 'Address', value: (row) => row.address },
+      { header: 'Notes', value: (row) => row.notes },
+      { header: 'Lat', value: (row) => row.lat },
+      { header: 'Owner', value: (row) => row.owner },
+      { header: 'Bins', value: (row) => row.bins },
+    ])
+    expect(csv).toBe('Address,Notes,Lat,Owner,Bins\r\n"1 Main St, Carlton","Gate ""B""",-37.8,"\'=HYPERLINK(""x"")",')
+  })
+})
+
+describe('exportFileName', () => {
+  it('dates the file in local time', () => {
+    expect(exportFileName('jobs', 'csv', new Date(2026, 2, 5, 23, 30))).toBe('jobs-2026-03-05.csv')
+  })
+})
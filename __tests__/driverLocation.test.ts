@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DRIVER_LOCATION_INTERVAL_MS,
+  isDriverLocationFresh,
+  shouldPublishDriverLocation,
+} from '@/lib/driverLocation'
+
+describe('shouldPublishDriverLocation', () => {
+  const start = { lat: -33.86, lng: 151.2 }
+
+  it('throttles by time and distance', () => {
+    const last = { position: start, at: 0 }
+    expect(shouldPublishDriverLocation(null, start, 0)).toBe(true)
+    expect(shouldPublishDriverLocation(last, { lat: -33.87, lng: 151.2 }, DRIVER_LOCATION_INTERVAL_MS - 1)).toBe(false)
+    expect(shouldPublishDriverLocation(last, { lat: -33.86001, lng: 151.2 }, DRIVER_LOCATION_INTERVAL_MS)).toBe(false)
+    expect(shouldPublishDriverLocation(last, { lat: -33.87, lng: 151.2 }, DRIVER_LOCATION_INTERVAL_MS)).toBe(true)
+  })
+})
+
+describe('isDriverLocationFresh', () => {
+  it('treats positions older than two minutes as stale', () => {
+    const now = new Date('2026-03-02T09:00:00.000Z')
+    expect(isDriverLocationFresh({ updated_at: '2026-03-02T08:59:00.000Z' }, now)).toBe(true)
+    expect(isDriverLocationFresh({ updated_at: '2026-03-02T08:57:00.000Z' }, now)).toBe(false)
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { averageServiceSeconds, computeRouteEtas, etaMinutesUntil, hasMovedSignificantly } from '@/lib/eta'
+import { DEFAULT_SERVICE_S } from '@/lib/routeOptimizer'
+
+const now = new Date('2026-03-02T09:00:00.000Z')
+
+describe('computeRouteEtas', () => {
+  it('adds service time for each stop before the next leg', () => {
+    // About 1.1 km per leg, which is just over two minutes at the estimated driving speed.
+    const etas = computeRouteEtas({
+      origin: { lat: -33.86, lng: 151.2 },
+      stops: [
+        { id: 'a', lat: -33.87, lng: 151.2 },
+        { id: 'b', lat: -33.88, lng: 151.2 },
+      ],
+      serviceSeconds: 300,
+      now,
+    })
+
+    const minutes = etas.map((eta) => (new Date(eta.etaAt).getTime() - now.getTime()) / 60_000)
+    expect(etas.map((eta) => eta.jobId)).toEqual(['a', 'b'])
+    expect(minutes[0]).toBeCloseTo(2.2, 1)
+    expect(minutes[1] - minutes[0]).toBeCloseTo(5 + 2.2, 1)
+  })
+})
+
+describe('averageServiceSeconds', () => {
+  it('averages plausible arrival-to-completion durations', () => {
+    expect(
+      averageServiceSeconds([
+        { arrived_at: '2026-03-01T09:00:00Z', completed_at: '2026-03-01T09:02:00Z' },
+        { arrived_at: '2026-03-01T09:10:00Z', completed_at: '2026-03-01T09:14:00Z' },
+        { arrived_at: '2026-03-01T09:20:00Z', completed_at: '2026-03-01T13:00:00Z' },
+        { arrived_at: null, completed_at: '2026-03-01T09:30:00Z' },
+      ]),
+    ).toBe(180)
+  })
+
+  it('falls back to the default without history', () => {
+    expect(averageServiceSeconds([])).toBe(DEFAULT_SERVICE_S)
+  })
+})
+
+describe('etaMinutesUntil', () => {
+  it('ignores ETAs that lapsed well before now', () => {
+    expect(etaMinutesUntil('2026-03-02T09:12:00.000Z', now)).toBe(12)
+    expect(etaMinutesUntil('2026-03-02T08:55:00.000Z', now)).toBe(0)
+    expect(etaMinutesUntil('2026-03-02T08:00:00.000Z', now)).toBeNull()
+  })
+})
+
+describe('hasMovedSignificantly', () => {
+  it('only republishes after the driver moves a few hundred metres', () => {
+    expect(hasMovedSignificantly(null, { lat: -33.86, lng: 151.2 })).toBe(true)
+    expect(hasMovedSignificantly({ lat: -33.86, lng: 151.2 }, { lat: -33.861, lng: 151.2 })).toBe(false)
+    expect(hasMovedSignificantly({ lat: -33.86, lng: 151.2 }, { lat: -33.865, lng: 151.2 })).toBe(true)
+  })
+})
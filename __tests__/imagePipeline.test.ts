@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { fitWithin, formatWatermarkLines } from '@/lib/imagePipeline'
+
+describe('fitWithin', () => {
+  it('scales the longest edge down to the limit', () => {
+    expect(fitWithin(4032, 3024, 1600)).toEqual({ width: 1600, height: 1200 })
+    expect(fitWithin(3024, 4032, 1600)).toEqual({ width: 1200, height: 1600 })
+  })
+
+  it('never scales small images up', () => {
+    expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 })
+  })
+})
+
+describe('formatWatermarkLines', () => {
+  it('stamps the local time and address', () => {
+    const lines = formatWatermarkLines(new Date('2026-03-02T09:00:00.000Z'), ' 1 Example St ', 'Australia/Melbourne')
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toContain('8:00')
+    expect(lines[1]).toBe('1 Example St')
+  })
+
+  it('omits a missing address', () => {
+    expect(formatWatermarkLines(new Date('2026-03-02T09:00:00.000Z'), null, 'Australia/Melbourne')).toHaveLength(1)
+  })
+})
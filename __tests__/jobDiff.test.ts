@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { buildJobDiffMutations, diffJobs, summarizeJobDiff, type ExistingJobRow } from '@/lib/jobDiff'
+import type { GeneratedJobRow } from '@/lib/jobGeneration'
+
+const planned = (overrides: Partial<GeneratedJobRow> = {}): GeneratedJobRow => ({
+  account_id: 'a1',
+  property_id: 'p1',
+  address: '1 Example St',
+  lat: -37.8,
+  lng: 144.9,
+  job_type: 'bring_in',
+  bins: 'Red, Yellow',
+  notes: null,
+  client_name: 'Client One',
+  photo_path: null,
+  assigned_to: null,
+  day_of_week: 'Monday',
+  last_completed_on: null,
+  ...overrides,
+})
+
+const existing = (overrides: Partial<ExistingJobRow> = {}): ExistingJobRow => ({
+  id: 'job-1',
+  ...planned(),
+  status: 'scheduled',
+  ...overrides,
+})
+
+describe('diffJobs', () => {
+  it('classifies added, removed, changed and unchanged jobs', () => {
+    const entries = diffJobs(
+      [planned(), planned({ property_id: 'p2', address: '2 Example St' }), planned({ property_id: 'p3' })],
+      [
+        existing(),
+        existing({ id: 'job-2', property_id: 'p2', address: '2 Old St' }),
+        existing({ id: 'job-4', property_id: 'p4' }),
+      ],
+    )
+
+    expect(summarizeJobDiff(entries)).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 1 })
+    expect(entries.find((entry) => entry.kind === 'changed')?.changes).toEqual([
+      { field: 'address', from: '2 Old St', to: '2 Example St' },
+    ])
+  })
+
+  it('keeps manual assignments and notes when updating a changed job', () => {
+    const [entry] = diffJobs(
+      [planned({ bins: 'Red, Green' })],
+      [existing({ assigned_to: 'staff-1', notes: 'Side gate' })],
+    )
+
+    expect(entry.kind).toBe('changed')
+    expect(entry.overrides.map((override) => override.field)).toEqual(['assigned_to', 'notes'])
+    expect(buildJobDiffMutations([entry]).updates).toEqual([{ id: 'job-1', values: { bins: 'Red, Green' } }])
+  })
+
+  it('only applies accepted entries', () => {
+    const entries = diffJobs([planned({ property_id: 'p2' })], [existing()])
+    const added = entries.find((entry) => entry.kind === 'added')!
+
+    const mutations = buildJobDiffMutations(entries, [added.key])
+    expect(mutations.inserts).toHaveLength(1)
+    expect(mutations.deletes).toEqual([])
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DAY_NAMES,
+  MAX_JOB_GENERATION_DAYS,
+  buildJobsForClient,
+  buildJobsForTarget,
+  getNextOperationalJobGenerationDate,
+  getUpcomingWeekJobGenerationTargets,
+  resolveJobGenerationTargets,
+  type JobSourceClientRow,
+} from '@/lib/jobGeneration'
+
+const baseRow: JobSourceClientRow = {
+  property_id: 'p1',
+  account_id: 'a1',
+  client_name: 'Client One',
+  company: null,
+  address: '1 Example St',
+  collection_day: 'Monday',
+  put_bins_out: 'Sunday',
+  notes: null,
+  assigned_to: null,
+  lat_lng: '-37.8, 144.9',
+  photo_path: null,
+  red_freq: 'Weekly',
+  red_flip: null,
+  yellow_freq: 'Fortnightly',
+  yellow_flip: null,
+  green_freq: 'Fortnightly',
+  green_flip: 'Yes',
+}
+
+describe('resolveJobGenerationTargets', () => {
+  it('resolves a single date to its weekday', () => {
+    const { targets } = resolveJobGenerationTargets('2024-08-05', '')
+    expect(targets?.map((target) => [target.date, target.dayName])).toEqual([['2024-08-05', 'Monday']])
+  })
+
+  it('rejects ranges that would repeat a weekday', () => {
+    const { targets, error } = resolveJobGenerationTargets('2024-08-05', '2024-08-12')
+    expect(targets).toBeNull()
+    expect(error).toContain(String(MAX_JOB_GENERATION_DAYS))
+  })
+
+  it('rejects ranges that end before they start', () => {
+    expect(resolveJobGenerationTargets('2024-08-06', '2024-08-05').targets).toBeNull()
+  })
+})
+
+describe('buildJobsForTarget', () => {
+  it('resolves fortnightly bins for the target week', () => {
+    const [evenWeek] = resolveJobGenerationTargets('2024-08-05', null).targets!
+    const [oddWeek] = resolveJobGenerationTargets('2024-08-12', null).targets!
+
+    const evenJobs = buildJobsForTarget([baseRow], evenWeek)
+    const oddJobs = buildJobsForTarget([baseRow], oddWeek)
+
+    expect(evenJobs).toHaveLength(1)
+    expect(evenJobs[0]).toMatchObject({ job_type: 'bring_in', day_of_week: 'Monday', bins: 'Red, Yellow' })
+    expect(oddJobs[0]).toMatchObject({ job_type: 'bring_in', bins: 'Red, Green' })
+  })
+})
+
+describe('buildJobsForClient', () => {
+  it('builds a job for each put-out and collection day across the week', () => {
+    const row = { ...baseRow, put_bins_out: 'Sun, Wed', collection_day: 'Monday' }
+    const jobs = DAY_NAMES.flatMap((dayName, dayIndex) => buildJobsForClient(row, { dayIndex, dayName }))
+
+    expect(jobs.map((job) => [job.job_type, job.day_of_week])).toEqual([
+      ['put_out', 'Sunday'],
+      ['bring_in', 'Monday'],
+      ['put_out', 'Wednesday'],
+    ])
+    expect(jobs[0]).toMatchObject({ account_id: 'a1', client_name: 'Client One', lat: -37.8, lng: 144.9 })
+  })
+})
+
+describe('getUpcomingWeekJobGenerationTargets', () => {
+  it('dates each weekday on its next occurrence so fortnightly bins follow the real week', () => {
+    // Friday 2024-08-09; the following Monday falls in the odd week.
+    const targets = getUpcomingWeekJobGenerationTargets(new Date(2024, 7, 9, 9))
+    expect(targets.map((target) => target.date)).toEqual([
+      '2024-08-09',
+      '2024-08-10',
+      '2024-08-11',
+      '2024-08-12',
+      '2024-08-13',
+      '2024-08-14',
+      '2024-08-15',
+    ])
+
+    const jobs = targets.flatMap((target) => buildJobsForClient(baseRow, target))
+    expect(jobs.find((job) => job.job_type === 'bring_in')).toMatchObject({ day_of_week: 'Monday', bins: 'Red, Green' })
+  })
+})
+
+describe('getNextOperationalJobGenerationDate', () => {
+  it('targets the same morning before the rollover and the next day after it', () => {
+    expect(getNextOperationalJobGenerationDate(new Date(2024, 7, 5, 5, 0)).getDate()).toBe(5)
+    expect(getNextOperationalJobGenerationDate(new Date(2024, 7, 5, 18, 0)).getDate()).toBe(6)
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { createStubChannel } from '@/lib/notifications/channels'
+import { getNotificationRetryDelayMs, planDeliveries } from '@/lib/notifications/dispatcher'
+import { buildNotificationMessage } from '@/lib/notifications/messages'
+import type { NotificationRecipient } from '@/lib/notifications/types'
+import { mergeNotificationPrefs } from '@/lib/notificationPreferences'
+
+const recipient = (email: string, prefs: Record<string, boolean> = {}): NotificationRecipient => ({
+  userId: null,
+  email,
+  preferences: mergeNotificationPrefs('acct-1', 'unknown', { 'acct-1': prefs }),
+})
+
+describe('planDeliveries', () => {
+  it('skips recipients who opted out of the event', () => {
+    const email = createStubChannel('email')
+    const planned = planDeliveries(
+      'en_route',
+      [recipient('a@example.com'), recipient('b@example.com', { emailEnRoute: false })],
+      [email],
+    )
+    expect(planned.map((entry) => entry.key)).toEqual(['email:a@example.com'])
+  })
+
+  it('does not resend deliveries already recorded for the event', () => {
+    const email = createStubChannel('email')
+    const recipients = [recipient('a@example.com'), recipient('b@example.com')]
+    const planned = planDeliveries('completed', recipients, [email], new Set(['email:a@example.com']))
+    expect(planned.map((entry) => entry.key)).toEqual(['email:b@example.com'])
+  })
+
+  it('only pushes to recipients with a subscription who opted in', () => {
+    const push = createStubChannel('push')
+    const subscription = { id: 'sub-1', endpoint: 'https://push.example.com/1', p256dh: 'key', auth: 'secret' }
+    const planned = planDeliveries(
+      'en_route',
+      [
+        { ...recipient('a@example.com'), userId: 'user-a', pushSubscriptions: [subscription] },
+        { ...recipient('b@example.com', { pushEnRoute: false }), userId: 'user-b', pushSubscriptions: [subscription] },
+        recipient('c@example.com'),
+      ],
+      [push],
+    )
+    expect(planned.map((entry) => entry.key)).toEqual(['push:user-a'])
+  })
+})
+
+describe('stub channel', () => {
+  it('records the built message', async () => {
+    const email = createStubChannel('email')
+    const message = buildNotificationMessage('on_site', { address: '12 High St', job_type: 'put_out' })
+    await email.send(recipient('a@example.com'), message)
+    expect(email.sent).toHaveLength(1)
+    expect(email.sent[0]?.message.subject).toBe('BinBird crew has arrived at 12 High St')
+  })
+})
+
+describe('buildNotificationMessage', () => {
+  it('explains why a stop was skipped', () => {
+    const message = buildNotificationMessage('skipped', {
+      address: '12 High St',
+      job_type: 'bring_in',
+      skip_reason: 'access_blocked',
+    })
+    expect(message.subject).toBe("We couldn't complete the service at 12 High St")
+    expect(message.summary).toBe("Our crew couldn't bring your bins in today. Reason: access blocked.")
+  })
+})
+
+describe('getNotificationRetryDelayMs', () => {
+  it('backs off exponentially up to an hour', () => {
+    expect(getNotificationRetryDelayMs(1)).toBe(60_000)
+    expect(getNotificationRetryDelayMs(3)).toBe(240_000)
+    expect(getNotificationRetryDelayMs(10)).toBe(3_600_000)
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeProofPhotos, proofPhotoCaptions, proofThumbnailPath } from '@/lib/proofPhotos'
+
+describe('normalizeProofPhotos', () => {
+  it('keeps stored photos in order and tidies captions', () => {
+    const photos = normalizeProofPhotos(
+      [
+        {
+          path: 'a/Put Out.jpg',
+          caption: '  Kerbside ',
+          thumbnail_path: 'a/thumbnails/Put Out.jpg',
+          captured_at: '2026-03-02T08:58:00.000Z',
+        },
+        { path: 'a/Put Out (2).jpg', caption: '' },
+        { caption: 'missing path' },
+      ],
+      'a/Put Out.jpg',
+    )
+    expect(photos).toEqual([
+      {
+        path: 'a/Put Out.jpg',
+        caption: 'Kerbside',
+        thumbnailPath: 'a/thumbnails/Put Out.jpg',
+        capturedAt: '2026-03-02T08:58:00.000Z',
+      },
+      { path: 'a/Put Out (2).jpg', caption: null, thumbnailPath: null, capturedAt: null },
+    ])
+    expect(proofPhotoCaptions(photos)).toEqual({ 'a/Put Out.jpg': 'Kerbside' })
+  })
+
+  it('falls back to photo_path for single-photo logs', () => {
+    expect(normalizeProofPhotos([], 'a/Bring In.jpg')).toEqual([
+      { path: 'a/Bring In.jpg', caption: null, thumbnailPath: null, capturedAt: null },
+    ])
+    expect(normalizeProofPhotos(null, null)).toEqual([])
+  })
+})
+
+describe('proofThumbnailPath', () => {
+  it('puts thumbnails in a folder next to the photo', () => {
+    expect(proofThumbnailPath('client/address/2026/Week-10/Put Out (2).jpg')).toBe(
+      'client/address/2026/Week-10/thumbnails/Put Out (2).jpg',
+    )
+  })
+})
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest'
+import { getProofRetryDelayMs } from '@/lib/proof-queue'
+
+describe('getProofRetryDelayMs', () => {
+  it('backs off exponentially from five seconds', () => {
+    expect(getProofRetryDelayMs(1)).toBe(5_000)
+    expect(getProofRetryDelayMs(2)).toBe(10_000)
+    expect(getProofRetryDelayMs(4)).toBe(40_000)
+  })
+
+  it('caps the delay at five minutes', () => {
+    expect(getProofRetryDelayMs(20)).toBe(5 * 60 * 1000)
+  })
+})
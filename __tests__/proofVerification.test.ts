@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { verifyProof } from '@/lib/proofVerification'
+
+describe('verifyProof', () => {
+  const job = { lat: -33.86, lng: 151.2 }
+  const submittedAt = '2026-03-02T09:00:00.000Z'
+  const gps = { lat: -33.8601, lng: 151.2001, acc: 10, time: '2026-03-02T08:59:30.000Z' }
+
+  it('passes a fresh, accurate fix at the property', () => {
+    const result = verifyProof({ job, gps, capturedAt: '2026-03-02T08:58:00.000Z', submittedAt })
+    expect(result).toMatchObject({ score: 100, flagged: false, flags: [] })
+    expect(result.distanceM).toBeLessThan(20)
+  })
+
+  it('flags a proof submitted away from the property', () => {
+    const result = verifyProof({ job, gps: { ...gps, lat: -33.87 }, capturedAt: null, submittedAt })
+    expect(result.flagged).toBe(true)
+    expect(result.flags).toEqual(['far_from_property'])
+  })
+
+  it('flags a photo taken long before submission', () => {
+    const result = verifyProof({ job, gps, capturedAt: '2026-03-02T07:00:00.000Z', submittedAt })
+    expect(result.flags).toEqual(['capture_time_mismatch'])
+    expect(result.flagged).toBe(true)
+  })
+
+  it('only flags weak fixes when several checks fail', () => {
+    const inaccurate = verifyProof({ job, gps: { ...gps, acc: 80 }, capturedAt: null, submittedAt })
+    expect(inaccurate).toMatchObject({ flags: ['low_accuracy'], flagged: false })
+
+    const inaccurateAndOld = verifyProof({
+      job,
+      gps: { ...gps, acc: 80, time: '2026-03-02T08:50:00.000Z' },
+      capturedAt: null,
+      submittedAt,
+    })
+    expect(inaccurateAndOld).toMatchObject({ flags: ['low_accuracy', 'stale_fix'], flagged: true })
+  })
+
+  it('penalises a missing fix', () => {
+    const result = verifyProof({
+      job,
+      gps: { lat: null, lng: null, acc: null, time: null },
+      capturedAt: null,
+      submittedAt,
+    })
+    expect(result).toMatchObject({ flags: ['no_gps'], distanceM: null, score: 60, flagged: true })
+  })
+})
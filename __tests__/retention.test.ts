@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  normalizeRetentionPolicy,
+  planRetentionPurge,
+  runRetentionPurge,
+  type RetentionLogRow,
+} from '@/lib/retention'
+
+const now = new Date('2026-06-01T00:00:00.000Z').getTime()
+const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString()
+
+const log = (id: string, days: number, overrides: Partial<RetentionLogRow> = {}): RetentionLogRow => ({
+  id,
+  account_id: 'acct-1',
+  created_at: daysAgo(days),
+  flagged: false,
+  photo_path: `acct-1/${id}.jpg`,
+  photos: [{ path: `acct-1/${id}.jpg`, caption: null, thumbnail_path: `acct-1/thumbnails/${id}.jpg` }],
+  ...overrides,
+})
+
+describe('planRetentionPurge', () => {
+  const policy = { logDays: 60, photoDays: 30, flaggedDays: 365 }
+
+  it('deletes expired logs, strips old photos and keeps flagged proofs longer', () => {
+    const plan = planRetentionPurge(
+      [log('old', 90), log('photos', 45), log('recent', 10), log('flagged', 90, { flagged: true })],
+      policy,
+      [],
+      now,
+    )
+    expect(plan.deleteLogIds).toEqual(['old'])
+    expect(plan.stripLogIds).toEqual(['photos'])
+    expect(plan.storagePaths).toEqual([
+      'acct-1/old.jpg',
+      'acct-1/thumbnails/old.jpg',
+      'acct-1/photos.jpg',
+      'acct-1/thumbnails/photos.jpg',
+    ])
+  })
+
+  it('leaves accounts on legal hold alone and skips logs without photos', () => {
+    const plan = planRetentionPurge(
+      [log('held', 90, { account_id: 'acct-2' }), log('bare', 45, { photo_path: null, photos: [] })],
+      policy,
+      ['acct-2'],
+      now,
+    )
+    expect(plan).toEqual({ deleteLogIds: [], stripLogIds: [], storagePaths: [], heldLogCount: 1 })
+  })
+})
+
+describe('normalizeRetentionPolicy', () => {
+  it('falls back to defaults and clamps out-of-range windows', () => {
+    expect(normalizeRetentionPolicy({ log_days: 2, photo_days: null, flagged_days: 99999 })).toEqual({
+      logDays: 7,
+      photoDays: 42,
+      flaggedDays: 3650,
+    })
+  })
+})
+
+describe('runRetentionPurge', () => {
+  it('sends large plans in small batches so the ids fit in the URL', async () => {
+    const calls: { op: string; ids: string[] }[] = []
+    const supabase = {
+      storage: {
+        from: () => ({
+          remove: async (paths: string[]) => ({ data: paths.map((name) => ({ name })), error: null }),
+        }),
+      },
+      from: () => ({
+        update: () => ({
+          in: async (_column: string, ids: string[]) => {
+            calls.push({ op: 'update', ids })
+            return { error: null }
+          },
+        }),
+        delete: () => ({
+          in: async (_column: string, ids: string[]) => {
+            calls.push({ op: 'delete', ids })
+            return { error: null }
+          },
+        }),
+      }),
+    } as unknown as SupabaseClient
+
+    const ids = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix}-${i}`)
+    const result = await runRetentionPurge(supabase, {
+      deleteLogIds: ids('delete', 250),
+      stripLogIds: ids('strip', 120),
+      storagePaths: ['acct-1/a.jpg', 'acct-1/thumbnails/a.jpg'],
+      heldLogCount: 0,
+    })
+
+    expect(calls.map((call) => [call.op, call.ids.length])).toEqual([
+      ['update', 100],
+      ['update', 20],
+      ['delete', 100],
+      ['delete', 100],
+      ['delete', 50],
+    ])
+    expect(calls.filter((call) => call.op === 'delete').flatMap((call) => call.ids)).toEqual(ids('delete', 250))
+    expect(result).toEqual({ logsDeleted: 250, logsStripped: 120, objectsRemoved: 2, heldLogCount: 0 })
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { issueRoleClaim, verifyRoleClaim } from '@/lib/auth/roleClaim'
+
+describe('role claims', () => {
+  const secret = 'test-secret'
+  const now = Date.parse('2026-03-02T09:00:00.000Z')
+
+  it('round-trips a role for the user it was issued to', async () => {
+    const claim = await issueRoleClaim('user-1', 'admin', secret, now)
+    expect(await verifyRoleClaim(claim, secret, 'user-1', now + 60_000)).toBe('admin')
+    expect(await verifyRoleClaim(claim, secret, 'user-2', now + 60_000)).toBeNull()
+  })
+
+  it('rejects expired, tampered and foreign claims', async () => {
+    const claim = await issueRoleClaim('user-1', 'staff', secret, now)
+    expect(await verifyRoleClaim(claim, secret, 'user-1', now + 10 * 60_000)).toBeNull()
+    expect(await verifyRoleClaim(claim, 'other-secret', 'user-1', now)).toBeNull()
+
+    const [, signature] = claim.split('.')
+    const forged = Buffer.from(JSON.stringify({ userId: 'user-1', role: 'admin', expiresAt: now + 60_000 }))
+      .toString('base64url')
+    expect(await verifyRoleClaim(`${forged}.${signature}`, secret, 'user-1', now)).toBeNull()
+    expect(await verifyRoleClaim('garbage', secret, 'user-1', now)).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { balanceJobs, type BalanceJob } from '@/lib/routeBalancing'
+
+const job = (id: string, lat: number, lng: number, assignedTo: string | null = null): BalanceJob => ({
+  id,
+  lat,
+  lng,
+  assignedTo,
+})
+
+describe('balanceJobs', () => {
+  it('splits two separate areas between two drivers', () => {
+    const north = [0, 1, 2, 3].map((i) => job(`n${i}`, -33.7 + i * 0.001, 151.1, 'alex'))
+    const south = [0, 1, 2, 3].map((i) => job(`s${i}`, -33.95 + i * 0.001, 151.1, 'alex'))
+
+    const proposal = balanceJobs([...north, ...south], ['alex', 'sam'])
+
+    const groups = proposal.clusters.map((cluster) => [...cluster.jobIds].sort())
+    expect(groups).toContainEqual(north.map((entry) => entry.id))
+    expect(groups).toContainEqual(south.map((entry) => entry.id))
+    // Alex keeps one area, so only the other one changes hands.
+    expect(proposal.changedJobIds).toHaveLength(4)
+  })
+
+  it('moves stops off an overloaded cluster', () => {
+    const dense = Array.from({ length: 12 }, (_, i) => job(`d${i}`, -33.8 + i * 0.0005, 151.2))
+    const sparse = [job('x0', -33.8, 151.23)]
+
+    const proposal = balanceJobs([...dense, ...sparse], ['alex', 'sam'], { serviceSeconds: 300 })
+
+    const counts = proposal.clusters.map((cluster) => cluster.jobIds.length).sort((a, b) => a - b)
+    expect(counts[1] - counts[0]).toBeLessThanOrEqual(2)
+    expect(Object.keys(proposal.assignments)).toHaveLength(13)
+  })
+})
@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  MAX_OPTIMIZE_WAYPOINTS,
+  heuristicRouteOptimizer,
+  routeOptimizationRequestSchema,
+  scheduledRouteOptimizer,
+  selectRouteOptimizer,
+  solveOpenPath,
+} from '@/lib/routeOptimizer'
+
+const point = (lng: number) => ({ lat: -33.8, lng })
+
+describe('solveOpenPath', () => {
+  it('visits collinear stops in order between fixed start and end', () => {
+    const positions = [0, 3, 1, 4, 2, 5]
+    const matrix = positions.map((from) => positions.map((to) => Math.abs(from - to)))
+    expect(solveOpenPath(matrix)).toEqual([1, 3, 0, 2])
+  })
+
+  it('respects asymmetric costs', () => {
+    // Going 1 -> 2 is cheap but 2 -> 1 is expensive.
+    const matrix = [
+      [0, 1, 1, 9],
+      [9, 0, 1, 9],
+      [9, 50, 0, 1],
+      [0, 0, 0, 0],
+    ]
+    expect(solveOpenPath(matrix)).toEqual([0, 1])
+  })
+})
+
+describe('heuristicRouteOptimizer', () => {
+  it('orders more stops than Google accepts and returns one leg per hop', async () => {
+    const waypoints = Array.from({ length: 40 }, (_, i) => point(151 + ((i * 17) % 40) * 0.001))
+    const result = await heuristicRouteOptimizer.optimize({
+      start: point(150.999),
+      end: point(151.041),
+      waypoints,
+    })
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect([...result.route.order].sort((a, b) => a - b)).toEqual(waypoints.map((_, i) => i))
+    const longitudes = result.route.order.map((i) => waypoints[i].lng)
+    expect(longitudes).toEqual([...longitudes].sort((a, b) => a - b))
+    expect(result.route.legs).toHaveLength(41)
+    expect(result.route.polyline).toEqual(expect.any(String))
+  })
+})
+
+describe('time windows', () => {
+  const departAt = '2024-05-06T17:00:00.000Z'
+  const at = (minutes: number) => new Date(Date.parse(departAt) + minutes * 60_000).toISOString()
+
+  it('visits a stop whose window opens later after the others', async () => {
+    const result = await heuristicRouteOptimizer.optimize({
+      start: point(151),
+      end: point(151.05),
+      departAt,
+      waypoints: [{ ...point(151.01), earliest: at(120) }, point(151.02), point(151.03)],
+    })
+
+    expect(result.ok && result.route.order).toEqual([1, 2, 0])
+    expect(result.ok && result.route.flagged).toEqual([])
+  })
+
+  it('flags stops that cannot be reached before their window closes', async () => {
+    const result = await heuristicRouteOptimizer.optimize({
+      start: point(151),
+      end: point(151.05),
+      departAt,
+      waypoints: [point(151.01), { ...point(151.04), latest: at(1) }],
+    })
+
+    expect(result.ok && result.route.flagged).toEqual([
+      expect.objectContaining({ index: 1, reason: 'window_missed', latest: at(1) }),
+    ])
+  })
+
+  it('returns a full-size windowed run within its time budget', async () => {
+    let seed = 7
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+    const waypoints = Array.from({ length: MAX_OPTIMIZE_WAYPOINTS }, (_, i) => ({
+      lat: -33.8 + random() * 0.2,
+      lng: 151 + random() * 0.2,
+      ...(i % 2 ? { latest: at(random() * 360) } : {}),
+    }))
+
+    const startedAt = Date.now()
+    const result = await heuristicRouteOptimizer.optimize({ start: point(151), end: point(151), departAt, waypoints })
+
+    expect(Date.now() - startedAt).toBeLessThan(2000)
+    expect(result.ok && [...result.route.order].sort((a, b) => a - b)).toEqual(waypoints.map((_, i) => i))
+  })
+})
+
+describe('selectRouteOptimizer', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('falls back to the built-in solver past the Google waypoint limit', () => {
+    vi.stubEnv('ROUTE_OPTIMIZER', 'google')
+    const request = { start: point(151), end: point(151), waypoints: [point(151.01)] }
+    expect(selectRouteOptimizer(request).name).toBe('google')
+
+    const large = { ...request, waypoints: Array.from({ length: 26 }, (_, i) => point(151 + i / 1000)) }
+    expect(selectRouteOptimizer(large).name).toBe('heuristic')
+  })
+
+  it('keeps Google for deadlines the run cannot miss and solves binding ones first', () => {
+    vi.stubEnv('ROUTE_OPTIMIZER', 'google')
+    const departAt = '2024-05-06T07:00:00.000Z'
+    const request = (latest: string) => ({
+      start: point(151),
+      end: point(151.05),
+      departAt,
+      waypoints: [{ ...point(151.01), latest }, { ...point(151.04), latest }],
+    })
+
+    expect(selectRouteOptimizer(request('2024-05-06T09:00:00.000Z')).name).toBe('google')
+    expect(selectRouteOptimizer(request('2024-05-06T07:01:00.000Z')).name).toBe('scheduled')
+  })
+
+  it('draws the scheduled order on Google roads when nothing is flagged', async () => {
+    vi.stubEnv('GOOGLE_MAPS_SERVER_KEY', 'test-key')
+    const fetchMock = vi.fn(async () => ({
+      json: async () => ({
+        status: 'OK',
+        routes: [
+          {
+            overview_polyline: { points: 'road-polyline' },
+            waypoint_order: [0, 1],
+            legs: [0, 1, 2].map(() => ({
+              start_address: 'A',
+              end_address: 'B',
+              distance: { value: 1000 },
+              duration: { value: 120 },
+            })),
+          },
+        ],
+      }),
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await scheduledRouteOptimizer.optimize({
+      start: point(151),
+      end: point(151.05),
+      departAt: '2024-05-06T07:00:00.000Z',
+      waypoints: [{ ...point(151.02), priority: 5 }, point(151.01)],
+    })
+
+    expect(result.ok && result.route.polyline).toBe('road-polyline')
+    expect(result.ok && result.route.order).toEqual([1, 0])
+    const url = new URL(String((fetchMock.mock.calls[0] as unknown[])[0]))
+    expect(url.searchParams.get('waypoints')).toBe('-33.8,151.01|-33.8,151.02')
+  })
+
+  it('uses the built-in solver when no Google key is configured', () => {
+    vi.stubEnv('ROUTE_OPTIMIZER', '')
+    vi.stubEnv('GOOGLE_MAPS_SERVER_KEY', '')
+    expect(selectRouteOptimizer({ start: point(151), end: point(151), waypoints: [point(151.01)] }).name).toBe(
+      'heuristic',
+    )
+  })
+})
+
+describe('routeOptimizationRequestSchema', () => {
+  it('rejects runs with more waypoints than the API will optimise', () => {
+    const waypoints = (count: number) => Array.from({ length: count }, (_, i) => point(151 + i / 10000))
+    const request = (count: number) => ({ start: point(151), end: point(151), waypoints: waypoints(count) })
+    expect(routeOptimizationRequestSchema.safeParse(request(MAX_OPTIMIZE_WAYPOINTS)).success).toBe(true)
+    expect(routeOptimizationRequestSchema.safeParse(request(MAX_OPTIMIZE_WAYPOINTS + 1)).success).toBe(false)
+  })
+})
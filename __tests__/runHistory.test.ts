@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { compareRunOrder, getRunDurationMs, type RunStop } from '@/lib/run-history'
+
+const stop = (jobId: string): RunStop => ({
+  job_id: jobId,
+  property_id: null,
+  address: `${jobId} Example St`,
+  job_type: 'put_out',
+})
+
+describe('compareRunOrder', () => {
+  it('reports the planned position of each proofed stop', () => {
+    const comparison = compareRunOrder([stop('a'), stop('b'), stop('c')], [stop('b'), stop('a'), stop('x')])
+
+    expect(comparison.map(({ actualPosition, plannedPosition }) => [actualPosition, plannedPosition])).toEqual([
+      [1, 2],
+      [2, 1],
+      [3, null],
+    ])
+  })
+})
+
+describe('getRunDurationMs', () => {
+  it('returns null until the run has ended', () => {
+    expect(getRunDurationMs({ started_at: '2024-08-05T07:00:00Z', ended_at: null })).toBeNull()
+    expect(getRunDurationMs({ started_at: '2024-08-05T07:00:00Z', ended_at: '2024-08-05T08:30:00Z' })).toBe(
+      90 * 60 * 1000,
+    )
+  })
+})
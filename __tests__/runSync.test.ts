@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import type { Job } from '@/lib/jobs'
+import type { PlannedRunPayload } from '@/lib/planned-run'
+import { reconcilePlannedRun } from '@/lib/run-sync'
+
+const job = (id: string): Job => ({
+  id,
+  account_id: null,
+  property_id: null,
+  address: `${id} Example St`,
+  lat: -37.8,
+  lng: 144.9,
+  job_type: 'put_out',
+  bins: null,
+  notes: null,
+  client_name: null,
+  photo_path: null,
+  last_completed_on: null,
+  assigned_to: null,
+  day_of_week: 'Monday',
+})
+
+const plan: PlannedRunPayload = {
+  start: { lat: -37.8, lng: 144.9 },
+  end: { lat: -37.8, lng: 144.9 },
+  jobs: [job('a'), job('b'), job('c')],
+  startAddress: null,
+  endAddress: null,
+  createdAt: '2024-08-05T07:00:00.000Z',
+  hasStarted: true,
+  // The copy was saved by a device that had only reached the first stop.
+  nextIdx: 0,
+}
+
+describe('reconcilePlannedRun', () => {
+  it('resumes at the first job not completed on the run date', () => {
+    const { plan: reconciled, completedJobs, isComplete } = reconcilePlannedRun(
+      plan,
+      [
+        { id: 'a', status: 'completed', completed_at: '2024-08-05T07:10:00Z', last_completed_on: '2024-08-05' },
+        { id: 'b', status: 'completed', completed_at: '2024-07-29T07:10:00Z', last_completed_on: '2024-07-29' },
+      ],
+      '2024-08-05',
+    )
+
+    expect(reconciled.nextIdx).toBe(1)
+    expect(reconciled.jobs[1].last_completed_on).toBeNull()
+    expect(completedJobs).toBe(1)
+    expect(isComplete).toBe(false)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildServiceReportEntries,
+  renderServiceReportPdf,
+  serviceReportMonthRange,
+  summarizeServiceReport,
+  type ServiceReportLog,
+} from '@/lib/serviceReport'
+
+const log = (overrides: Partial<ServiceReportLog>): ServiceReportLog => ({
+  id: 'log',
+  address: '1 Main St',
+  done_on: '2026-02-03',
+  created_at: '2026-02-03T08:00:00.000Z',
+  task_type: 'put_out',
+  skip_reason: null,
+  notes: null,
+  photo_path: null,
+  photos: [],
+  ...overrides,
+})
+
+describe('serviceReportMonthRange', () => {
+  it('covers the whole month, including leap years', () => {
+    expect(serviceReportMonthRange('2028-02')).toEqual({ from: '2028-02-01', to: '2028-02-29' })
+    expect(serviceReportMonthRange('2026-13')).toBeNull()
+  })
+})
+
+describe('buildServiceReportEntries', () => {
+  it('orders visits by date and prefers thumbnails', () => {
+    const entries = buildServiceReportEntries([
+      log({ id: 'b', done_on: '2026-02-10', task_type: 'skip', skip_reason: 'access_blocked', notes: ' Gate locked ' }),
+      log({
+        id: 'a',
+        task_type: 'bring_in',
+        photo_path: 'acct/a.jpg',
+        photos: [{ path: 'acct/a.jpg', caption: null, thumbnail_path: 'acct/thumbnails/a.jpg' }],
+      }),
+      log({ id: 'c', address: '2 High St', photo_path: 'acct/c.jpg', photos: null }),
+    ])
+    expect(entries.map((entry) => [entry.id, entry.task, entry.imagePath])).toEqual([
+      ['a', 'Bins brought in', 'acct/thumbnails/a.jpg'],
+      ['c', 'Bins put out', 'acct/c.jpg'],
+      ['b', 'Not completed: Access blocked', null],
+    ])
+    expect(entries[2].note).toBe('Gate locked')
+    expect(summarizeServiceReport(entries)).toEqual({ services: 2, properties: 2, putOut: 1, bringIn: 1, skipped: 1 })
+  })
+})
+
+describe('renderServiceReportPdf', () => {
+  it('adds pages as visits overflow', () => {
+    const entries = buildServiceReportEntries(
+      Array.from({ length: 20 }, (_, index) => log({ id: `log-${index}` })),
+    )
+    const doc = renderServiceReportPdf({ accountName: 'Harbour Strata', month: '2026-02', entries, images: {} })
+    expect(doc.getNumberOfPages()).toBe(3)
+  })
+})
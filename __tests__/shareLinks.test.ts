@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { createShareToken, hashShareToken, isShareLinkExpired } from '@/lib/shareLinks'
+
+describe('share link tokens', () => {
+  it('creates url-safe random tokens', () => {
+    const token = createShareToken()
+    expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/)
+    expect(createShareToken()).not.toBe(token)
+  })
+
+  it('hashes tokens with SHA-256', async () => {
+    await expect(hashShareToken('abc')).resolves.toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    )
+  })
+})
+
+describe('isShareLinkExpired', () => {
+  const now = new Date('2025-03-10T09:00:00Z')
+
+  it('compares the expiry with the current time', () => {
+    expect(isShareLinkExpired('2025-03-10T08:59:59Z', now)).toBe(true)
+    expect(isShareLinkExpired('2025-03-11T09:00:00Z', now)).toBe(false)
+  })
+
+  it('treats unreadable expiries as expired', () => {
+    expect(isShareLinkExpired('not a date', now)).toBe(true)
+  })
+})
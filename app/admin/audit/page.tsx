@@ -0,0 +1,210 @@
+import Link from "next/link";
+import AuditChangeList from "@/components/admin/AuditChangeList";
+import {
+  AUDIT_COLUMNS,
+  AUDITED_TABLE_LABELS,
+  AUDITED_TABLES,
+  isAuditedTable,
+  type AuditEntry,
+} from "@/lib/audit";
+import { supabaseServer } from "@/lib/supabaseServer";
+
+export const metadata = {
+  title: "Audit • Admin",
+};
+
+const AUDIT_PAGE_LIMIT = 200;
+/** How many recent entries are scanned to fill the actor filter. */
+const ACTOR_SCAN_LIMIT = 1000;
+
+const ACTION_STYLES: Record<AuditEntry["action"], string> = {
+  insert: "bg-green-100 text-green-800",
+  update: "bg-gray-200 text-gray-800",
+  delete: "bg-red-100 text-red-700",
+};
+
+type AuditFilters = {
+  table: string;
+  actor: string;
+  row: string;
+};
+
+type AuditPageProps = {
+  searchParams?: Promise<Partial<AuditFilters>>;
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-AU", { dateStyle: "medium", timeStyle: "short" });
+
+async function loadAudit(
+  filters: AuditFilters,
+): Promise<{ entries: AuditEntry[]; actorLookup: Record<string, string>; error: string | null }> {
+  try {
+    const supabase = await supabaseServer();
+    let query = supabase
+      .from("audit_log")
+      .select(AUDIT_COLUMNS)
+      .order("created_at", { ascending: false })
+      .limit(AUDIT_PAGE_LIMIT);
+
+    if (isAuditedTable(filters.table)) query = query.eq("table_name", filters.table);
+    if (filters.actor) query = query.eq("actor_id", filters.actor);
+    if (filters.row) query = query.eq("row_id", filters.row);
+
+    // Only admin changes are logged, so recent actors cover everyone worth
+    // filtering by, whichever source their admin role comes from.
+    const [{ data, error }, { data: recentActors }] = await Promise.all([
+      query,
+      supabase
+        .from("audit_log")
+        .select("actor_id")
+        .not("actor_id", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(ACTOR_SCAN_LIMIT),
+    ]);
+
+    if (error) throw error;
+
+    const entries = (data ?? []) as AuditEntry[];
+    const actorIds = Array.from(
+      new Set(
+        [...(recentActors ?? []), ...entries]
+          .map((entry) => entry.actor_id)
+          .filter((value): value is string => Boolean(value)),
+      ),
+    );
+
+    const actorLookup: Record<string, string> = {};
+    if (actorIds.length) {
+      const { data: profiles } = await supabase
+        .from("user_profile")
+        .select("user_id, full_name")
+        .in("user_id", actorIds);
+
+      for (const profile of profiles ?? []) {
+        actorLookup[profile.user_id] = profile.full_name?.trim().length ? profile.full_name : "Team member";
+      }
+    }
+
+    return { entries, actorLookup, error: null };
+  } catch (error) {
+    console.error("Failed to load audit log", error);
+    return { entries: [], actorLookup: {}, error: "Unable to load the audit log." };
+  }
+}
+
+export default async function AdminAuditPage({ searchParams }: AuditPageProps) {
+  const params = (await searchParams) ?? {};
+  const filters: AuditFilters = {
+    table: params.table ?? "",
+    actor: params.actor ?? "",
+    row: params.row?.trim() ?? "",
+  };
+  const { entries, actorLookup, error } = await loadAudit(filters);
+  const actors = Object.entries(actorLookup).sort(([, a], [, b]) => a.localeCompare(b));
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-semibold text-gray-900">Audit</h1>
+        <p className="text-sm text-gray-700">
+          Every change an admin made to properties, jobs and logs, with the values before and after.
+        </p>
+      </div>
+
+      <form method="get" className="grid gap-3 sm:grid-cols-4 sm:items-end">
+        <label className="flex flex-col text-sm text-gray-900">
+          <span className="font-medium text-gray-800">Table</span>
+          <select
+            name="table"
+            defaultValue={filters.table}
+            className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+          >
+            <option value="">All tables</option>
+            {AUDITED_TABLES.map((table) => (
+              <option key={table} value={table}>
+                {AUDITED_TABLE_LABELS[table]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-900">
+          <span className="font-medium text-gray-800">Changed by</span>
+          <select
+            name="actor"
+            defaultValue={filters.actor}
+            className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+          >
+            <option value="">Anyone</option>
+            {actors.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm text-gray-900">
+          <span className="font-medium text-gray-800">Row id</span>
+          <input
+            type="search"
+            name="row"
+            defaultValue={filters.row}
+            placeholder="Property or job id"
+            className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 placeholder:text-gray-500 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+          />
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            type="submit"
+            className="rounded-lg bg-gray-900 px-3 py-2 text-sm font-semibold text-white transition hover:bg-gray-700"
+          >
+            Filter
+          </button>
+          <Link
+            href="/admin/audit"
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+          >
+            Clear
+          </Link>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-800">{error}</div>
+      )}
+
+      {!error && entries.length === 0 ? (
+        <p className="text-sm text-gray-700">No changes match those filters.</p>
+      ) : (
+        <div className="space-y-3">
+          {entries.length === AUDIT_PAGE_LIMIT && (
+            <p className="text-xs text-gray-600">Showing the latest {AUDIT_PAGE_LIMIT} changes. Narrow the filters to see older ones.</p>
+          )}
+          {entries.map((entry) => (
+            <div key={entry.id} className="space-y-2 rounded-xl border border-gray-200 bg-white p-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className={`rounded-full px-2 py-0.5 text-xs font-semibold uppercase ${ACTION_STYLES[entry.action]}`}>
+                  {entry.action}
+                </span>
+                <span className="font-semibold text-gray-900">
+                  {isAuditedTable(entry.table_name) ? AUDITED_TABLE_LABELS[entry.table_name] : entry.table_name}
+                </span>
+                <Link
+                  href={`/admin/audit?table=${encodeURIComponent(entry.table_name)}&row=${encodeURIComponent(entry.row_id)}`}
+                  className="font-mono text-xs text-gray-600 underline-offset-2 hover:text-gray-900 hover:underline"
+                >
+                  {entry.row_id}
+                </Link>
+                <span className="ml-auto text-xs text-gray-600">
+                  {entry.actor_id ? (actorLookup[entry.actor_id] ?? "Unknown user") : "System"} ·{" "}
+                  {formatDateTime(entry.created_at)}
+                </span>
+              </div>
+              <AuditChangeList entry={entry} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
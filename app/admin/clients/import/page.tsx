@@ -0,0 +1,9 @@
+import ClientImportManager from "@/components/admin/ClientImportManager";
+
+export const metadata = {
+  title: "Import properties • Admin",
+};
+
+export default function AdminImportClientsPage() {
+  return <ClientImportManager />;
+}
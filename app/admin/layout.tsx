@@ -36,6 +36,8 @@ async function resolveAdminContext() {
     { href: "/admin/clients", label: "Property List" },
     { href: "/admin/jobs", label: "Jobs" },
     { href: "/admin/logs", label: "Logs & Proofs" },
+    { href: "/admin/runs", label: "Run History" },
+    { href: "/admin/audit", label: "Audit" },
   ];
 
   return {
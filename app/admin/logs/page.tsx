@@ -1,4 +1,5 @@
 import LogsViewer, { type LogsViewerLog } from "@/components/admin/LogsViewer";
+import { normalizeProofPhotos } from "@/lib/proofPhotos";
 import { supabaseServer } from "@/lib/supabaseServer";
 
 export const metadata = {
@@ -10,7 +11,9 @@ async function loadLogs() {
     const supabase = await supabaseServer();
     const { data } = await supabase
       .from("logs")
-      .select("id, task_type, address, done_on, created_at, photo_path, bins, notes, user_id")
+      .select(
+        "id, task_type, address, done_on, created_at, photo_path, photos, bins, notes, user_id, flagged, verification_score, verification_flags, gps_distance_m",
+      )
       .order("created_at", { ascending: false });
 
     const logs = (data ?? []) as LogsViewerLog[];
@@ -32,7 +35,13 @@ async function loadLogs() {
     }
 
     const photoPaths = Array.from(
-      new Set(logs.map((log) => log.photo_path ?? null).filter((value): value is string => Boolean(value))),
+      new Set(
+        logs.flatMap((log) =>
+          normalizeProofPhotos(log.photos, log.photo_path).flatMap((photo) =>
+            photo.thumbnailPath ? [photo.path, photo.thumbnailPath] : [photo.path],
+          ),
+        ),
+      ),
     );
 
     const signedUrls: Record<string, string> = {};
@@ -1,5 +1,8 @@
 import Link from "next/link";
 import { CompletionTime } from "@/components/CompletionTime";
+import PropertyRequestActions from "@/components/admin/PropertyRequestActions";
+import { JOB_GENERATION_RUN_COLUMNS, type JobGenerationRunRow } from "@/lib/jobGenerationRuns";
+import { formatPropertyRequestAddress, normalizePropertyRequestStatus } from "@/lib/propertyRequests";
 import { supabaseServer } from "@/lib/supabaseServer";
 
 async function loadDashboardData() {
@@ -19,6 +22,8 @@ async function loadDashboardData() {
     staffResult,
     allJobsResult,
     propertyRequestsResult,
+    lastSuccessfulRunResult,
+    latestRunResult,
   ] = await Promise.all([
     supabase
       .from("client_list")
@@ -53,10 +58,23 @@ async function loadDashboardData() {
     supabase
       .from("property_requests")
       .select(
-        "id, account_id, account_name, requester_email, address_line1, address_line2, suburb, city, state, postal_code, start_date, instructions, status, created_at",
+        "id, account_id, account_name, requester_email, address_line1, address_line2, suburb, city, state, postal_code, start_date, instructions, status, converted_property_id, created_at",
       )
       .order("created_at", { ascending: false })
       .limit(8),
+    supabase
+      .from("job_generation_runs")
+      .select(JOB_GENERATION_RUN_COLUMNS)
+      .eq("status", "succeeded")
+      .order("finished_at", { ascending: false })
+      .limit(1)
+      .maybeSingle<JobGenerationRunRow>(),
+    supabase
+      .from("job_generation_runs")
+      .select(JOB_GENERATION_RUN_COLUMNS)
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle<JobGenerationRunRow>(),
   ]);
 
   const staffLookup = new Map(
@@ -115,6 +133,8 @@ async function loadDashboardData() {
     dueToday,
     completedToday,
     propertyRequests: propertyRequestsResult.data ?? [],
+    lastSuccessfulRun: lastSuccessfulRunResult.data ?? null,
+    latestRun: latestRunResult.data ?? null,
   };
 }
 
@@ -122,7 +142,8 @@ const cardClass =
   "rounded-2xl border border-gray-200 bg-gray-100 p-5 shadow-sm transition hover:border-gray-300 hover:shadow-md";
 
 export default async function AdminDashboardPage() {
-  const { stats, unassignedJobs, dueToday, completedToday, propertyRequests } = await loadDashboardData();
+  const { stats, unassignedJobs, dueToday, completedToday, propertyRequests, lastSuccessfulRun, latestRun } =
+    await loadDashboardData();
 
   const cards = [
     { label: "Active properties", value: stats.clients, href: "/admin/clients" },
@@ -148,6 +169,44 @@ export default async function AdminDashboardPage() {
         ))}
       </div>
 
+      <section className="space-y-3 rounded-2xl border border-gray-200 bg-gray-100 p-5">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Job generation</h2>
+            <p className="text-xs text-gray-600">Scheduled runs prepare the next operational day automatically.</p>
+          </div>
+          <Link
+            href="/ops/generate"
+            className="rounded-lg border border-gray-300 px-3 py-1 text-xs font-medium text-gray-800 transition hover:border-gray-400 hover:text-gray-900 whitespace-nowrap"
+          >
+            Generate jobs
+          </Link>
+        </div>
+        {lastSuccessfulRun ? (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-800">
+            <span className="font-semibold text-gray-900">
+              Last successful run:{" "}
+              {new Date(lastSuccessfulRun.finished_at ?? lastSuccessfulRun.started_at).toLocaleString()}
+            </span>
+            <span className="rounded-full bg-gray-200 px-2 py-1 text-xs text-gray-800">{lastSuccessfulRun.trigger}</span>
+            <span className="text-xs text-gray-600">
+              {lastSuccessfulRun.from_date === lastSuccessfulRun.to_date
+                ? lastSuccessfulRun.from_date
+                : `${lastSuccessfulRun.from_date} to ${lastSuccessfulRun.to_date}`}{" "}
+              · {lastSuccessfulRun.inserted_count} added · {lastSuccessfulRun.updated_count} updated ·{" "}
+              {lastSuccessfulRun.deleted_count} removed · {lastSuccessfulRun.unchanged_count} unchanged
+            </span>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-700">No successful job generation runs yet.</p>
+        )}
+        {latestRun?.status === "failed" ? (
+          <p className="text-xs text-red-700">
+            Latest run failed {new Date(latestRun.started_at).toLocaleString()}: {latestRun.error ?? "Unknown error."}
+          </p>
+        ) : null}
+      </section>
+
       <div className="grid gap-6 lg:grid-cols-2">
         <section className="space-y-4 rounded-2xl border border-gray-200 bg-gray-100 p-5">
           <div className="flex items-start justify-between gap-3">
@@ -266,31 +325,33 @@ export default async function AdminDashboardPage() {
           ) : (
             <ul className="space-y-3">
               {propertyRequests.map((request) => {
-                const addressParts = [
-                  request.address_line1,
-                  request.address_line2,
-                  request.suburb,
-                  request.city,
-                  request.state,
-                  request.postal_code,
-                ].filter(Boolean);
+                const address = formatPropertyRequestAddress(request);
+                const requestStatus = normalizePropertyRequestStatus(request.status);
 
                 return (
                   <li key={request.id} className="rounded-xl border border-gray-200 bg-white p-4">
                     <p className="text-sm font-semibold text-gray-900">
-                      {addressParts.length ? addressParts.join(", ") : "Requested property"}
+                      {address.length ? address : "Requested property"}
                     </p>
                     <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-600">
                       {request.account_name && <span>Account: {request.account_name}</span>}
                       {request.requester_email && <span>Contact: {request.requester_email}</span>}
                       {request.start_date && <span>Start: {new Date(request.start_date).toLocaleDateString()}</span>}
-                      {request.status && (
-                        <span className="rounded-full bg-gray-200 px-2 py-1 text-gray-800">{request.status}</span>
-                      )}
+                      <span className="rounded-full bg-gray-200 px-2 py-1 text-gray-800">{requestStatus}</span>
                     </div>
                     {request.instructions && (
                       <p className="mt-2 text-xs text-gray-600">Instructions: {request.instructions}</p>
                     )}
+                    {requestStatus === "converted" && request.converted_property_id ? (
+                      <p className="mt-2 text-xs text-gray-600">
+                        Added to the{" "}
+                        <Link href="/admin/clients" className="font-medium text-gray-900 underline">
+                          property list
+                        </Link>
+                        .
+                      </p>
+                    ) : null}
+                    <PropertyRequestActions requestId={request.id} status={requestStatus} />
                   </li>
                 );
               })}
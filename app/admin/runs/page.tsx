@@ -0,0 +1,56 @@
+import RunHistoryList from "@/components/UI/RunHistoryList";
+import { RUN_COLUMNS, type RunRecord } from "@/lib/run-history";
+import { supabaseServer } from "@/lib/supabaseServer";
+
+export const metadata = {
+  title: "Run History • Admin",
+};
+
+async function loadRuns() {
+  try {
+    const supabase = await supabaseServer();
+    const { data, error } = await supabase
+      .from("runs")
+      .select(RUN_COLUMNS)
+      .order("started_at", { ascending: false })
+      .limit(100);
+
+    if (error) throw error;
+
+    const runs = (data ?? []) as RunRecord[];
+    const staffIds = Array.from(new Set(runs.map((run) => run.staff_id)));
+
+    const staffLookup: Record<string, string> = {};
+    if (staffIds.length) {
+      const { data: profiles } = await supabase
+        .from("user_profile")
+        .select("user_id, full_name")
+        .in("user_id", staffIds);
+
+      for (const profile of profiles ?? []) {
+        staffLookup[profile.user_id] = profile.full_name?.trim().length ? profile.full_name : "Team member";
+      }
+    }
+
+    return { runs, staffLookup };
+  } catch (error) {
+    console.error("Failed to load run history", error);
+    return { runs: [], staffLookup: {} };
+  }
+}
+
+export default async function AdminRunsPage() {
+  const { runs, staffLookup } = await loadRuns();
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-semibold text-gray-900">Run history</h1>
+        <p className="text-sm text-gray-700">
+          Every staff run with its duration, stops proofed and the actual stop order against the planned route.
+        </p>
+      </div>
+      <RunHistoryList runs={runs} staffLookup={staffLookup} />
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { z } from "zod";
+
+import { hashInviteToken } from "@/lib/accountInvites";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+
+const acceptInviteSchema = z.object({
+  token: z.string().trim().min(1, "Missing invite token."),
+});
+
+/** Links a pending invite to the signed-in user when their email matches it. */
+export async function POST(request: Request) {
+  try {
+    const cookieStore = await cookies();
+    const userClient = createRouteHandlerClient({
+      cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+    });
+
+    const {
+      data: { user },
+      error: userError,
+    } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      console.warn("[account-invites/accept] unauthorized request", { userError });
+      return NextResponse.json({ message: "Please sign in to accept the invite." }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.warn("[account-invites/accept] invalid request payload", { error });
+      return NextResponse.json({ message: "Invalid request payload." }, { status: 400 });
+    }
+
+    const parsed = acceptInviteSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { message: parsed.error.issues[0]?.message ?? "Invalid invite." },
+        { status: 400 },
+      );
+    }
+
+    const supabase = supabaseServiceRole() ?? userClient;
+    const { data: invite, error: inviteError } = await supabase
+      .from("account_members")
+      .select("id, account_id, email, status, invite_expires_at")
+      .eq("invite_token_hash", hashInviteToken(parsed.data.token))
+      .maybeSingle();
+
+    if (inviteError) {
+      console.error("[account-invites/accept] failed to load invite", { inviteError });
+      return NextResponse.json({ message: "Unable to accept the invite." }, { status: 500 });
+    }
+
+    if (!invite || invite.status !== "invited") {
+      return NextResponse.json({ message: "This invite is no longer valid." }, { status: 404 });
+    }
+
+    if (!invite.invite_expires_at || new Date(invite.invite_expires_at).getTime() < Date.now()) {
+      return NextResponse.json(
+        { message: "This invite has expired. Ask the account owner to send a new one." },
+        { status: 410 },
+      );
+    }
+
+    if ((user.email ?? "").toLowerCase() !== invite.email.toLowerCase()) {
+      console.warn("[account-invites/accept] email mismatch", { userId: user.id, inviteId: invite.id });
+      return NextResponse.json(
+        { message: `This invite was sent to ${invite.email}. Sign in with that email to accept it.` },
+        { status: 403 },
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("account_members")
+      .update({
+        user_id: user.id,
+        status: "active",
+        accepted_at: new Date().toISOString(),
+        invite_token_hash: null,
+      })
+      .eq("id", invite.id);
+
+    if (updateError) {
+      console.error("[account-invites/accept] failed to accept invite", { updateError, inviteId: invite.id });
+      return NextResponse.json({ message: "Unable to accept the invite." }, { status: 500 });
+    }
+
+    console.info("[account-invites/accept] invite accepted", { accountId: invite.account_id, userId: user.id });
+    return NextResponse.json({ status: "success", accountId: invite.account_id });
+  } catch (error) {
+    console.error("[account-invites/accept] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to accept the invite." }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+import { ACCOUNT_MEMBER_COLUMNS, accountMemberUpdateSchema, accountRoleCan } from "@/lib/accountMembers";
+import { getAccountRole } from "@/lib/clientAccountAccess";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+
+type RouteContext = { params: Promise<{ accountId: string; memberId: string }> };
+
+type AuthorizedMember = {
+  supabase: SupabaseClient;
+  user: User;
+  member: { id: string; user_id: string | null };
+};
+
+/** Resolves the signed-in owner and the member row they are changing, or an error response. */
+async function authorizeOwner(
+  accountId: string,
+  memberId: string,
+): Promise<AuthorizedMember | NextResponse> {
+  const cookieStore = await cookies();
+  const userClient = createRouteHandlerClient({
+    cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+  });
+
+  const {
+    data: { user },
+    error: userError,
+  } = await userClient.auth.getUser();
+
+  if (userError || !user) {
+    console.warn("[accounts/members] unauthorized request", { userError });
+    return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
+  }
+
+  const role = await getAccountRole(userClient, user, accountId);
+  if (!accountRoleCan(role, "manage_team")) {
+    console.warn("[accounts/members] forbidden request", { userId: user.id, accountId, role });
+    return NextResponse.json({ message: "Only account owners can manage members." }, { status: 403 });
+  }
+
+  const supabase = supabaseServiceRole() ?? userClient;
+  const { data: member, error } = await supabase
+    .from("account_members")
+    .select("id, user_id")
+    .eq("id", memberId)
+    .eq("account_id", accountId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[accounts/members] failed to load member", { error, accountId, memberId });
+    return NextResponse.json({ message: "Unable to update the member." }, { status: 500 });
+  }
+
+  if (!member) {
+    return NextResponse.json({ message: "Member not found." }, { status: 404 });
+  }
+
+  if (member.user_id === user.id) {
+    return NextResponse.json({ message: "You can't change your own membership." }, { status: 400 });
+  }
+
+  return { supabase, user, member };
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { accountId, memberId } = await params;
+    const authorized = await authorizeOwner(accountId, memberId);
+    if (authorized instanceof NextResponse) return authorized;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.warn("[accounts/members] invalid request payload", { error });
+      return NextResponse.json({ message: "Invalid request payload." }, { status: 400 });
+    }
+
+    const parsed = accountMemberUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { message: parsed.error.issues[0]?.message ?? "Invalid role." },
+        { status: 400 },
+      );
+    }
+
+    const { data, error } = await authorized.supabase
+      .from("account_members")
+      .update({ role: parsed.data.role })
+      .eq("id", memberId)
+      .select(ACCOUNT_MEMBER_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("[accounts/members] failed to update role", { error, accountId, memberId });
+      return NextResponse.json({ message: "Unable to update the member." }, { status: 500 });
+    }
+
+    console.info("[accounts/members] role updated", { accountId, memberId, role: parsed.data.role });
+    return NextResponse.json({ status: "success", member: data });
+  } catch (error) {
+    console.error("[accounts/members] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to update the member." }, { status: 500 });
+  }
+}
+
+/** Revokes a membership or pending invite. The row is kept for the record. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { accountId, memberId } = await params;
+    const authorized = await authorizeOwner(accountId, memberId);
+    if (authorized instanceof NextResponse) return authorized;
+
+    const { error } = await authorized.supabase
+      .from("account_members")
+      .update({ status: "revoked", invite_token_hash: null, invite_expires_at: null })
+      .eq("id", memberId);
+
+    if (error) {
+      console.error("[accounts/members] failed to revoke member", { error, accountId, memberId });
+      return NextResponse.json({ message: "Unable to remove the member." }, { status: 500 });
+    }
+
+    console.info("[accounts/members] member revoked", { accountId, memberId });
+    return NextResponse.json({ status: "success" });
+  } catch (error) {
+    console.error("[accounts/members] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to remove the member." }, { status: 500 });
+  }
+}
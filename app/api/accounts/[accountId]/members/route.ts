@@ -0,0 +1,171 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+
+import { createInviteToken, hashInviteToken, inviteExpiresAt } from "@/lib/accountInvites";
+import { ACCOUNT_MEMBER_COLUMNS, accountInviteSchema, accountRoleCan } from "@/lib/accountMembers";
+import { getAccountRole } from "@/lib/clientAccountAccess";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+import { buildAppUrl } from "@/lib/url";
+
+type RouteContext = { params: Promise<{ accountId: string }> };
+
+async function getSupabase() {
+  const cookieStore = await cookies();
+  return createRouteHandlerClient({
+    cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+  });
+}
+
+/** Lists the account's members and pending invites for owners and managers. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { accountId } = await params;
+    const supabase = await getSupabase();
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.warn("[accounts/members] unauthorized request", { userError });
+      return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
+    }
+
+    const role = await getAccountRole(supabase, user, accountId);
+    if (!accountRoleCan(role, "edit_settings")) {
+      console.warn("[accounts/members] forbidden request", { userId: user.id, accountId, role });
+      return NextResponse.json({ message: "Forbidden." }, { status: 403 });
+    }
+
+    const db = supabaseServiceRole() ?? supabase;
+    const { data, error } = await db
+      .from("account_members")
+      .select(ACCOUNT_MEMBER_COLUMNS)
+      .eq("account_id", accountId)
+      .neq("status", "revoked")
+      .order("invited_at", { ascending: true });
+
+    if (error) {
+      console.error("[accounts/members] failed to load members", { error, accountId });
+      return NextResponse.json({ message: "Unable to load account members." }, { status: 500 });
+    }
+
+    return NextResponse.json({ members: data ?? [], role });
+  } catch (error) {
+    console.error("[accounts/members] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to load account members." }, { status: 500 });
+  }
+}
+
+/**
+ * Invites someone to the account by email. Owners only. Re-inviting an email
+ * refreshes its token and expiry; the link is returned so it can be shared
+ * directly when the invite email can't be sent.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { accountId } = await params;
+    const supabase = await getSupabase();
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.warn("[accounts/members] unauthorized invite", { userError });
+      return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
+    }
+
+    const role = await getAccountRole(supabase, user, accountId);
+    if (!accountRoleCan(role, "manage_team")) {
+      console.warn("[accounts/members] forbidden invite", { userId: user.id, accountId, role });
+      return NextResponse.json({ message: "Only account owners can invite members." }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.warn("[accounts/members] invalid request payload", { error });
+      return NextResponse.json({ message: "Invalid request payload." }, { status: 400 });
+    }
+
+    const parsed = accountInviteSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { message: parsed.error.issues[0]?.message ?? "Invalid invite." },
+        { status: 400 },
+      );
+    }
+
+    const { email, role: inviteRole } = parsed.data;
+    const admin = supabaseServiceRole();
+    const db = admin ?? supabase;
+
+    const { data: existing, error: existingError } = await db
+      .from("account_members")
+      .select("id, status")
+      .eq("account_id", accountId)
+      .eq("email", email)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error("[accounts/members] failed to look up member", { existingError, accountId });
+      return NextResponse.json({ message: "Unable to send the invite." }, { status: 500 });
+    }
+
+    if (existing?.status === "active") {
+      return NextResponse.json({ message: `${email} is already a member of this account.` }, { status: 409 });
+    }
+
+    const token = createInviteToken();
+    const invite = {
+      account_id: accountId,
+      email,
+      role: inviteRole,
+      status: "invited",
+      user_id: null,
+      invite_token_hash: hashInviteToken(token),
+      invite_expires_at: inviteExpiresAt(),
+      invited_by: user.id,
+      invited_at: new Date().toISOString(),
+      accepted_at: null,
+    };
+
+    const { data: member, error: saveError } = existing
+      ? await db.from("account_members").update(invite).eq("id", existing.id).select(ACCOUNT_MEMBER_COLUMNS).single()
+      : await db.from("account_members").insert(invite).select(ACCOUNT_MEMBER_COLUMNS).single();
+
+    if (saveError) {
+      console.error("[accounts/members] failed to save invite", { saveError, accountId });
+      return NextResponse.json({ message: "Unable to send the invite." }, { status: 500 });
+    }
+
+    const invitePath = `/client/invite?token=${encodeURIComponent(token)}`;
+    const inviteUrl = buildAppUrl(invitePath);
+
+    let emailSent = false;
+    if (admin) {
+      // Supabase only emails people without an account yet; existing users
+      // get the link from the inviting owner instead.
+      const { error: emailError } = await admin.auth.admin.inviteUserByEmail(email, {
+        redirectTo: buildAppUrl(`/auth/callback?next=${encodeURIComponent(invitePath)}`),
+        data: { role: "client" },
+      });
+      if (emailError) {
+        console.warn("[accounts/members] invite email not sent", { emailError: emailError.message, accountId });
+      } else {
+        emailSent = true;
+      }
+    }
+
+    console.info("[accounts/members] invite created", { accountId, role: inviteRole, emailSent });
+    return NextResponse.json({ status: "success", member, inviteUrl, emailSent }, { status: 201 });
+  } catch (error) {
+    console.error("[accounts/members] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to send the invite." }, { status: 500 });
+  }
+}
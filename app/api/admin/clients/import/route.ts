@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withAuth, type AuthContext } from "@/lib/auth/requireRole";
+import { CLIENT_FIELD_CONFIGS } from "@/components/admin/clientFieldConfig";
+import {
+  MAX_CLIENT_IMPORT_ROWS,
+  flagDuplicatePropertyIds,
+  validateClientImportRow,
+  type ClientImportField,
+  type ClientImportRowValues,
+} from "@/lib/clientImport";
+
+const EXISTING_CHECK_BATCH = 100;
+
+const FIELD_KEYS = CLIENT_FIELD_CONFIGS.map((config) => config.key) as [ClientImportField, ...ClientImportField[]];
+
+const importSchema = z.object({
+  mode: z.enum(["insert", "upsert"]),
+  rows: z
+    .array(
+      z.object({
+        line: z.number().int().positive(),
+        values: z.record(z.enum(FIELD_KEYS), z.union([z.string(), z.number(), z.null()])),
+      }),
+    )
+    .min(1, "The file has no rows to import.")
+    .max(MAX_CLIENT_IMPORT_ROWS, `Import at most ${MAX_CLIENT_IMPORT_ROWS} rows at a time.`),
+});
+
+/**
+ * Adds or updates `client_list` rows from a validated import. Rows are checked
+ * again here, including for repeated property ids, then written in a single
+ * insert or upsert so the import either lands in full or not at all.
+ */
+async function importClients(request: Request, { supabase }: AuthContext) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.warn("[admin/clients/import] invalid request payload", { error });
+      return NextResponse.json({ message: "Invalid request payload." }, { status: 400 });
+    }
+
+    const parsed = importSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { message: parsed.error.issues[0]?.message ?? "Invalid import." },
+        { status: 400 },
+      );
+    }
+
+    const { mode, rows } = parsed.data;
+
+    const { data: staffRows, error: staffError } = await supabase
+      .from("user_profile")
+      .select("user_id, full_name")
+      .in("role", ["staff", "admin"]);
+    if (staffError) {
+      console.error("[admin/clients/import] failed to load staff", { staffError });
+      return NextResponse.json({ message: "Unable to check staff assignments." }, { status: 500 });
+    }
+    const staff = (staffRows ?? []).map((row) => ({ id: row.user_id as string, name: row.full_name ?? "" }));
+
+    const fields = Array.from(
+      new Set<ClientImportField>(["property_id", ...rows.flatMap((row) => Object.keys(row.values) as ClientImportField[])]),
+    );
+    const validated = flagDuplicatePropertyIds(
+      rows.map((row) => ({ line: row.line, ...validateClientImportRow(row.values, staff) })),
+    );
+    const errors = validated
+      .filter((row) => row.errors.length)
+      .map((row) => ({ line: row.line, errors: row.errors }));
+    const payload = validated.map(({ values }) => {
+      // Every row needs the same columns, or the upsert would null out fields other rows set.
+      const record: ClientImportRowValues = Object.fromEntries(fields.map((field) => [field, values[field] ?? null]));
+      record.property_id = (values.property_id as string | null) ?? crypto.randomUUID();
+      return record;
+    });
+
+    if (errors.length) {
+      return NextResponse.json(
+        { message: `${errors.length} row${errors.length === 1 ? " has" : "s have"} errors.`, errors },
+        { status: 400 },
+      );
+    }
+
+    const providedIds = validated
+      .map((row) => row.values.property_id)
+      .filter((value): value is string => typeof value === "string" && value.length > 0);
+    let existingCount = 0;
+    // Ids go in the query string, so they are checked a batch at a time.
+    for (let start = 0; start < providedIds.length; start += EXISTING_CHECK_BATCH) {
+      const { data: existing, error: existingError } = await supabase
+        .from("client_list")
+        .select("property_id")
+        .in("property_id", providedIds.slice(start, start + EXISTING_CHECK_BATCH));
+      if (existingError) {
+        console.error("[admin/clients/import] failed to check existing properties", { existingError });
+        return NextResponse.json({ message: "Unable to check existing properties." }, { status: 500 });
+      }
+      existingCount += existing?.length ?? 0;
+    }
+
+    if (mode === "insert" && existingCount) {
+      return NextResponse.json(
+        {
+          message: `${existingCount} propert${existingCount === 1 ? "y is" : "ies are"} already on the list. Choose "Update existing" to change them.`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const { error } =
+      mode === "upsert"
+        ? await supabase.from("client_list").upsert(payload, { onConflict: "property_id" })
+        : await supabase.from("client_list").insert(payload);
+
+    if (error) {
+      console.error("[admin/clients/import] failed to write properties", { error, mode, rows: payload.length });
+      return NextResponse.json({ message: `Import failed, nothing was saved: ${error.message}` }, { status: 500 });
+    }
+
+    const inserted = payload.length - existingCount;
+    console.info("[admin/clients/import] properties imported", { mode, inserted, updated: existingCount });
+    return NextResponse.json({ status: "success", inserted, updated: existingCount });
+  } catch (error) {
+    console.error("[admin/clients/import] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to import properties." }, { status: 500 });
+  }
+}
+
+export const POST = withAuth("admin", "admin/clients/import", importClients);
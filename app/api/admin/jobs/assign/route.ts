@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { withAuth, type AuthContext } from "@/lib/auth/requireRole";
+import { z } from "zod";
+
+/** More than a busy day across every driver; keeps one request's update bounded. */
+const MAX_ASSIGNMENTS = 1000;
+
+const assignJobsSchema = z.object({
+  assignments: z
+    .array(
+      z.object({
+        jobId: z.string().trim().min(1),
+        assignedTo: z.string().trim().min(1).nullable(),
+      }),
+    )
+    .min(1, "No assignment changes to save.")
+    .max(MAX_ASSIGNMENTS, `Save at most ${MAX_ASSIGNMENTS} assignment changes at a time.`),
+});
+
+/**
+ * Writes several `assigned_to` changes at once through the `assign_jobs` RPC,
+ * which applies them in one transaction so a failure leaves no partial split.
+ */
+async function assignJobs(request: Request, { supabase }: AuthContext) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.warn("[admin/jobs/assign] invalid request payload", { error });
+      return NextResponse.json({ message: "Invalid request payload." }, { status: 400 });
+    }
+
+    const parsed = assignJobsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { message: parsed.error.issues[0]?.message ?? "Invalid assignment changes." },
+        { status: 400 },
+      );
+    }
+
+    const assignments = parsed.data.assignments.map(({ jobId, assignedTo }) => ({
+      id: jobId,
+      assigned_to: assignedTo,
+    }));
+    const { data, error } = await supabase.rpc("assign_jobs", { assignments });
+    if (error) {
+      console.error("[admin/jobs/assign] failed to update jobs", { error, count: assignments.length });
+      return NextResponse.json(
+        { message: `Failed to update assignments, nothing was saved: ${error.message}` },
+        { status: 500 },
+      );
+    }
+
+    const updated = typeof data === "number" ? data : assignments.length;
+    console.info("[admin/jobs/assign] assignments updated", { updated, requested: assignments.length });
+    return NextResponse.json({ status: "success", updated });
+  } catch (error) {
+    console.error("[admin/jobs/assign] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to update assignments." }, { status: 500 });
+  }
+}
+
+export const POST = withAuth("admin", "admin/jobs/assign", assignJobs);
@@ -1,68 +1,34 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { withAuth, type AuthContext } from "@/lib/auth/requireRole";
 
 import {
-  buildBinsSummary,
-  deriveAccountId,
-  deriveClientName,
-  extractDayNames,
-  parseLatLng,
+  JOB_SOURCE_COLUMNS,
+  buildJobsForClient,
+  getUpcomingWeekJobGenerationTargets,
   type JobSourceClientRow,
 } from "@/lib/jobGeneration";
+import {
+  EXISTING_JOB_COLUMNS,
+  applyJobDiffMutations,
+  buildJobDiffMutations,
+  describeJobDiffResult,
+  diffJobs,
+  isJobDiffEmpty,
+  summarizeJobDiff,
+  type ExistingJobRow,
+} from "@/lib/jobDiff";
 
 type CreateJobsPayload = {
   propertyId?: string;
+  /** Return the diff without writing anything. */
+  dryRun?: boolean;
+  /** Diff entry keys to apply; every change is applied when omitted. */
+  accept?: string[];
 };
 
-type NewJobRow = {
-  account_id: string | null;
-  property_id: string | null;
-  address: string;
-  lat: number | null;
-  lng: number | null;
-  job_type: "put_out" | "bring_in";
-  bins: string | null;
-  notes: string | null;
-  client_name: string | null;
-  photo_path: string | null;
-  assigned_to: string | null;
-  day_of_week: string;
-  last_completed_on: null;
-};
-
-export async function POST(request: Request) {
+async function createJobs(request: Request, { supabase }: AuthContext) {
   try {
     console.info("[admin/jobs/create] request received");
-    const cookieStore = await cookies();
-    const supabase = createRouteHandlerClient({
-      cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
-    });
-
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      console.warn("[admin/jobs/create] unauthorized request", { userError });
-      return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
-    }
-
-    const { data: profile, error: profileError } = await supabase
-      .from("user_profile")
-      .select("role")
-      .eq("user_id", user.id)
-      .maybeSingle();
-
-    if (profileError || profile?.role !== "admin") {
-      console.warn("[admin/jobs/create] forbidden request", {
-        profileError,
-        role: profile?.role ?? null,
-      });
-      return NextResponse.json({ message: "Forbidden." }, { status: 403 });
-    }
-
     let payload: CreateJobsPayload;
     try {
       payload = (await request.json()) as CreateJobsPayload;
@@ -79,9 +45,7 @@ export async function POST(request: Request) {
 
     const { data: client, error: clientError } = await supabase
       .from("client_list")
-      .select(
-        "property_id, account_id, client_name, company, address, collection_day, put_bins_out, notes, assigned_to, lat_lng, photo_path, red_freq, red_flip, yellow_freq, yellow_flip, green_freq, green_flip",
-      )
+      .select(JOB_SOURCE_COLUMNS)
       .eq("property_id", propertyId)
       .maybeSingle<JobSourceClientRow>();
 
@@ -95,104 +59,60 @@ export async function POST(request: Request) {
       return NextResponse.json({ message: "Property not found." }, { status: 404 });
     }
 
-    const accountId = deriveAccountId(client);
-    const clientName = deriveClientName(client);
-    const { lat, lng } = parseLatLng(client.lat_lng);
-    const bins = buildBinsSummary(client);
-    const address = client.address?.trim() ?? "";
-    const putOutDays = extractDayNames(client.put_bins_out);
-    const bringInDays = extractDayNames(client.collection_day);
-
-    const jobs: NewJobRow[] = [];
-
-    putOutDays.forEach((dayName) => {
-      jobs.push({
-        account_id: accountId,
-        property_id: client.property_id,
-        address,
-        lat,
-        lng,
-        job_type: "put_out",
-        bins,
-        notes: client.notes,
-        client_name: clientName,
-        photo_path: client.photo_path,
-        assigned_to: client.assigned_to,
-        day_of_week: dayName,
-        last_completed_on: null,
-      });
-    });
+    const jobs = getUpcomingWeekJobGenerationTargets().flatMap((target) => buildJobsForClient(client, target));
 
-    bringInDays.forEach((dayName) => {
-      jobs.push({
-        account_id: accountId,
-        property_id: client.property_id,
-        address,
-        lat,
-        lng,
-        job_type: "bring_in",
-        bins,
-        notes: client.notes,
-        client_name: clientName,
-        photo_path: client.photo_path,
-        assigned_to: client.assigned_to,
-        day_of_week: dayName,
-        last_completed_on: null,
-      });
-    });
-
-    if (!jobs.length) {
-      console.info("[admin/jobs/create] no jobs scheduled", {
-        propertyId,
-        putOutDays,
-        bringInDays,
-      });
-      return NextResponse.json({
-        status: "success",
-        message: "No jobs scheduled for this property.",
-      });
-    }
-
-    const scheduledDays = [...new Set([...putOutDays, ...bringInDays])];
-    const { error: deleteError } = await supabase
+    const { data: existingJobs, error: existingError } = await supabase
       .from("jobs")
-      .delete()
+      .select(EXISTING_JOB_COLUMNS)
       .eq("property_id", propertyId)
-      .in("day_of_week", scheduledDays)
       .is("last_completed_on", null);
 
-    if (deleteError) {
-      console.error("[admin/jobs/create] failed to clear existing jobs", {
-        deleteError,
-        propertyId,
-        scheduledDays,
+    if (existingError) {
+      console.error("[admin/jobs/create] failed to load existing jobs", { existingError, propertyId });
+      return NextResponse.json({ message: "Unable to load existing jobs." }, { status: 500 });
+    }
+
+    const entries = diffJobs(jobs, (existingJobs ?? []) as ExistingJobRow[]);
+    const summary = summarizeJobDiff(entries);
+
+    if (payload.dryRun) {
+      console.info("[admin/jobs/create] dry run", { propertyId, summary });
+      return NextResponse.json({ status: "success", entries, summary });
+    }
+
+    const accept = Array.isArray(payload.accept) ? payload.accept.map(String) : undefined;
+    const mutations = buildJobDiffMutations(entries, accept);
+
+    if (isJobDiffEmpty(mutations)) {
+      console.info("[admin/jobs/create] no changes to apply", { propertyId, summary });
+      return NextResponse.json({
+        status: "success",
+        summary,
+        message: jobs.length ? "Jobs are already up to date." : "No jobs scheduled for this property.",
       });
-      return NextResponse.json({ message: "Failed to clear existing jobs." }, { status: 500 });
     }
 
-    const { error: insertError } = await supabase.from("jobs").insert(jobs);
+    const result = await applyJobDiffMutations(supabase, mutations);
 
-    if (insertError) {
-      console.error("[admin/jobs/create] failed to create jobs", {
-        insertError,
+    if (!result.ok) {
+      console.error("[admin/jobs/create] failed to apply job changes", {
+        step: result.step,
+        error: result.message,
         propertyId,
-        scheduledDays,
-        jobCount: jobs.length,
       });
-      return NextResponse.json({ message: "Failed to create jobs." }, { status: 500 });
+      return NextResponse.json({ message: "Failed to update jobs." }, { status: 500 });
     }
 
-    console.info("[admin/jobs/create] jobs created", {
-      propertyId,
-      scheduledDays,
-      jobCount: jobs.length,
-    });
+    console.info("[admin/jobs/create] jobs updated", { propertyId, ...result });
     return NextResponse.json({
       status: "success",
-      message: `Created ${jobs.length} job${jobs.length === 1 ? "" : "s"} for ${scheduledDays.join(", ")}.`,
+      summary,
+      message: `Jobs updated: ${describeJobDiffResult(result)}.`,
     });
   } catch (error) {
     console.error("[admin/jobs/create] unexpected error", { error });
     return NextResponse.json({ message: "Unable to create jobs for this property." }, { status: 500 });
   }
 }
+
+export const POST = withAuth("admin", "admin/jobs/create", createJobs);
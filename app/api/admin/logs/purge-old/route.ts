@@ -1,23 +1,33 @@
 import { NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabaseServer";
+import { withAuth, type AuthContext } from "@/lib/auth/requireRole";
+import { describeRetentionPurge, loadRetentionPlan, runRetentionPurge } from "@/lib/retention";
 
-const SIX_WEEKS_IN_MS = 6 * 7 * 24 * 60 * 60 * 1000;
-
-export async function POST() {
+/** What a purge would remove right now, for the confirmation prompt. */
+async function previewPurge(_request: Request, { supabase }: AuthContext) {
   try {
-    const supabase = await supabaseServer();
-    const cutoff = new Date(Date.now() - SIX_WEEKS_IN_MS).toISOString();
-
-    const { error } = await supabase.from("logs").delete().lt("created_at", cutoff);
-
-    if (error) {
-      console.error("Failed to delete old logs", error);
-      return NextResponse.json({ error: "Unable to delete old logs." }, { status: 500 });
-    }
+    const plan = await loadRetentionPlan(supabase);
+    return NextResponse.json({
+      logsDeleted: plan.deleteLogIds.length,
+      logsStripped: plan.stripLogIds.length,
+      objects: plan.storagePaths.length,
+      heldLogCount: plan.heldLogCount,
+    });
+  } catch (error) {
+    console.error("[admin/logs/purge-old] failed to preview purge", { error });
+    return NextResponse.json({ message: "Unable to check which logs are due for deletion." }, { status: 500 });
+  }
+}
 
-    return NextResponse.json({ success: true });
+async function purgeOldLogs(_request: Request, { supabase, user }: AuthContext) {
+  try {
+    const result = await runRetentionPurge(supabase, await loadRetentionPlan(supabase));
+    console.info("[admin/logs/purge-old] purge finished", { userId: user.id, ...result });
+    return NextResponse.json({ status: "success", ...result, message: `${describeRetentionPurge(result)}.` });
   } catch (error) {
-    console.error("Unexpected error deleting old logs", error);
-    return NextResponse.json({ error: "Unable to delete old logs." }, { status: 500 });
+    console.error("[admin/logs/purge-old] failed to purge logs", { error });
+    return NextResponse.json({ message: "Unable to delete old logs." }, { status: 500 });
   }
 }
+
+export const GET = withAuth("admin", "admin/logs/purge-old", previewPurge);
+export const POST = withAuth("admin", "admin/logs/purge-old", purgeOldLogs);
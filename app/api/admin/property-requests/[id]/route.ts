@@ -0,0 +1,173 @@
+import { NextResponse } from "next/server";
+import { withAuth, type AuthContext } from "@/lib/auth/requireRole";
+
+import {
+  PROPERTY_REQUEST_COLUMNS,
+  allowedActionsFor,
+  buildClientRowFromRequest,
+  normalizePropertyRequestStatus,
+  propertyRequestActionSchema,
+  statusForAction,
+  type ExistingClientDetails,
+  type PropertyRequestRow,
+} from "@/lib/propertyRequests";
+import { buildOrFilters } from "@/lib/clientPortalAccess";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function updatePropertyRequest(request: Request, { supabase, user }: AuthContext, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const requestId = id?.trim();
+    if (!requestId) {
+      return NextResponse.json({ message: "Request ID is required." }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.warn("[admin/property-requests] invalid request payload", { error });
+      return NextResponse.json({ message: "Invalid request payload." }, { status: 400 });
+    }
+
+    const parsed = propertyRequestActionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ message: "Unknown property request action." }, { status: 400 });
+    }
+
+    const { action } = parsed.data;
+
+    const { data: propertyRequest, error: loadError } = await supabase
+      .from("property_requests")
+      .select(PROPERTY_REQUEST_COLUMNS)
+      .eq("id", requestId)
+      .maybeSingle<PropertyRequestRow>();
+
+    if (loadError) {
+      console.error("[admin/property-requests] failed to load request", { loadError, requestId });
+      return NextResponse.json({ message: "Unable to load the property request." }, { status: 500 });
+    }
+
+    if (!propertyRequest) {
+      return NextResponse.json({ message: "Property request not found." }, { status: 404 });
+    }
+
+    const currentStatus = normalizePropertyRequestStatus(propertyRequest.status);
+    if (!allowedActionsFor(currentStatus).includes(action)) {
+      return NextResponse.json(
+        { message: `This request is already ${currentStatus}.` },
+        { status: 409 },
+      );
+    }
+
+    let clientRow: ReturnType<typeof buildClientRowFromRequest> | null = null;
+
+    if (action === "convert") {
+      const { data: existingClients, error: existingError } = await supabase
+        .from("client_list")
+        .select("client_name, company, email")
+        .or(
+          [
+            ...buildOrFilters("account_id", [propertyRequest.account_id]),
+            ...buildOrFilters("property_id", [propertyRequest.account_id]),
+          ].join(","),
+        )
+        .limit(1);
+
+      if (existingError) {
+        console.warn("[admin/property-requests] failed to load existing client", {
+          existingError,
+          accountId: propertyRequest.account_id,
+        });
+      }
+
+      const existingClient = (existingClients?.[0] ?? null) as ExistingClientDetails | null;
+      clientRow = buildClientRowFromRequest(propertyRequest, existingClient);
+    }
+
+    const convertedPropertyId = clientRow?.property_id ?? null;
+    const nextStatus = statusForAction(action);
+
+    // Claim the request while it still has the status checked above, so two
+    // admins acting at once, or a retry, can't both convert it.
+    const claim = supabase
+      .from("property_requests")
+      .update({
+        status: nextStatus,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+        ...(convertedPropertyId ? { converted_property_id: convertedPropertyId } : {}),
+      })
+      .eq("id", requestId);
+    const { data: claimed, error: updateError } = await (propertyRequest.status === null
+      ? claim.is("status", null)
+      : claim.eq("status", propertyRequest.status)
+    ).select("id");
+
+    if (updateError) {
+      console.error("[admin/property-requests] failed to update request", {
+        updateError,
+        requestId,
+        action,
+      });
+      return NextResponse.json({ message: "Failed to update the property request." }, { status: 500 });
+    }
+
+    if (!claimed?.length) {
+      console.warn("[admin/property-requests] request changed before it could be claimed", { requestId, action });
+      return NextResponse.json(
+        { message: "This request was just updated by someone else. Refresh to see its status." },
+        { status: 409 },
+      );
+    }
+
+    if (clientRow) {
+      const { error: insertError } = await supabase.from("client_list").insert(clientRow);
+      if (insertError) {
+        console.error("[admin/property-requests] failed to create property", {
+          insertError,
+          requestId,
+        });
+
+        const { error: releaseError } = await supabase
+          .from("property_requests")
+          .update({
+            status: propertyRequest.status,
+            reviewed_by: propertyRequest.reviewed_by,
+            reviewed_at: propertyRequest.reviewed_at,
+            converted_property_id: propertyRequest.converted_property_id,
+          })
+          .eq("id", requestId)
+          .eq("status", nextStatus);
+        if (releaseError) {
+          console.error("[admin/property-requests] failed to release request", { releaseError, requestId });
+        }
+
+        return NextResponse.json({ message: "Failed to add the property to the client list." }, { status: 500 });
+      }
+    }
+
+    console.info("[admin/property-requests] request updated", {
+      requestId,
+      action,
+      convertedPropertyId,
+    });
+    return NextResponse.json({
+      status: "success",
+      requestStatus: nextStatus,
+      propertyId: convertedPropertyId,
+      message:
+        action === "convert"
+          ? "Property added to the client list."
+          : `Request ${nextStatus}.`,
+    });
+  } catch (error) {
+    console.error("[admin/property-requests] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to update the property request." }, { status: 500 });
+  }
+}
+
+export const PATCH = withAuth("admin", "admin/property-requests", updatePropertyRequest);
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { rejectUnauthorizedCron } from "@/lib/cronAuth";
+import { getNotificationChannels } from "@/lib/notifications/channels";
+import { dispatchNotifications } from "@/lib/notifications/dispatcher";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+
+async function handle(request: Request) {
+  const rejection = rejectUnauthorizedCron(request, "cron/dispatch-notifications");
+  if (rejection) return rejection;
+
+  const supabase = supabaseServiceRole();
+  if (!supabase) {
+    console.error("[cron/dispatch-notifications] SUPABASE_SERVICE_ROLE_KEY is not configured");
+    return NextResponse.json({ message: "Cron is not configured." }, { status: 503 });
+  }
+
+  const channels = getNotificationChannels(supabase);
+  if (!channels.length) {
+    console.warn("[cron/dispatch-notifications] no notification channels configured");
+    return NextResponse.json({ message: "No notification channels are configured." }, { status: 503 });
+  }
+
+  try {
+    const summary = await dispatchNotifications(supabase, { channels });
+    console.info("[cron/dispatch-notifications] run finished", summary);
+    return NextResponse.json({ status: "success", summary });
+  } catch (error) {
+    console.error("[cron/dispatch-notifications] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to dispatch notifications." }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
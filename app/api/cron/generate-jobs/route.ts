@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+
+import { rejectUnauthorizedCron } from "@/lib/cronAuth";
+import { describeJobDiffResult } from "@/lib/jobDiff";
+import { buildJobGenerationTarget, getNextOperationalJobGenerationDate } from "@/lib/jobGeneration";
+import { runJobGeneration } from "@/lib/jobGenerationRuns";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+
+async function handle(request: Request) {
+  const rejection = rejectUnauthorizedCron(request, "cron/generate-jobs");
+  if (rejection) return rejection;
+
+  const supabase = supabaseServiceRole();
+  if (!supabase) {
+    console.error("[cron/generate-jobs] SUPABASE_SERVICE_ROLE_KEY is not configured");
+    return NextResponse.json({ message: "Cron is not configured." }, { status: 503 });
+  }
+
+  try {
+    const target = buildJobGenerationTarget(getNextOperationalJobGenerationDate());
+    const label = `${target.dayName} ${target.date}`;
+    const result = await runJobGeneration(supabase, { targets: [target], trigger: "cron" });
+
+    if (result.status === "skipped") {
+      console.info("[cron/generate-jobs] run skipped", { date: target.date });
+      return NextResponse.json({ status: "skipped", date: target.date, message: result.error }, { status: 409 });
+    }
+
+    if (result.status === "failed") {
+      console.error("[cron/generate-jobs] run failed", { date: target.date, runId: result.runId, error: result.error });
+      return NextResponse.json(
+        { status: "error", date: target.date, runId: result.runId, message: result.error },
+        { status: 500 },
+      );
+    }
+
+    console.info("[cron/generate-jobs] run succeeded", {
+      date: target.date,
+      runId: result.runId,
+      inserted: result.inserted,
+      updated: result.updated,
+      deleted: result.deleted,
+    });
+    return NextResponse.json({
+      status: "success",
+      date: target.date,
+      runId: result.runId,
+      summary: result.summary,
+      message: `Jobs for ${label}: ${describeJobDiffResult(result)}.`,
+    });
+  } catch (error) {
+    console.error("[cron/generate-jobs] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to generate jobs." }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { rejectUnauthorizedCron } from "@/lib/cronAuth";
+import { describeRetentionPurge, loadRetentionPlan, runRetentionPurge } from "@/lib/retention";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+
+async function handle(request: Request) {
+  const rejection = rejectUnauthorizedCron(request, "cron/purge-logs");
+  if (rejection) return rejection;
+
+  const supabase = supabaseServiceRole();
+  if (!supabase) {
+    console.error("[cron/purge-logs] SUPABASE_SERVICE_ROLE_KEY is not configured");
+    return NextResponse.json({ message: "Cron is not configured." }, { status: 503 });
+  }
+
+  try {
+    const result = await runRetentionPurge(supabase, await loadRetentionPlan(supabase));
+    console.info("[cron/purge-logs] purge finished", result);
+    return NextResponse.json({ status: "success", ...result, message: `${describeRetentionPurge(result)}.` });
+  } catch (error) {
+    console.error("[cron/purge-logs] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to purge old logs." }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
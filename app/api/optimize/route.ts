@@ -1,48 +1,39 @@
 // app/api/optimize/route.ts
-import { NextRequest, NextResponse } from "next/server";
-import polyline from "@mapbox/polyline";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth/requireRole";
+import { routeOptimizationRequestSchema, selectRouteOptimizer } from "@/lib/routeOptimizer";
 
-export async function POST(req: NextRequest) {
+async function optimizeRoute(req: Request) {
   try {
-    const { start, end, waypoints } = await req.json();
-
-    const key = process.env.GOOGLE_MAPS_SERVER_KEY;
-    if (!key) {
-      return NextResponse.json({ error: "Missing GOOGLE_MAPS_SERVER_KEY" }, { status: 500 });
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid request payload." }, { status: 400 });
     }
 
-    const url = new URL("https://maps.googleapis.com/maps/api/directions/json");
-    url.searchParams.set("origin", `${start.lat},${start.lng}`);
-    url.searchParams.set("destination", `${end.lat},${end.lng}`);
-    url.searchParams.set("key", key);
-    url.searchParams.set("mode", "driving");
-    url.searchParams.set("waypoints", `optimize:true|${waypoints.map((w: any) => `${w.lat},${w.lng}`).join("|")}`);
-
-    const resp = await fetch(url.toString());
-    const data = await resp.json();
-
-    if (data.status !== "OK") {
-      return NextResponse.json({ error: data.status, details: data }, { status: 400 });
+    const parsed = routeOptimizationRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: parsed.error.issues[0]?.message ?? "Invalid route request.",
+          issues: parsed.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
     }
 
-    const route = data.routes[0];
-    const order: number[] = route.waypoint_order;
-    const decodedPath = polyline.decode(route.overview_polyline.points)
-      .map((coords) => ({ lat: coords[0], lng: coords[1] }));
-
+    const optimizer = selectRouteOptimizer(parsed.data);
+    const result = await optimizer.optimize(parsed.data);
 
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, details: result.details }, { status: result.status });
+    }
 
-    return NextResponse.json({
-      polyline: route.overview_polyline.points,
-      order,
-      legs: route.legs.map((l: any) => ({
-        start_address: l.start_address,
-        end_address: l.end_address,
-        distance_m: l.distance.value,
-        duration_s: l.duration.value,
-      })),
-    });
+    return NextResponse.json(result.route, { headers: { "x-route-optimizer": optimizer.name } });
   } catch (e: any) {
     return NextResponse.json({ error: e.message }, { status: 500 });
   }
 }
+
+export const POST = withAuth(["staff", "admin"], "optimize", optimizeRoute);
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+
+import { accountRoleCan } from "@/lib/accountMembers";
+import { getAccountRole } from "@/lib/clientAccountAccess";
+import { propertyRequestSchema } from "@/lib/propertyRequests";
+
+export async function POST(request: Request) {
+  try {
+    const cookieStore = await cookies();
+    const supabase = createRouteHandlerClient({
+      cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+    });
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.warn("[property-requests] unauthorized request", { userError });
+      return NextResponse.json({ message: "Please sign in to request a property." }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.warn("[property-requests] invalid request payload", { error });
+      return NextResponse.json({ message: "Invalid request payload." }, { status: 400 });
+    }
+
+    const parsed = propertyRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      const firstIssue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          message: firstIssue?.message ?? "Invalid property request.",
+          issues: parsed.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const input = parsed.data;
+
+    const role = await getAccountRole(supabase, user, input.accountId);
+    if (!accountRoleCan(role, "request_properties")) {
+      console.warn("[property-requests] forbidden request", {
+        userId: user.id,
+        accountId: input.accountId,
+        role,
+      });
+      return NextResponse.json(
+        { message: "You do not have access to request properties for this account." },
+        { status: 403 },
+      );
+    }
+
+    const { data, error: insertError } = await supabase
+      .from("property_requests")
+      .insert({
+        account_id: input.accountId,
+        account_name: input.accountName,
+        requester_email: input.requesterEmail ?? user.email ?? null,
+        requested_by: user.id,
+        address_line1: input.addressLine1,
+        address_line2: input.addressLine2,
+        suburb: input.suburb,
+        city: input.city,
+        state: input.state,
+        postal_code: input.postalCode,
+        start_date: input.startDate,
+        instructions: input.instructions,
+        status: "pending",
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      console.error("[property-requests] failed to create request", {
+        insertError,
+        accountId: input.accountId,
+      });
+      return NextResponse.json({ message: "Unable to submit your property request." }, { status: 500 });
+    }
+
+    console.info("[property-requests] request created", {
+      requestId: data?.id ?? null,
+      accountId: input.accountId,
+    });
+    return NextResponse.json({ status: "success", id: data?.id ?? null }, { status: 201 });
+  } catch (error) {
+    console.error("[property-requests] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to submit your property request." }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import type { z } from "zod";
+
+import { pushSubscriptionSchema, pushUnsubscribeSchema } from "@/lib/pushSubscriptions";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+
+async function authenticate<Schema extends z.ZodTypeAny>(request: Request, schema: Schema) {
+  const cookieStore = await cookies();
+  const supabase = createRouteHandlerClient({
+    cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+  });
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.warn("[push-subscriptions] unauthorized request", { userError });
+    return { response: NextResponse.json({ message: "Unauthorized." }, { status: 401 }) };
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.warn("[push-subscriptions] invalid request payload", { error });
+    return { response: NextResponse.json({ message: "Invalid request payload." }, { status: 400 }) };
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      response: NextResponse.json(
+        { message: parsed.error.issues[0]?.message ?? "Invalid push subscription." },
+        { status: 400 },
+      ),
+    };
+  }
+
+  return { supabase: supabaseServiceRole() ?? supabase, user, data: parsed.data as z.infer<Schema> };
+}
+
+/** Saves this browser's push subscription for the signed-in user. */
+export async function POST(request: Request) {
+  try {
+    const result = await authenticate(request, pushSubscriptionSchema);
+    if ("response" in result) return result.response;
+    const { supabase, user, data: subscription } = result;
+
+    // A browser has one endpoint; re-subscribing after signing in as someone
+    // else moves it to the new user.
+    const { error } = await supabase.from("push_subscriptions").upsert(
+      {
+        user_id: user.id,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: request.headers.get("user-agent"),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "endpoint" },
+    );
+
+    if (error) {
+      console.error("[push-subscriptions] failed to save subscription", { error, userId: user.id });
+      return NextResponse.json({ message: "Unable to enable push notifications." }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success" }, { status: 201 });
+  } catch (error) {
+    console.error("[push-subscriptions] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to enable push notifications." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const result = await authenticate(request, pushUnsubscribeSchema);
+    if ("response" in result) return result.response;
+    const {
+      supabase,
+      user,
+      data: { endpoint },
+    } = result;
+
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .delete()
+      .eq("endpoint", endpoint)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("[push-subscriptions] failed to delete subscription", { error, userId: user.id });
+      return NextResponse.json({ message: "Unable to turn off push notifications." }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success" });
+  } catch (error) {
+    console.error("[push-subscriptions] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to turn off push notifications." }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+
+import { canManageShareLinks } from "@/lib/clientAccountAccess";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Revokes a share link. Revoked links stop working immediately. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const cookieStore = await cookies();
+    const supabase = createRouteHandlerClient({
+      cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+    });
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.warn("[share-links] unauthorized revoke", { userError });
+      return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
+    }
+
+    const db = supabaseServiceRole() ?? supabase;
+    const { data: link, error: linkError } = await db
+      .from("portal_share_links")
+      .select("id, account_id, revoked_at")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (linkError) {
+      console.error("[share-links] failed to load link", { linkError, id });
+      return NextResponse.json({ message: "Unable to revoke the share link." }, { status: 500 });
+    }
+
+    if (!link) {
+      return NextResponse.json({ message: "Share link not found." }, { status: 404 });
+    }
+
+    if (!(await canManageShareLinks(supabase, user, link.account_id))) {
+      console.warn("[share-links] forbidden revoke", { userId: user.id, accountId: link.account_id });
+      return NextResponse.json({ message: "Forbidden." }, { status: 403 });
+    }
+
+    if (!link.revoked_at) {
+      const { error } = await db
+        .from("portal_share_links")
+        .update({ revoked_at: new Date().toISOString(), revoked_by: user.id })
+        .eq("id", id);
+
+      if (error) {
+        console.error("[share-links] failed to revoke link", { error, id });
+        return NextResponse.json({ message: "Unable to revoke the share link." }, { status: 500 });
+      }
+    }
+
+    console.info("[share-links] link revoked", { id, accountId: link.account_id });
+    return NextResponse.json({ status: "success" });
+  } catch (error) {
+    console.error("[share-links] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to revoke the share link." }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+
+import { canManageShareLinks } from "@/lib/clientAccountAccess";
+import {
+  SHARE_LINK_COLUMNS,
+  createShareLinkSchema,
+  createShareToken,
+  hashShareToken,
+  shareLinkExpiresAt,
+} from "@/lib/shareLinks";
+import { supabaseServiceRole } from "@/lib/supabaseAdmin";
+import { buildAppUrl } from "@/lib/url";
+
+async function getSupabase() {
+  const cookieStore = await cookies();
+  return createRouteHandlerClient({
+    cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+  });
+}
+
+/** Lists an account's share links that have not been revoked, newest first. */
+export async function GET(request: Request) {
+  try {
+    const accountId = new URL(request.url).searchParams.get("accountId")?.trim() ?? "";
+    const supabase = await getSupabase();
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.warn("[share-links] unauthorized request", { userError });
+      return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
+    }
+
+    if (!accountId) {
+      return NextResponse.json({ message: "Missing account." }, { status: 400 });
+    }
+
+    if (!(await canManageShareLinks(supabase, user, accountId))) {
+      console.warn("[share-links] forbidden request", { userId: user.id, accountId });
+      return NextResponse.json({ message: "Forbidden." }, { status: 403 });
+    }
+
+    const db = supabaseServiceRole() ?? supabase;
+    const { data, error } = await db
+      .from("portal_share_links")
+      .select(SHARE_LINK_COLUMNS)
+      .eq("account_id", accountId)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[share-links] failed to load links", { error, accountId });
+      return NextResponse.json({ message: "Unable to load share links." }, { status: 500 });
+    }
+
+    return NextResponse.json({ links: data ?? [] });
+  } catch (error) {
+    console.error("[share-links] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to load share links." }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a share link for an account, optionally limited to some of its
+ * properties. The URL is only returned here; the token is stored hashed.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await getSupabase();
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.warn("[share-links] unauthorized request", { userError });
+      return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.warn("[share-links] invalid request payload", { error });
+      return NextResponse.json({ message: "Invalid request payload." }, { status: 400 });
+    }
+
+    const parsed = createShareLinkSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { message: parsed.error.issues[0]?.message ?? "Invalid share link." },
+        { status: 400 },
+      );
+    }
+
+    const { accountId, propertyIds, expiresInDays, label } = parsed.data;
+
+    if (!(await canManageShareLinks(supabase, user, accountId))) {
+      console.warn("[share-links] forbidden request", { userId: user.id, accountId });
+      return NextResponse.json({ message: "Only account owners can share this account." }, { status: 403 });
+    }
+
+    const db = supabaseServiceRole() ?? supabase;
+
+    if (propertyIds.length) {
+      const { data: rows, error: rowsError } = await db
+        .from("client_list")
+        .select("property_id, account_id")
+        .in("property_id", propertyIds);
+
+      if (rowsError) {
+        console.error("[share-links] failed to verify properties", { rowsError, accountId });
+        return NextResponse.json({ message: "Unable to create the share link." }, { status: 500 });
+      }
+
+      const accountPropertyIds = new Set(
+        ((rows ?? []) as { property_id: string; account_id: string | null }[])
+          .filter((row) => (row.account_id?.trim() || row.property_id) === accountId)
+          .map((row) => row.property_id),
+      );
+      if (propertyIds.some((propertyId) => !accountPropertyIds.has(propertyId))) {
+        return NextResponse.json({ message: "Some properties don't belong to this account." }, { status: 400 });
+      }
+    }
+
+    const token = createShareToken();
+    const { data: link, error: insertError } = await db
+      .from("portal_share_links")
+      .insert({
+        token_hash: await hashShareToken(token),
+        account_id: accountId,
+        property_ids: propertyIds.length ? propertyIds : null,
+        label,
+        expires_at: shareLinkExpiresAt(expiresInDays),
+        created_by: user.id,
+      })
+      .select(SHARE_LINK_COLUMNS)
+      .single();
+
+    if (insertError) {
+      console.error("[share-links] failed to create link", { insertError, accountId });
+      return NextResponse.json({ message: "Unable to create the share link." }, { status: 500 });
+    }
+
+    console.info("[share-links] link created", { accountId, properties: propertyIds.length, expiresInDays });
+    return NextResponse.json(
+      { status: "success", link, url: buildAppUrl(`/c/${encodeURIComponent(token)}`) },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[share-links] unexpected error", { error });
+    return NextResponse.json({ message: "Unable to create the share link." }, { status: 500 });
+  }
+}
@@ -1,6 +1,13 @@
 // app/c/[token]/page.tsx
+import { redirect } from 'next/navigation'
 import BackButton from '@/components/UI/BackButton'
-import { buildOrFilters, resolvePortalScope, type PortalClientRow } from '@/lib/clientPortalAccess'
+import {
+  buildOrFilters,
+  isPortalScopeExpired,
+  resolvePortalScope,
+  type PortalClientRow,
+} from '@/lib/clientPortalAccess'
+import { supabaseServiceRole } from '@/lib/supabaseAdmin'
 import { supabaseServer } from '@/lib/supabaseServer'
 import type { JobRecord, Property } from '@/lib/database.types'
 
@@ -11,11 +18,14 @@ const toProperty = (row: PortalClientRow): Property => ({
 })
 
 export default async function ClientPortal({
-  params: { token },
+  params,
 }: {
-  params: { token: string }
+  params: Promise<{ token: string }>
 }) {
-  const sb = await supabaseServer()
+  const { token } = await params
+  // Visitors usually have no session, so the share link itself is the
+  // credential and every query below is limited to its scope.
+  const sb = supabaseServiceRole() ?? (await supabaseServer())
 
   let accountToken = token
   try {
@@ -47,10 +57,24 @@ export default async function ClientPortal({
     )
   }
 
-  const accountFilters = buildOrFilters('account_id', [scope.accountId])
+  if (isPortalScopeExpired(scope)) {
+    redirect('/c/error?reason=expired')
+  }
+
+  const accountFilters = scope.restricted ? [] : buildOrFilters('account_id', [scope.accountId])
   const propertyFilters = buildOrFilters('property_id', scope.propertyIds)
   const jobsFilters = [...accountFilters, ...propertyFilters]
 
+  let logsQuery = sb
+    .from('logs')
+    .select(
+      'id, job_id, account_id, client_name, address, task_type, bins, notes, photo_path, done_on, gps_lat, gps_lng, created_at',
+    )
+    .eq('account_id', scope.accountId)
+  if (scope.restricted) {
+    logsQuery = logsQuery.in('property_id', scope.propertyIds)
+  }
+
   const [jobsResult, logsResult] = await Promise.all([
     jobsFilters.length
       ? sb
@@ -60,13 +84,7 @@ export default async function ClientPortal({
           )
           .or(jobsFilters.join(','))
       : { data: [] as JobRecord[], error: null },
-    sb
-      .from('logs')
-      .select(
-        'id, job_id, account_id, client_name, address, task_type, bins, notes, photo_path, done_on, gps_lat, gps_lng, created_at',
-      )
-      .eq('account_id', scope.accountId)
-      .order('done_on', { ascending: false }),
+    logsQuery.order('done_on', { ascending: false }),
   ])
 
   if (jobsResult.error || logsResult.error) {
@@ -87,9 +105,14 @@ export default async function ClientPortal({
   return (
     <div className="container">
       <BackButton />
-      <h2 className="text-xl font-semibold mb-4">
+      <h2 className="text-xl font-semibold mb-1">
         Client Portal — {scope.accountName}
       </h2>
+      <p className="text-xs text-gray-600 mb-4">
+        {scope.expiresAt
+          ? `This link expires on ${new Date(scope.expiresAt).toLocaleDateString('en-AU', { dateStyle: 'medium' })}.`
+          : 'Shared view of your BinBird service.'}
+      </p>
 
       {properties.length ? (
         <ul className="space-y-2">
@@ -1,7 +1,30 @@
 // app/c/error/page.tsx
+import Link from 'next/link'
 import BackButton from '@/components/UI/BackButton'
 
-export default function ClientPortalError() {
+export default async function ClientPortalError({
+  searchParams,
+}: {
+  searchParams: Promise<{ reason?: string }>
+}) {
+  const { reason } = await searchParams
+
+  if (reason === 'expired') {
+    return (
+      <div className="container">
+        <BackButton />
+        <h2 className="text-xl font-semibold mb-2">This link has expired</h2>
+        <p className="opacity-80 mb-4">
+          Shared client portal links only work for a limited time. Ask the
+          account owner or your BinBird contact to send you a new link.
+        </p>
+        <Link href="/" className="btn">
+          Go Home
+        </Link>
+      </div>
+    )
+  }
+
   return (
     <div className="container">
       <BackButton />
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+
+import { useSupabase } from "@/components/providers/SupabaseProvider";
+
+type InviteStatus = "checking" | "signed_out" | "accepting" | "error";
+
+export default function AcceptInviteClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const supabase = useSupabase();
+  const token = searchParams?.get("token") ?? "";
+
+  const [status, setStatus] = useState<InviteStatus>("checking");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    const accept = async () => {
+      if (!token) {
+        setError("This invite link is incomplete. Ask the account owner to send it again.");
+        setStatus("error");
+        return;
+      }
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!active) return;
+      if (!session) {
+        setStatus("signed_out");
+        return;
+      }
+
+      setStatus("accepting");
+      try {
+        const response = await fetch("/api/account-invites/accept", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const result = (await response.json().catch(() => null)) as
+          | { message?: string; accountId?: string }
+          | null;
+        if (!active) return;
+        if (!response.ok) {
+          setError(result?.message ?? "Unable to accept the invite.");
+          setStatus("error");
+          return;
+        }
+        if (result?.accountId) {
+          localStorage.setItem("binbird-selected-account-id", result.accountId);
+        }
+        router.replace("/client/dashboard");
+      } catch (acceptError) {
+        console.error("Failed to accept account invite", acceptError);
+        if (!active) return;
+        setError("Unable to accept the invite. Please try again.");
+        setStatus("error");
+      }
+    };
+
+    void accept();
+
+    return () => {
+      active = false;
+    };
+  }, [router, supabase, token]);
+
+  return (
+    <div className="space-y-6 text-center">
+      <h2 className="text-2xl font-semibold text-white">Join an account</h2>
+
+      {(status === "checking" || status === "accepting") && (
+        <p className="text-sm text-white/60">
+          {status === "checking" ? "Checking your invite…" : "Adding you to the account…"}
+        </p>
+      )}
+
+      {status === "signed_out" && (
+        <div className="space-y-4">
+          <p className="text-sm text-white/60">
+            Sign in with the email address the invite was sent to, then open
+            this link again to join the account.
+          </p>
+          <Link
+            href="/auth/login"
+            className="flex w-full items-center justify-center rounded-xl bg-binbird-red px-4 py-3 text-base font-semibold text-white shadow-lg shadow-red-900/40 transition hover:bg-red-500"
+          >
+            Sign in
+          </Link>
+        </div>
+      )}
+
+      {status === "error" && error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/10 p-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
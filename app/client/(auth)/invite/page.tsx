@@ -0,0 +1,15 @@
+import { Suspense } from "react";
+
+import AcceptInviteClient from "./AcceptInviteClient";
+
+export const metadata = {
+  title: "Accept your invite",
+};
+
+export default function AcceptInvitePage() {
+  return (
+    <Suspense fallback={<div className="text-white">Loading…</div>}>
+      <AcceptInviteClient />
+    </Suspense>
+  );
+}
@@ -1,11 +1,15 @@
 'use client'
 
 import { SettingsForm } from '@/components/client/SettingsForm'
+import { ShareLinks } from '@/components/client/ShareLinks'
+import { TeamMembers } from '@/components/client/TeamMembers'
 
 export default function ClientSettingsPage() {
   return (
-    <section>
+    <section className="space-y-6">
       <SettingsForm />
+      <TeamMembers />
+      <ShareLinks />
     </section>
   )
 }
@@ -1,168 +1,155 @@
 // app/ops/generate/page.tsx
 import BackButton from '@/components/UI/BackButton'
 import { supabaseServer } from '@/lib/supabaseServer'
+import { getLocalISODate } from '@/lib/date'
 import { redirect } from 'next/navigation'
 import {
-  buildBinsSummary,
-  deriveAccountId,
-  deriveClientName,
-  getJobGenerationDayInfo,
-  matchesDay,
-  parseLatLng,
-  type JobSourceClientRow,
+  MAX_JOB_GENERATION_DAYS,
+  getDefaultJobGenerationDate,
+  resolveJobGenerationTargets,
+  type JobGenerationTarget,
 } from '@/lib/jobGeneration'
-
-type NewJobRow = {
-  account_id: string | null
-  property_id: string | null
-  address: string
-  lat: number | null
-  lng: number | null
-  job_type: 'put_out' | 'bring_in'
-  bins: string | null
-  notes: string | null
-  client_name: string | null
-  photo_path: string | null
-  assigned_to: string | null
-  day_of_week: string
-  last_completed_on: null
-}
-
-async function generateJobs() {
-  'use server'
-  const sb = await supabaseServer()
-  const { dayIndex, dayName } = getJobGenerationDayInfo()
-
-  const { data: clients, error: clientError } = await sb
-    .from('client_list')
-    .select(
-      `property_id, account_id, client_name, company, address, collection_day, put_bins_out, notes, assigned_to, lat_lng, photo_path, red_freq, red_flip, yellow_freq, yellow_flip, green_freq, green_flip`,
-    )
-
-  if (clientError) {
-    console.error('Error fetching clients:', clientError.message)
-    const params = new URLSearchParams({
-      status: 'error',
-      message: 'Failed to load client schedules.',
-    })
-    redirect(`/ops/generate?${params.toString()}`)
+import { describeJobDiffResult, summarizeJobDiff } from '@/lib/jobDiff'
+import { loadJobGenerationDiff, runJobGeneration } from '@/lib/jobGenerationRuns'
+import JobDiffList from '@/components/admin/JobDiffList'
+import { requireRole } from '@/lib/auth/requireRole'
+
+function redirectWithStatus(
+  status: 'success' | 'error',
+  message: string,
+  range?: { from: string; to: string },
+): never {
+  const params = new URLSearchParams({ status, message })
+  if (range) {
+    params.set('from', range.from)
+    params.set('to', range.to)
   }
+  redirect(`/ops/generate?${params.toString()}`)
+}
 
-  const rows = (clients ?? []) as JobSourceClientRow[]
-
-  const jobs: NewJobRow[] = []
-  for (const client of rows) {
-    const accountId = deriveAccountId(client)
-    const clientName = deriveClientName(client)
-    const { lat, lng } = parseLatLng(client.lat_lng)
-    const bins = buildBinsSummary(client)
-    const address = client.address?.trim() ?? ''
-
-    if (matchesDay(client.put_bins_out, dayIndex)) {
-      jobs.push({
-        account_id: accountId,
-        property_id: client.property_id,
-        address,
-        lat,
-        lng,
-        job_type: 'put_out',
-        bins,
-        notes: client.notes,
-        client_name: clientName,
-        photo_path: client.photo_path,
-        assigned_to: client.assigned_to,
-        day_of_week: dayName,
-        last_completed_on: null,
-      })
-    }
+const describeTargets = (targets: JobGenerationTarget[]) =>
+  targets.length === 1
+    ? `${targets[0].dayName} ${targets[0].date}`
+    : `${targets[0].date} to ${targets[targets.length - 1].date}`
 
-    if (matchesDay(client.collection_day, dayIndex)) {
-      jobs.push({
-        account_id: accountId,
-        property_id: client.property_id,
-        address,
-        lat,
-        lng,
-        job_type: 'bring_in',
-        bins,
-        notes: client.notes,
-        client_name: clientName,
-        photo_path: client.photo_path,
-        assigned_to: client.assigned_to,
-        day_of_week: dayName,
-        last_completed_on: null,
-      })
-    }
-  }
-
-  if (!jobs.length) {
-    const params = new URLSearchParams({
-      status: 'success',
-      message: `No jobs scheduled for ${dayName}.`,
-    })
-    redirect(`/ops/generate?${params.toString()}`)
+async function generateJobs(formData: FormData) {
+  'use server'
+  const { supabase: sb, user } = await requireRole('admin', 'ops/generate')
+  const from = String(formData.get('from') ?? '')
+  const to = String(formData.get('to') ?? '')
+  const accepted = formData.getAll('accept').map(String)
+  const { targets, error: rangeError } = resolveJobGenerationTargets(from, to)
+
+  if (!targets) {
+    redirectWithStatus('error', rangeError)
   }
 
-  const { error: deleteError } = await sb
-    .from('jobs')
-    .delete()
-    .eq('day_of_week', dayName)
-    .is('last_completed_on', null)
-
-  if (deleteError) {
-    console.error('Error clearing existing jobs:', deleteError.message)
-    const params = new URLSearchParams({
-      status: 'error',
-      message: 'Failed to clear existing jobs for today.',
-    })
-    redirect(`/ops/generate?${params.toString()}`)
+  const label = describeTargets(targets)
+  if (!accepted.length) {
+    redirectWithStatus('success', `No changes applied for ${label}.`, { from, to })
   }
 
-  const { error: insertError } = await sb.from('jobs').insert(jobs)
+  const result = await runJobGeneration(sb, {
+    targets,
+    trigger: 'manual',
+    requestedBy: user.id,
+    acceptedKeys: accepted,
+  })
 
-  if (insertError) {
-    console.error('Error inserting jobs:', insertError.message)
-    const params = new URLSearchParams({
-      status: 'error',
-      message: 'Failed to generate jobs for today.',
-    })
-    redirect(`/ops/generate?${params.toString()}`)
+  if (result.status !== 'succeeded') {
+    console.error('Error generating jobs:', result.error)
+    redirectWithStatus('error', `Failed to update jobs for ${label}: ${result.error}`, { from, to })
   }
 
-  const params = new URLSearchParams({
-    status: 'success',
-    message: `Generated ${jobs.length} job${jobs.length === 1 ? '' : 's'} for ${dayName}.`,
-  })
-  redirect(`/ops/generate?${params.toString()}`)
+  redirectWithStatus('success', `Jobs for ${label}: ${describeJobDiffResult(result)}.`)
 }
 
 type GeneratePageProps = {
-  searchParams?: {
+  searchParams?: Promise<{
     status?: string
     message?: string
-  }
+    from?: string
+    to?: string
+  }>
 }
 
-export default function Generate({ searchParams }: GeneratePageProps) {
-  const status = searchParams?.status
-  const message = searchParams?.message
+export default async function Generate({ searchParams }: GeneratePageProps) {
+  const params = (await searchParams) ?? {}
+  const status = params.status
+  const message = params.message
   const isSuccess = status === 'success'
   const alertClass = isSuccess ? 'text-green-600' : 'text-red-600'
 
+  const defaultDate = getLocalISODate(getDefaultJobGenerationDate())
+  const from = params.from ?? ''
+  const to = params.to ?? ''
+  const hasRange = from.length > 0
+  const resolved = hasRange ? resolveJobGenerationTargets(from, to) : null
+  const diff = resolved?.targets ? await loadJobGenerationDiff(await supabaseServer(), resolved.targets) : null
+  const summary = diff?.days ? summarizeJobDiff(diff.days.flatMap((day) => day.entries)) : null
+  const pendingChanges = summary ? summary.added + summary.changed + summary.removed : 0
+
   return (
     <div className="container space-y-4">
       <BackButton />
-      <h3 className="text-xl font-semibold">Generate Today&apos;s Jobs</h3>
+      <h3 className="text-xl font-semibold">Generate Jobs</h3>
+      <p className="text-sm text-gray-600">
+        Pick a date or a range of up to {MAX_JOB_GENERATION_DAYS} days and review how the schedule differs from the
+        uncompleted jobs already on those weekdays. Only the changes you tick are applied; staff assignments and notes
+        edited in the job manager are kept.
+      </p>
       {status && message ? (
         <p className={`text-sm ${alertClass}`} role="status">
           {message}
         </p>
       ) : null}
-      <form action={generateJobs}>
+      <form method="get" className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col text-sm">
+          <span>From</span>
+          <input type="date" name="from" defaultValue={from || defaultDate} required className="rounded border px-2 py-1" />
+        </label>
+        <label className="flex flex-col text-sm">
+          <span>To (optional)</span>
+          <input type="date" name="to" defaultValue={to} className="rounded border px-2 py-1" />
+        </label>
         <button className="btn" type="submit">
-          Generate
+          Preview
         </button>
       </form>
+
+      {resolved?.error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {resolved.error}
+        </p>
+      ) : null}
+
+      {diff?.error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {diff.error}
+        </p>
+      ) : null}
+
+      {diff?.days && summary ? (
+        <form action={generateJobs} className="space-y-4">
+          <input type="hidden" name="from" value={from} />
+          <input type="hidden" name="to" value={to} />
+          <p className="text-sm text-gray-700">
+            {summary.added} added · {summary.changed} changed · {summary.removed} removed · {summary.unchanged}{' '}
+            unchanged
+          </p>
+          {diff.days.map(({ target, entries }) => (
+            <section key={target.date} className="space-y-2">
+              <h4 className="font-semibold">
+                {target.dayName} {target.date}
+              </h4>
+              <JobDiffList entries={entries} />
+            </section>
+          ))}
+          <button className="btn" type="submit" disabled={pendingChanges === 0}>
+            Apply selected changes
+          </button>
+        </form>
+      ) : null}
     </div>
   )
 }
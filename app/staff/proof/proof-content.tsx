@@ -12,6 +12,13 @@ import {
 } from "@/lib/run-session";
 import { useSupabase } from "@/components/providers/SupabaseProvider";
 import { clearPlannedRun, readPlannedRun, writePlannedRun } from "@/lib/planned-run";
+import { enqueueProof, type QueuedProofPhoto } from "@/lib/proof-queue";
+import { getCustomWeek, processProofQueue } from "@/lib/proof-upload";
+import { useProofQueue } from "@/hooks/useProofQueue";
+import { SKIP_REASONS, SKIP_REASON_LABELS, type SkipReason } from "@/lib/jobSkips";
+import { verifyProof } from "@/lib/proofVerification";
+import { processProofImage } from "@/lib/imagePipeline";
+import { MAX_PROOF_CAPTION_LENGTH, MAX_PROOF_PHOTOS, normalizeProofCaption } from "@/lib/proofPhotos";
 
 const PUT_OUT_PLACEHOLDER_URL =
   "/images/put-out-placeholder.jpg";
@@ -21,6 +28,15 @@ const BRING_IN_PLACEHOLDER_URL =
 const SESSION_EXPIRED_MESSAGE = "Your session has expired. Please sign in again.";
 const RUN_ROLLOVER_MESSAGE = "Your previous run has ended. Please start a new run.";
 
+type CapturedPhoto = {
+  id: string;
+  file: File;
+  preview: string;
+  caption: string;
+};
+
+type StopPhoto = Pick<CapturedPhoto, "file" | "caption">;
+
 const referenceImagePreloadCache = new Map<string, Promise<void>>();
 
 function preloadImage(url: string) {
@@ -98,138 +114,17 @@ function getAlternatingPhotoPath(basePath: string | null, currentDate: Date): st
   return updatedSegments.join("/");
 }
 
-// kebab-case helper
-function toKebab(value: string | null | undefined, fallback: string): string {
-  if (!value || typeof value !== "string") return fallback;
-  return value
-    .toLowerCase()
-    .replace(/,\s*/g, "-")
-    .replace(/[^a-z0-9-]+/g, "-")
-    .replace(/^-+|-+$/g, "");
-}
-
-// custom week helper (Monday-Saturday cycle, Sunday joins next week)
-function getCustomWeek(date: Date) {
-  const d = new Date(date);
-
-  // If Sunday, push to Monday (next cycle)
-  if (d.getDay() === 0) {
-    d.setDate(d.getDate() + 1);
-  }
-
-  // ISO week calc
-  const target = new Date(d.valueOf());
-  const dayNr = (target.getDay() + 6) % 7; // Monday=0 … Sunday=6
-  target.setDate(target.getDate() - dayNr + 3); // Thursday of current week
-  const firstThursday = new Date(target.getFullYear(), 0, 4);
-  const diff = target.valueOf() - firstThursday.valueOf();
-  const week = 1 + Math.round(diff / (7 * 24 * 3600 * 1000));
-
-  return {
-    year: target.getFullYear(),
-    week: `Week-${week}`,
-  };
-}
-
-function generateSequentialFileName(
-  baseName: string,
-  extension: string,
-  existingNames: string[],
-): string {
-  const existing = new Set(existingNames);
-  const defaultLabel = `${baseName}${extension}`;
-  if (!existing.has(defaultLabel)) return defaultLabel;
-
-  let counter = 2;
-  while (existing.has(`${baseName} (${counter})${extension}`)) {
-    counter += 1;
-  }
-  return `${baseName} (${counter})${extension}`;
-}
-
-function isDuplicateStorageError(err: unknown): boolean {
-  if (!err || typeof err !== "object") return false;
-
-  const possible = err as { statusCode?: number; message?: string; error?: string };
-  if (typeof possible.statusCode === "number" && possible.statusCode === 409) {
-    return true;
-  }
-
-  const message =
-    typeof possible.message === "string"
-      ? possible.message
-      : typeof possible.error === "string"
-        ? possible.error
-        : "";
-
-  if (!message) return false;
-  const lowered = message.toLowerCase();
-  return lowered.includes("already exists") || lowered.includes("duplicate");
-}
-
-async function prepareFileAsJpeg(originalFile: File, desiredName: string): Promise<File> {
-  const isAlreadyJpeg =
-    originalFile.type === "image/jpeg" ||
-    originalFile.type === "image/jpg" ||
-    /\.jpe?g$/i.test(originalFile.name);
-
-  if (isAlreadyJpeg) {
-    if (originalFile.name === desiredName && originalFile.type === "image/jpeg") {
-      return originalFile;
-    }
-    return new File([originalFile], desiredName, { type: "image/jpeg" });
-  }
-
-  const dataUrl = await new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onerror = () => reject(reader.error ?? new Error("Unable to read file."));
-    reader.onload = () => resolve(reader.result as string);
-    reader.readAsDataURL(originalFile);
-  });
-
-  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-    const image = new Image();
-    image.onload = () => resolve(image);
-    image.onerror = () => reject(new Error("Unable to process image."));
-    image.src = dataUrl;
-  });
-
-  if (typeof img.decode === "function") {
-    try {
-      await img.decode();
-    } catch {}
-  }
-
-  const canvas = document.createElement("canvas");
-  canvas.width = img.naturalWidth || img.width;
-  canvas.height = img.naturalHeight || img.height;
-
-  const ctx = canvas.getContext("2d");
-  if (!ctx) throw new Error("Unable to convert image to JPEG.");
-  ctx.drawImage(img, 0, 0);
-
-  const blob = await new Promise<Blob>((resolve, reject) => {
-    canvas.toBlob(
-      (b) => (b ? resolve(b) : reject(new Error("Failed to convert image to JPEG."))),
-      "image/jpeg",
-      0.92
-    );
-  });
-
-  return new File([blob], desiredName, { type: "image/jpeg" });
-}
-
 export default function ProofPageContent() {
   const supabase = useSupabase();
   const params = useSearchParams();
   const router = useRouter();
+  useProofQueue();
 
   const [authChecked, setAuthChecked] = useState(false);
   const [jobs, setJobs] = useState<Job[]>([]);
   const [idx, setIdx] = useState<number>(0);
 
-  const [file, setFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<CapturedPhoto[]>([]);
   const [note, setNote] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [referenceUrls, setReferenceUrls] = useState<{ putOut: string | null; bringIn: string | null }>({
@@ -249,6 +144,40 @@ export default function ProofPageContent() {
   });
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const photosRef = useRef<CapturedPhoto[]>([]);
+  const [skipOpen, setSkipOpen] = useState(() => params.get("skip") === "1");
+  const [skipReason, setSkipReason] = useState<SkipReason | null>(null);
+  const [skipFile, setSkipFile] = useState<File | null>(null);
+
+  const clearPhotos = useCallback(() => {
+    setPhotos((current) => {
+      current.forEach((photo) => URL.revokeObjectURL(photo.preview));
+      return [];
+    });
+  }, []);
+
+  const addPhoto = (captured: File) => {
+    setPhotos((current) =>
+      current.length >= MAX_PROOF_PHOTOS
+        ? current
+        : [
+            ...current,
+            { id: crypto.randomUUID(), file: captured, preview: URL.createObjectURL(captured), caption: "" },
+          ]
+    );
+  };
+
+  const removePhoto = (id: string) => {
+    setPhotos((current) => {
+      const removed = current.find((photo) => photo.id === id);
+      if (removed) URL.revokeObjectURL(removed.preview);
+      return current.filter((photo) => photo.id !== id);
+    });
+  };
+
+  const updateCaption = (id: string, caption: string) => {
+    setPhotos((current) => current.map((photo) => (photo.id === id ? { ...photo, caption } : photo)));
+  };
 
   const filterJobsForVisibility = useCallback((jobsList: Job[]) => {
     const visibility = getJobVisibilityRestrictions();
@@ -331,8 +260,7 @@ export default function ProofPageContent() {
       setIdx(0);
       setReferenceUrls({ putOut: null, bringIn: null });
       setReferenceLookupComplete(false);
-      setFile(null);
-      setPreview(null);
+      clearPhotos();
       setNote("");
       setSubmitting(false);
       setChecklist({
@@ -353,7 +281,7 @@ export default function ProofPageContent() {
     const interval = window.setInterval(enforceFreshOperationalDay, 60_000);
 
     return () => window.clearInterval(interval);
-  }, [router]);
+  }, [router, clearPhotos]);
 
   // parse jobs + idx from params
   useEffect(() => {
@@ -464,6 +392,7 @@ export default function ProofPageContent() {
       endedAt: null,
       totalJobs,
       completedJobs: Math.max(activeSession?.completedJobs ?? 0, completedFromIdx),
+      runId: activeSession?.runId ?? null,
     });
   }, [jobs.length, idx, getActiveRunSession]);
 
@@ -498,11 +427,15 @@ export default function ProofPageContent() {
     };
   }, []);
 
+  useEffect(() => {
+    photosRef.current = photos;
+  }, [photos]);
+
   useEffect(() => {
     return () => {
-      if (preview) URL.revokeObjectURL(preview);
+      photosRef.current.forEach((photo) => URL.revokeObjectURL(photo.preview));
     };
-  }, [preview]);
+  }, []);
 
   useEffect(() => {
     if (!jobId) return;
@@ -512,15 +445,13 @@ export default function ProofPageContent() {
       placementUnderstood: false,
       neatnessConfirmed: false,
     });
-    setFile(null);
-    setPreview((prev) => {
-      if (prev) URL.revokeObjectURL(prev);
-      return null;
-    });
+    clearPhotos();
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
-  }, [jobId]);
+    setSkipReason(null);
+    setSkipFile(null);
+  }, [jobId, clearPhotos]);
 
   if (!authChecked) {
     return <div className="p-6 text-white">Checking session…</div>;
@@ -596,7 +527,7 @@ export default function ProofPageContent() {
 
   // handle submit
   async function handleMarkDone() {
-    if (!file) {
+    if (!photos.length) {
       alert("Please take a photo before marking the job done.");
       return;
     }
@@ -604,11 +535,26 @@ export default function ProofPageContent() {
       alert("Please complete the checklist before submitting proof.");
       return;
     }
-    const accountId = job.account_id ?? null;
+    await submitStop(photos, null);
+  }
+
+  async function handleSkip() {
+    if (!skipReason) {
+      alert("Please choose why the job can't be completed.");
+      return;
+    }
+    await submitStop(skipFile ? [{ file: skipFile, caption: "" }] : [], skipReason);
+  }
+
+  // Records the stop (done or skipped) and moves the run on to the next one.
+  async function submitStop(captures: StopPhoto[], reason: SkipReason | null) {
+    if (!job) return;
     setSubmitting(true);
     try {
-      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      // The session is read locally so a proof can be captured without signal.
+      const { data: { session }, error: authError } = await supabase.auth.getSession();
       if (authError) throw authError;
+      const user = session?.user;
       if (!user) {
         console.warn("[ProofPageContent] no user returned, redirecting");
         setSubmitting(false);
@@ -617,87 +563,41 @@ export default function ProofPageContent() {
       }
       const now = new Date();
       const dateStr = getOperationalISODate(now);
-      const { year, week } = getCustomWeek(now);
-      const safeClient = toKebab(job.client_name, "unknown-client");
-      const safeAddress = toKebab(job.address, "unknown-address");
-      const folderPath = `${safeClient}/${safeAddress}/${year}/${week}`;
-      const baseFileName = job.job_type === "bring_in" ? "Bring In" : "Put Out";
-      const fileExtension = ".jpg";
-      const bucket = supabase.storage.from("proofs");
-      const { data: existingFiles, error: listErr } = await bucket.list(folderPath, { limit: 100 });
-      if (listErr) {
-        console.warn("Unable to check existing proof photos", listErr);
-      }
-      const existingNames = existingFiles?.map((existingFile) => existingFile.name) ?? [];
-      const attemptedNames = new Set(existingNames);
-      let fileLabel = generateSequentialFileName(baseFileName, fileExtension, existingNames);
-      let uploadError: unknown = null;
-      let path: string | null = null;
-
-      for (let attempt = 0; attempt < 5; attempt += 1) {
-        attemptedNames.add(fileLabel);
-        const uploadFile = await prepareFileAsJpeg(file, fileLabel);
-        const candidatePath = `${folderPath}/${fileLabel}`;
-        const { error: uploadErr } = await bucket.upload(candidatePath, uploadFile, { upsert: false });
-
-        if (!uploadErr) {
-          path = candidatePath;
-          break;
-        }
-
-        uploadError = uploadErr;
-        if (!isDuplicateStorageError(uploadErr)) {
-          throw uploadErr;
-        }
-
-        fileLabel = generateSequentialFileName(
-          baseFileName,
-          fileExtension,
-          Array.from(attemptedNames),
-        );
-      }
-
-      if (!path) {
-        const fallbackLabel = `${baseFileName} ${Date.now()}${fileExtension}`;
-        const fallbackFile = await prepareFileAsJpeg(file, fallbackLabel);
-        const fallbackPath = `${folderPath}/${fallbackLabel}`;
-        const { error: fallbackError } = await bucket.upload(fallbackPath, fallbackFile, { upsert: false });
-        if (fallbackError) {
-          throw uploadError ?? fallbackError;
-        }
-        path = fallbackPath;
+      const completionIso = now.toISOString();
+      // One photo at a time: decoding several full-size captures at once can
+      // exhaust memory on older phones.
+      const prepared: QueuedProofPhoto[] = [];
+      for (const capture of captures) {
+        const processed = await processProofImage(capture.file, { address: job.address, fallbackTime: now });
+        prepared.push({
+          blob: processed.image,
+          thumbnail: processed.thumbnail,
+          caption: normalizeProofCaption(capture.caption),
+          capturedAt: processed.capturedAt,
+          path: null,
+          thumbnailPath: null,
+        });
       }
+      // The oldest photo decides the capture-time check.
+      const capturedAt =
+        prepared
+          .map((photo) => photo.capturedAt)
+          .filter((value): value is string => Boolean(value))
+          .sort()[0] ?? null;
+      const gps = {
+        lat: gpsData.lat ?? null,
+        lng: gpsData.lng ?? null,
+        acc: gpsData.acc ?? null,
+        time: gpsData.time ?? null,
+      };
+      const verification = verifyProof({ job, gps, capturedAt, submittedAt: completionIso });
       const staffNote = note.trim();
-      const noteValue = staffNote.length ? staffNote : null;
-      const { error: logErr } = await supabase.from("logs").insert({
-        job_id: job.id,
-        account_id: accountId,
-        property_id: job.property_id ?? null,
-        client_name: job.client_name ?? null,
-        address: job.address,
-        task_type: job.job_type,
-        bins: job.bins ?? null,
-        notes: noteValue,
-        photo_path: path,
-        done_on: dateStr,
-        gps_lat: gpsData.lat ?? null,
-        gps_lng: gpsData.lng ?? null,
-        gps_acc: gpsData.acc ?? null,
-        gps_time: gpsData.time ?? null,
-        user_id: user.id,
-      });
-      if (logErr) throw logErr;
-      const completionIso = new Date().toISOString();
-      await supabase
-        .from("jobs")
-        .update({ last_completed_on: dateStr, status: "completed", completed_at: completionIso })
-        .eq("id", job.id);
       const updatedJobs = jobs.map((plannedJob, jobIndex) =>
         jobIndex === idx
           ? {
               ...plannedJob,
               last_completed_on: dateStr,
-              status: "completed",
+              status: reason ? "skipped" : "completed",
               completed_at: completionIso,
             }
           : plannedJob
@@ -720,19 +620,43 @@ export default function ProofPageContent() {
       };
       const sessionToWrite: RunSessionRecord =
         nextIdx >= jobs.length ? { ...updatedSession, endedAt: nowIso } : updatedSession;
+      const existingPlan = nextIdx < jobs.length ? readPlannedRun() : null;
+      const updatedPlan = existingPlan
+        ? {
+            ...existingPlan,
+            jobs: updatedJobs.map((plannedJob) => ({ ...plannedJob })),
+            nextIdx,
+            hasStarted: true,
+          }
+        : null;
+      await enqueueProof({
+        userId: user.id,
+        job,
+        photos: prepared,
+        skipReason: reason,
+        gps,
+        verification,
+        checklist: reason ? {} : { ...checklist },
+        note: staffNote.length ? staffNote : null,
+        doneOn: dateStr,
+        completedAt: completionIso,
+        run: sessionToWrite.runId
+          ? {
+              runId: sessionToWrite.runId,
+              completedJobs: sessionToWrite.completedJobs,
+              endedAt: sessionToWrite.endedAt,
+              plan: updatedPlan,
+            }
+          : null,
+      });
       writeRunSession(sessionToWrite);
+      void processProofQueue(supabase);
       if (nextIdx >= jobs.length) {
         clearPlannedRun();
         router.push("/staff/run/completed");
       } else {
-        const existingPlan = readPlannedRun();
-        if (existingPlan) {
-          writePlannedRun({
-            ...existingPlan,
-            jobs: updatedJobs.map((plannedJob) => ({ ...plannedJob })),
-            nextIdx,
-            hasStarted: true,
-          });
+        if (updatedPlan) {
+          writePlannedRun(updatedPlan);
         }
         const paramsObj = new URLSearchParams({
           jobs: JSON.stringify(updatedJobs),
@@ -743,7 +667,7 @@ export default function ProofPageContent() {
       }
     } catch (err: any) {
       setSubmitting(false);
-      console.error("[ProofPageContent] handleMarkDone error", err);
+      console.error("[ProofPageContent] submitStop error", err);
       alert(err?.message || "Unable to save proof. Please try again.");
     }
   }
@@ -783,7 +707,8 @@ export default function ProofPageContent() {
     ([key]) => isPutOutJob || key !== "placementUnderstood"
   );
   const allChecklistChecked = checklistValues.every(([, value]) => Boolean(value));
-  const hasPhoto = Boolean(file);
+  const hasPhoto = photos.length > 0;
+  const canAddPhoto = photos.length < MAX_PROOF_PHOTOS;
   const readyToSubmit = hasPhoto && allChecklistChecked;
   const binCardsForInstructions = renderBinCards("instructions");
   const instructionsFallbackCard = (
@@ -996,32 +921,48 @@ export default function ProofPageContent() {
             ref={fileInputRef}
             onChange={(e) => {
               const f = e.target.files?.[0] ?? null;
-              setFile(f);
-              setPreview((prev) => {
-                if (prev) URL.revokeObjectURL(prev);
-                return f ? URL.createObjectURL(f) : null;
-              });
+              if (f) addPhoto(f);
+              e.target.value = "";
             }}
-            disabled={!allChecklistChecked}
+            disabled={!allChecklistChecked || !canAddPhoto}
           />
-          {preview && (
-            <div className="flex flex-col items-center gap-2">
-              <img
-                src={preview}
-                alt="preview"
-                className="w-full aspect-[3/4] object-cover rounded-xl border border-neutral-800/70 shadow-lg"
-                onClick={() => fileInputRef.current?.click()}
+          {photos.map((photo, photoIndex) => (
+            <div key={photo.id} className="flex flex-col gap-2">
+              <div className="relative">
+                <img
+                  src={photo.preview}
+                  alt={`Proof photo ${photoIndex + 1}`}
+                  className="w-full aspect-[3/4] object-cover rounded-xl border border-neutral-800/70 shadow-lg"
+                />
+                {!submitting && (
+                  <button
+                    type="button"
+                    onClick={() => removePhoto(photo.id)}
+                    className="absolute right-3 top-3 rounded-full bg-black/70 px-3 py-1 text-xs font-semibold text-white"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <input
+                type="text"
+                value={photo.caption}
+                onChange={(e) => updateCaption(photo.id, e.target.value)}
+                maxLength={MAX_PROOF_CAPTION_LENGTH}
+                placeholder={photoIndex === 0 ? "Caption (optional), e.g. Kerbside" : "Caption, e.g. Contamination in yellow bin"}
+                disabled={submitting}
+                className="w-full rounded-xl border border-neutral-800/70 bg-neutral-900 px-3 py-2 text-sm text-white placeholder-gray-500 focus:border-[#E21C21] focus:outline-none focus:ring-2 focus:ring-[#E21C21]/40"
               />
-              {!submitting && (
-                <button
-                  type="button"
-                  className="text-sm text-gray-300 underline"
-                  onClick={() => fileInputRef.current?.click()}
-                >
-                  Need a new photo?
-                </button>
-              )}
             </div>
+          ))}
+          {hasPhoto && canAddPhoto && !submitting && (
+            <button
+              type="button"
+              className="text-sm text-gray-300 underline"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Add another photo
+            </button>
           )}
         </div>
 
@@ -1032,13 +973,81 @@ export default function ProofPageContent() {
         )}
       </div>
 
+      {skipOpen && (
+        <div className="fixed inset-0 z-30 flex items-end justify-center bg-black/70 sm:items-center">
+          <div className="w-full max-w-md space-y-5 rounded-t-2xl border border-neutral-800/70 bg-neutral-950 p-6 pb-[calc(1.5rem+env(safe-area-inset-bottom))] sm:rounded-2xl">
+            <div className="space-y-1">
+              <h2 className="text-lg font-bold text-white">Can&apos;t complete this job?</h2>
+              <p className="text-sm text-gray-400">The client will be told why the stop was skipped.</p>
+            </div>
+            <fieldset className="grid grid-cols-2 gap-2">
+              <legend className="sr-only">Reason</legend>
+              {SKIP_REASONS.map((option) => (
+                <label
+                  key={option}
+                  className={`flex cursor-pointer items-center justify-center rounded-xl border px-3 py-3 text-center text-sm font-semibold transition ${
+                    skipReason === option
+                      ? "border-[#E21C21] bg-[#E21C21]/15 text-white"
+                      : "border-neutral-800 bg-neutral-900 text-gray-300"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="skip-reason"
+                    value={option}
+                    checked={skipReason === option}
+                    onChange={() => setSkipReason(option)}
+                    className="sr-only"
+                  />
+                  {SKIP_REASON_LABELS[option]}
+                </label>
+              ))}
+            </fieldset>
+            <label className="block space-y-2 text-sm text-gray-300">
+              <span>Photo (optional)</span>
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={(e) => setSkipFile(e.target.files?.[0] ?? null)}
+                className="block w-full text-sm text-gray-400 file:mr-3 file:rounded-lg file:border-0 file:bg-neutral-800 file:px-3 file:py-2 file:text-white"
+              />
+            </label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note (optional)"
+              className="w-full min-h-[80px] resize-y rounded-xl border border-neutral-800/70 bg-neutral-900 p-3 text-sm text-white placeholder-gray-500 focus:border-[#E21C21] focus:outline-none focus:ring-2 focus:ring-[#E21C21]/40"
+            />
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setSkipOpen(false)}
+                disabled={submitting}
+                className="flex-1 rounded-lg bg-neutral-900 px-4 py-2 font-semibold text-white transition hover:bg-neutral-800 disabled:opacity-60"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleSkip()}
+                disabled={submitting || !skipReason}
+                className="flex-1 rounded-lg bg-[#E21C21] px-4 py-2 font-semibold text-white transition hover:bg-[#f4474c] disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {submitting ? "Saving…" : "Skip stop"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* bottom button */}
       <div className="sticky bottom-0 inset-x-0 z-20 border-t border-white/10 bg-black/95 p-4 backdrop-blur">
         <div className="pb-[env(safe-area-inset-bottom)]">
           <button
             onClick={() => {
               if (submitting || !allChecklistChecked) return;
-              if (!file) {
+              if (!hasPhoto) {
                 fileInputRef.current?.click();
                 return;
               }
@@ -1056,6 +1065,14 @@ export default function ProofPageContent() {
               ? "Mark Done"
               : "Take Photo"}
           </button>
+          <button
+            type="button"
+            onClick={() => setSkipOpen(true)}
+            disabled={submitting}
+            className="mt-2 w-full rounded-lg px-4 py-2 text-sm font-semibold text-gray-300 transition hover:text-white disabled:opacity-60"
+          >
+            Can&apos;t complete
+          </button>
         </div>
       </div>
     </div>
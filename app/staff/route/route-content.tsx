@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { GoogleMap, Marker, DirectionsRenderer, useLoadScript } from "@react-google-maps/api";
 import SettingsDrawer from "@/components/UI/SettingsDrawer";
@@ -12,14 +12,20 @@ import { MapSettingsProvider, useMapSettings } from "@/components/Context/MapSet
 import { normalizeJobs, type Job } from "@/lib/jobs";
 import { useSupabase } from "@/components/providers/SupabaseProvider";
 import { clearPlannedRun, readPlannedRun, writePlannedRun } from "@/lib/planned-run";
-import { clearRunSession } from "@/lib/run-session";
+import { clearRunSession, readRunSession, writeRunSession } from "@/lib/run-session";
+import { loadPlanCompletions, reconcilePlannedRun, syncRunPlan } from "@/lib/run-sync";
 import { getOperationalISODate, getJobVisibilityRestrictions } from "@/lib/date";
+import { useProofQueue } from "@/hooks/useProofQueue";
+import { useEtaPublisher } from "@/hooks/useEtaPublisher";
+import { useDriverLocationSharing } from "@/hooks/useDriverLocationSharing";
+import { useWatchedPosition } from "@/hooks/useWatchedPosition";
 
 function RoutePageContent() {
   const supabase = useSupabase();
   const params = useSearchParams();
   const router = useRouter();
   const { mapStylePref, setMapStylePref, navPref, setNavPref } = useMapSettings();
+  const { pendingCount: pendingUploads } = useProofQueue();
 
   useEffect(() => {
     if (typeof document === "undefined") return;
@@ -210,6 +216,53 @@ function RoutePageContent() {
     }
   }, [allJobsRestricted, filterJobsForVisibility, params]);
 
+  // The run may have continued on another device since this plan was saved.
+  // Progress follows the jobs table, so stops proofed elsewhere are skipped here.
+  useEffect(() => {
+    if (!hasStoredPlan || typeof window === "undefined") return;
+
+    const session = readRunSession();
+    const stored = readPlannedRun();
+    if (!session?.runId || !stored?.hasStarted) return;
+    const runId = session.runId;
+
+    let isActive = true;
+    void (async () => {
+      const completions = await loadPlanCompletions(supabase, stored);
+      if (!completions || !isActive) return;
+
+      const reconciled = reconcilePlannedRun(
+        stored,
+        completions,
+        getOperationalISODate(new Date(session.startedAt))
+      );
+      const locallyCompleted = stored.jobs.filter((job) => job.last_completed_on).length;
+      if (reconciled.completedJobs <= locallyCompleted) return;
+
+      writeRunSession({
+        ...session,
+        completedJobs: Math.max(session.completedJobs, reconciled.completedJobs),
+        endedAt: reconciled.isComplete ? new Date().toISOString() : null,
+      });
+
+      if (reconciled.isComplete) {
+        clearPlannedRun();
+        router.replace("/staff/run/completed");
+        return;
+      }
+
+      writePlannedRun(reconciled.plan);
+      void syncRunPlan(supabase, runId, reconciled.plan);
+      const filteredJobs = filterJobsForVisibility(reconciled.plan.jobs);
+      setJobs(filteredJobs.map((job) => ({ ...job })));
+      setActiveIdx(Math.min(reconciled.plan.nextIdx, Math.max(filteredJobs.length - 1, 0)));
+    })();
+
+    return () => {
+      isActive = false;
+    };
+  }, [filterJobsForVisibility, hasStoredPlan, router, supabase]);
+
   useEffect(() => {
     if (!lockNavigation || typeof window === "undefined") return;
 
@@ -273,6 +326,29 @@ function RoutePageContent() {
     : null;
   const isEndStop = normalizedAddress === "end";
 
+  // Clients see ETAs for every stop still ahead on this run, in planned order.
+  const remainingStops = useMemo(
+    () =>
+      jobs
+        .slice(activeIdx)
+        .filter((job) => !job.last_completed_on && job.address.trim().toLowerCase() !== "end")
+        .map((job) => ({ id: job.id, lat: job.lat, lng: job.lng })),
+    [activeIdx, jobs]
+  );
+  const livePosition = useWatchedPosition(locationAllowed);
+  useEtaPublisher(
+    remainingStops,
+    livePosition ?? currentLocation ?? (previousJob ? { lat: previousJob.lat, lng: previousJob.lng } : start),
+    locationAllowed
+  );
+
+  // The client whose stop is next can watch the vehicle approach until the run ends.
+  useDriverLocationSharing(
+    activeJob && !isEndStop && !activeJob.last_completed_on ? activeJob.id : null,
+    livePosition ?? currentLocation,
+    directions?.routes[0]?.overview_polyline ?? null
+  );
+
   const persistJobsToPlan = useCallback(
     (nextJobs: Job[], hasStartedOverride = false) => {
       if (!hasStoredPlan) return;
@@ -646,7 +722,17 @@ function RoutePageContent() {
         <div className="fixed inset-x-0 bottom-0 z-10">
           <div className="bg-black w-full flex flex-col gap-3 p-6 relative">
             <div className="absolute top-0 left-0 w-screen bg-[#E21C21]" style={{ height: "2px" }}></div>
-            <h2 className="text-lg font-bold relative z-10">{activeJob.address}</h2>
+            <div className="flex items-start justify-between gap-3 relative z-10">
+              <h2 className="text-lg font-bold">{activeJob.address}</h2>
+              {pendingUploads > 0 && (
+                <span
+                  className="shrink-0 rounded-full bg-amber-400/15 px-2 py-1 text-xs font-semibold text-amber-300"
+                  title="Proofs saved on this device that are still uploading"
+                >
+                  {pendingUploads} pending upload{pendingUploads === 1 ? "" : "s"}
+                </span>
+              )}
+            </div>
             {locationWarning && (
               <LocationPermissionBanner
                 title={locationWarning.title}
@@ -665,6 +751,18 @@ function RoutePageContent() {
             >
               Arrived At Location
             </button>
+            {!isEndStop && (
+              <button
+                onClick={() =>
+                  router.push(
+                    `/staff/proof?jobs=${encodeURIComponent(JSON.stringify(jobs))}&idx=${activeIdx}&total=${jobs.length}&skip=1`
+                  )
+                }
+                className="w-full px-4 py-2 rounded-lg text-sm font-semibold text-gray-300 transition hover:text-white relative z-10"
+              >
+                Can&apos;t Complete
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -10,6 +10,8 @@ import {
   RunSessionRecord,
 } from "@/lib/run-session";
 import { clearPlannedRun } from "@/lib/planned-run";
+import { completeRunRecord } from "@/lib/run-history";
+import { stopDriverLocationSharing } from "@/lib/driverLocation";
 import { useSupabase } from "@/components/providers/SupabaseProvider";
 import {
   getOperationalDate,
@@ -146,7 +148,15 @@ function CompletedRunContent() {
     setRunData(stored);
     clearRunSession();
     clearPlannedRun();
-  }, []);
+    void stopDriverLocationSharing(supabase);
+
+    if (stored?.runId) {
+      void completeRunRecord(supabase, stored.runId, {
+        endedAt: stored.endedAt ?? new Date().toISOString(),
+        completedJobs: stored.completedJobs,
+      });
+    }
+  }, [supabase]);
 
   useEffect(() => {
     let isActive = true;
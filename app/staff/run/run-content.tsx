@@ -13,11 +13,20 @@ import { normalizeJobs, type Job } from "@/lib/jobs";
 import type { JobRecord } from "@/lib/database.types";
 import { clearPlannedRun, readPlannedRun, writePlannedRun } from "@/lib/planned-run";
 import { readRunSession, writeRunSession } from "@/lib/run-session";
+import { startRunRecord } from "@/lib/run-history";
+import {
+  loadPlanCompletions,
+  loadResumableRun,
+  reconcilePlannedRun,
+  syncRunPlan,
+  type ResumableRun,
+} from "@/lib/run-sync";
 import { useSupabase } from "@/components/providers/SupabaseProvider";
 import { LocationPermissionBanner } from "@/components/UI/LocationPermissionBanner";
 import {
   getOperationalDayIndex,
   getOperationalDayName,
+  getJobTimeWindow,
   getJobVisibilityRestrictions,
 } from "@/lib/date";
 
@@ -179,6 +188,8 @@ function RunPageContent() {
   const [forceFit, setForceFit] = useState(false);
 
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [resumableRun, setResumableRun] = useState<ResumableRun | null>(null);
+  const [resumingRun, setResumingRun] = useState(false);
 
   const [routeSummary, setRouteSummary] = useState<{
     distanceKm: number;
@@ -613,16 +624,70 @@ function RunPageContent() {
         Number.isNaN(new Date(existingSession.endedAt).getTime()));
 
     const startedAt = hasExistingStart ? existingSession.startedAt : nowIso;
+    const runId = (hasExistingStart && existingSession.runId) || crypto.randomUUID();
 
     writeRunSession({
       startedAt,
       endedAt: null,
       totalJobs: jobs.length,
       completedJobs: 0,
+      runId,
     });
 
     redirectExistingPlan({ resetNextIdx: true });
-  }, [jobs.length, redirectExistingPlan]);
+
+    const plan = readPlannedRun();
+    if (plan) {
+      void startRunRecord(supabase, { id: runId, startedAt, plan });
+    }
+  }, [jobs.length, redirectExistingPlan, supabase]);
+
+  useEffect(() => {
+    if (allJobsRestricted || readPlannedRun()) return;
+
+    let isActive = true;
+    void loadResumableRun(supabase).then((run) => {
+      if (isActive) setResumableRun(run);
+    });
+
+    return () => {
+      isActive = false;
+    };
+  }, [allJobsRestricted, supabase]);
+
+  const handleResumeRun = useCallback(async () => {
+    if (!resumableRun) return;
+    setResumingRun(true);
+
+    const completions = await loadPlanCompletions(supabase, resumableRun.plan);
+    if (!completions) {
+      setResumingRun(false);
+      setPlannerNotice({
+        title: "Couldn't resume run",
+        description: "Check your connection and try again.",
+      });
+      return;
+    }
+
+    const reconciled = reconcilePlannedRun(resumableRun.plan, completions, resumableRun.run_date);
+    writeRunSession({
+      startedAt: resumableRun.started_at,
+      endedAt: reconciled.isComplete ? new Date().toISOString() : null,
+      totalJobs: reconciled.plan.jobs.length,
+      completedJobs: reconciled.completedJobs,
+      runId: resumableRun.id,
+    });
+    setResumableRun(null);
+
+    if (reconciled.isComplete) {
+      router.push("/staff/run/completed");
+      return;
+    }
+
+    writePlannedRun(reconciled.plan);
+    void syncRunPlan(supabase, resumableRun.id, reconciled.plan);
+    redirectExistingPlan();
+  }, [redirectExistingPlan, resumableRun, router, supabase]);
 
   const handleReset = useCallback(() => {
     console.log("Resetting route");
@@ -655,16 +720,27 @@ function RunPageContent() {
     setForceFit(true);
     fitBoundsToMap();
 
-    const waypoints = jobs.map((j) => ({ lat: j.lat, lng: j.lng }));
+    // Windows that have already opened don't constrain the order, so they are
+    // left out.
+    const departAt = new Date();
+    const waypoints = jobs.map((j) => {
+      const timeWindow = getJobTimeWindow(j.job_type, departAt);
+      return {
+        lat: j.lat,
+        lng: j.lng,
+        earliest: timeWindow.earliest && timeWindow.earliest > departAt ? timeWindow.earliest.toISOString() : null,
+        latest: timeWindow.latest ? timeWindow.latest.toISOString() : null,
+      };
+    });
     const resp = await fetch("/api/optimize", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ start, end, waypoints }),
+      body: JSON.stringify({ start, end, waypoints, departAt: departAt.toISOString() }),
     });
     const opt = await resp.json();
     console.log("Optimize API response:", opt);
     if (!resp.ok || !opt?.polyline) {
-      setPlannerNotice({ title: "Could not build route." });
+      setPlannerNotice({ title: "Could not build route.", description: opt?.error ?? opt?.message });
       return;
     }
 
@@ -695,6 +771,22 @@ function RunPageContent() {
 
     setPlannerLocked(true);
     hasRedirectedToRoute.current = false;
+
+    const flagged: { index: number; latest: string }[] = Array.isArray(opt.flagged) ? opt.flagged : [];
+    if (flagged.length) {
+      const lateStops = flagged
+        .map(({ index, latest }) => {
+          const flaggedJob = jobs[index];
+          if (!flaggedJob) return null;
+          const deadline = new Date(latest).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+          return `${flaggedJob.address} (by ${deadline})`;
+        })
+        .filter(Boolean);
+      setPlannerNotice({
+        title: flagged.length === 1 ? "1 stop can't be done in time" : `${flagged.length} stops can't be done in time`,
+        description: lateStops.join(", "),
+      });
+    }
   };
 
   const handlePlanRun = () => {
@@ -999,6 +1091,35 @@ function RunPageContent() {
                 </button>
               )}
             </div>
+            {resumableRun && !isPlanned && (
+              <div className="mt-4 rounded-lg border border-white/10 bg-neutral-900 p-3 text-sm">
+                <p className="font-semibold text-white">You have a run in progress on another device.</p>
+                <p className="mt-1 text-xs text-gray-400">
+                  Started{" "}
+                  {new Date(resumableRun.started_at).toLocaleTimeString(undefined, {
+                    hour: "numeric",
+                    minute: "2-digit",
+                  })}{" "}
+                  · {resumableRun.plan.jobs.length} stop{resumableRun.plan.jobs.length === 1 ? "" : "s"}
+                </p>
+                <div className="mt-3 flex gap-2">
+                  <button
+                    className="flex-1 rounded-lg bg-[#E21C21] px-3 py-2 font-semibold text-white transition hover:opacity-90 disabled:opacity-60"
+                    onClick={handleResumeRun}
+                    disabled={resumingRun}
+                  >
+                    {resumingRun ? "Resuming…" : "Resume run from another device"}
+                  </button>
+                  <button
+                    className="rounded-lg px-3 py-2 text-gray-300 transition hover:bg-gray-700"
+                    onClick={() => setResumableRun(null)}
+                    disabled={resumingRun}
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            )}
             <div className="mt-4">
               {allJobsRestricted ? (
                 <button
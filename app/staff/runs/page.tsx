@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MapSettingsProvider } from "@/components/Context/MapSettingsContext";
+import SettingsDrawer from "@/components/UI/SettingsDrawer";
+import RunHistoryList from "@/components/UI/RunHistoryList";
+import { useSupabase } from "@/components/providers/SupabaseProvider";
+import { RUN_COLUMNS, type RunRecord } from "@/lib/run-history";
+
+const RUN_HISTORY_LIMIT = 30;
+
+type LoadState = "loading" | "error" | "ready";
+
+function RunHistoryContent() {
+  const supabase = useSupabase();
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [state, setState] = useState<LoadState>("loading");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadRuns() {
+      try {
+        setState("loading");
+        setErrorMessage(null);
+
+        const {
+          data: { user },
+          error: authError,
+        } = await supabase.auth.getUser();
+        if (authError) throw authError;
+
+        if (!user) {
+          if (!isActive) return;
+          setState("error");
+          setErrorMessage("Sign in to see your run history.");
+          return;
+        }
+
+        const { data, error } = await supabase
+          .from("runs")
+          .select(RUN_COLUMNS)
+          .eq("staff_id", user.id)
+          .order("started_at", { ascending: false })
+          .limit(RUN_HISTORY_LIMIT);
+
+        if (error) throw error;
+        if (!isActive) return;
+        setRuns((data ?? []) as RunRecord[]);
+        setState("ready");
+      } catch (err) {
+        console.error("Failed to load run history", err);
+        if (!isActive) return;
+        setState("error");
+        setErrorMessage("We couldn’t load your run history.");
+      }
+    }
+
+    loadRuns();
+
+    return () => {
+      isActive = false;
+    };
+  }, [supabase]);
+
+  return (
+    <div className="flex-1 overflow-y-auto px-5 pb-24 pt-20">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        <header className="space-y-3 text-left">
+          <h1 className="text-3xl font-bold">Run History</h1>
+          <p className="text-sm text-white/70">
+            Your recent runs, with the order you proofed stops compared with the planned route.
+          </p>
+        </header>
+
+        {state === "loading" ? (
+          <div className="text-sm text-white/50">Loading run history…</div>
+        ) : state === "error" ? (
+          <p className="text-sm text-red-300">{errorMessage}</p>
+        ) : (
+          <RunHistoryList runs={runs} tone="dark" />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function RunHistoryPage() {
+  return (
+    <MapSettingsProvider>
+      <div className="relative flex min-h-screen flex-col bg-black text-white">
+        <SettingsDrawer />
+        <RunHistoryContent />
+      </div>
+    </MapSettingsProvider>
+  );
+}
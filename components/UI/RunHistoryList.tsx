@@ -0,0 +1,115 @@
+import clsx from "clsx";
+import { compareRunOrder, getRunDurationMs, type RunRecord } from "@/lib/run-history";
+
+type RunHistoryListProps = {
+  runs: RunRecord[];
+  /** Staff names keyed by user id; the staff column is hidden when omitted. */
+  staffLookup?: Record<string, string>;
+  tone?: "light" | "dark";
+};
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "In progress";
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (!hours) return `${minutes}m`;
+  return `${hours}h ${minutes}m`;
+}
+
+function formatTime(value: string | null | undefined): string {
+  if (!value) return "—";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "—";
+  return date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+export default function RunHistoryList({ runs, staffLookup, tone = "light" }: RunHistoryListProps) {
+  const isDark = tone === "dark";
+  const mutedClass = isDark ? "text-white/60" : "text-gray-600";
+
+  if (!runs.length) {
+    return <p className={clsx("text-sm", mutedClass)}>No runs recorded yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {runs.map((run) => {
+        const comparison = compareRunOrder(run.planned_order ?? [], run.actual_order ?? []);
+        const outOfOrder = comparison.filter((entry) => entry.plannedPosition !== entry.actualPosition).length;
+
+        return (
+          <li
+            key={run.id}
+            className={clsx(
+              "rounded-xl border p-4",
+              isDark ? "border-white/10 bg-neutral-900" : "border-gray-200 bg-white",
+            )}
+          >
+            <details>
+              <summary className="cursor-pointer list-none space-y-1">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className={clsx("text-sm font-semibold", isDark ? "text-white" : "text-gray-900")}>
+                    {new Date(`${run.run_date}T12:00:00`).toLocaleDateString(undefined, {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                    })}
+                    {staffLookup ? ` · ${staffLookup[run.staff_id] ?? "Team member"}` : ""}
+                  </p>
+                  <span
+                    className={clsx(
+                      "rounded-full px-2 py-1 text-xs",
+                      isDark ? "bg-white/10 text-white" : "bg-gray-200 text-gray-800",
+                    )}
+                  >
+                    {formatDuration(getRunDurationMs(run))}
+                  </span>
+                </div>
+                <p className={clsx("text-xs", mutedClass)}>
+                  {formatTime(run.started_at)} – {formatTime(run.ended_at)} · {run.completed_jobs} / {run.total_jobs}{" "}
+                  stops
+                  {comparison.length ? ` · ${outOfOrder} out of planned order` : ""}
+                </p>
+              </summary>
+
+              {comparison.length === 0 ? (
+                <p className={clsx("mt-3 text-xs", mutedClass)}>No stops were proofed on this run.</p>
+              ) : (
+                <table className="mt-3 w-full text-left text-xs">
+                  <thead className={mutedClass}>
+                    <tr>
+                      <th className="py-1 pr-2">Actual</th>
+                      <th className="py-1 pr-2">Planned</th>
+                      <th className="py-1 pr-2">Stop</th>
+                      <th className="py-1">Proofed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.map(({ stop, actualPosition, plannedPosition }) => (
+                      <tr
+                        key={stop.job_id}
+                        className={clsx(
+                          "border-t",
+                          isDark ? "border-white/10" : "border-gray-100",
+                          plannedPosition !== actualPosition && (isDark ? "text-amber-300" : "text-amber-700"),
+                        )}
+                      >
+                        <td className="py-1 pr-2">{actualPosition}</td>
+                        <td className="py-1 pr-2">{plannedPosition ?? "—"}</td>
+                        <td className="py-1 pr-2">
+                          {stop.address || "Property"} · {stop.job_type === "bring_in" ? "Bring in" : "Put out"}
+                        </td>
+                        <td className="py-1">{formatTime(stop.completed_at)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </details>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
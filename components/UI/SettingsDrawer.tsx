@@ -3,7 +3,7 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useRouter, usePathname } from "next/navigation";
-import { CalendarDays, Flag, LogOut, Navigation2, Palette, Route } from "lucide-react";
+import { CalendarDays, Flag, History, LogOut, Navigation2, Palette, Route } from "lucide-react";
 import clsx from "clsx";
 import { useMapSettings } from "@/components/Context/MapSettingsContext";
 import { clearPlannedRun, readPlannedRun } from "@/lib/planned-run";
@@ -254,6 +254,7 @@ export default function SettingsDrawer() {
         endedAt: nowIso,
         totalJobs,
         completedJobs,
+        runId: existingSession?.runId ?? null,
       });
       clearPlannedRun();
       syncActiveRunState();
@@ -336,7 +337,7 @@ export default function SettingsDrawer() {
                   onClick={() => handleNavigate("/staff/run")}
                   className={clsx(
                     "flex w-full items-center gap-3 text-left font-semibold uppercase text-sm transition",
-                    pathname?.startsWith("/staff/run")
+                    pathname === "/staff/run" || pathname?.startsWith("/staff/run/")
                       ? "text-[#E21C21]"
                       : "text-white",
                     "hover:text-[#E21C21]"
@@ -358,6 +359,19 @@ export default function SettingsDrawer() {
                   <CalendarDays className="h-4 w-4" />
                   <span>Weekly Jobs</span>
                 </button>
+                <button
+                  onClick={() => handleNavigate("/staff/runs")}
+                  className={clsx(
+                    "flex w-full items-center gap-3 text-left font-semibold uppercase text-sm transition",
+                    pathname?.startsWith("/staff/runs")
+                      ? "text-[#E21C21]"
+                      : "text-white",
+                    "hover:text-[#E21C21]"
+                  )}
+                >
+                  <History className="h-4 w-4" />
+                  <span>Run History</span>
+                </button>
                 <button
                   onClick={() => handlePanelToggle("nav")}
                   className={clsx(
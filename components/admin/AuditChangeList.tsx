@@ -0,0 +1,32 @@
+import { diffAuditEntry, formatAuditValue, type AuditEntry } from "@/lib/audit";
+
+type AuditChangeListProps = {
+  entry: Pick<AuditEntry, "action" | "before" | "after">;
+};
+
+export default function AuditChangeList({ entry }: AuditChangeListProps) {
+  const changes = diffAuditEntry(entry);
+
+  if (!changes.length) {
+    return <p className="text-xs text-gray-600">No field changes recorded.</p>;
+  }
+
+  return (
+    <dl className="grid gap-1 text-xs">
+      {changes.map((change) => (
+        <div key={change.field} className="grid grid-cols-[minmax(0,140px)_minmax(0,1fr)] gap-2">
+          <dt className="truncate font-medium text-gray-700" title={change.field}>
+            {change.field}
+          </dt>
+          <dd className="break-words text-gray-900">
+            {entry.action !== "insert" && (
+              <span className="text-red-700 line-through">{formatAuditValue(change.before)}</span>
+            )}
+            {entry.action === "update" && <span className="px-1 text-gray-500">→</span>}
+            {entry.action !== "delete" && <span className="text-green-800">{formatAuditValue(change.after)}</span>}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,335 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { GoogleMap, MarkerF, useLoadScript } from "@react-google-maps/api";
+import type { JobRecord } from "@/lib/database.types";
+import { balanceJobs, type BalanceJob, type BalanceProposal } from "@/lib/routeBalancing";
+
+type BalanceStaffMember = {
+  id: string;
+  name: string;
+};
+
+type BalanceDayPanelProps = {
+  jobs: JobRecord[];
+  staff: BalanceStaffMember[];
+  dayOptions: readonly string[];
+  defaultDay: string;
+  onClose: () => void;
+  onApplied: (message: string) => void;
+};
+
+const DRIVER_COLORS = ["#E21C21", "#2563EB", "#16A34A", "#D97706", "#7C3AED", "#0891B2", "#DB2777", "#4B5563"];
+
+const FALLBACK_CENTER = { lat: -33.8688, lng: 151.2093 };
+
+const formatMinutes = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+/** Staff who already have work on the day are assumed to be on shift; otherwise everyone is. */
+const defaultOnShift = (jobs: JobRecord[], staff: BalanceStaffMember[], day: string): Set<string> => {
+  const assigned = new Set(
+    jobs.filter((job) => job.day_of_week?.toLowerCase() === day.toLowerCase()).map((job) => job.assigned_to),
+  );
+  const working = staff.filter((member) => assigned.has(member.id)).map((member) => member.id);
+  return new Set(working.length ? working : staff.map((member) => member.id));
+};
+
+export default function BalanceDayPanel({
+  jobs,
+  staff,
+  dayOptions,
+  defaultDay,
+  onClose,
+  onApplied,
+}: BalanceDayPanelProps) {
+  const { isLoaded, loadError } = useLoadScript({
+    id: "admin-balance-map",
+    googleMapsApiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ?? "",
+  });
+  const [day, setDay] = useState(defaultDay);
+  const [proposal, setProposal] = useState<BalanceProposal | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dayJobs = useMemo(
+    () =>
+      jobs.filter(
+        (job) => job.day_of_week?.toLowerCase() === day.toLowerCase() && !job.last_completed_on,
+      ),
+    [day, jobs],
+  );
+
+  const balanceableJobs = useMemo<BalanceJob[]>(
+    () =>
+      dayJobs
+        .filter((job) => typeof job.lat === "number" && typeof job.lng === "number")
+        .map((job) => ({ id: job.id, lat: job.lat as number, lng: job.lng as number, assignedTo: job.assigned_to })),
+    [dayJobs],
+  );
+
+  const [onShift, setOnShift] = useState<Set<string>>(() => defaultOnShift(jobs, staff, defaultDay));
+
+  const driverIds = useMemo(() => staff.filter((member) => onShift.has(member.id)).map((member) => member.id), [
+    onShift,
+    staff,
+  ]);
+  const staffNames = useMemo(() => new Map(staff.map((member) => [member.id, member.name] as const)), [staff]);
+  const colorByDriver = useMemo(
+    () => new Map(driverIds.map((driverId, index) => [driverId, DRIVER_COLORS[index % DRIVER_COLORS.length]] as const)),
+    [driverIds],
+  );
+
+  const toggleStaff = (id: string, checked: boolean) => {
+    setOnShift((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+    setProposal(null);
+  };
+
+  const handlePropose = () => {
+    setError(null);
+    if (!driverIds.length) {
+      setError("Select at least one staff member on shift.");
+      return;
+    }
+    if (!balanceableJobs.length) {
+      setError(`No open ${day} jobs with coordinates to balance.`);
+      return;
+    }
+    setProposal(balanceJobs(balanceableJobs, driverIds));
+  };
+
+  const handleApply = async () => {
+    if (!proposal) return;
+    setApplying(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/admin/jobs/assign", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          assignments: proposal.changedJobIds.map((jobId) => ({
+            jobId,
+            assignedTo: proposal.assignments[jobId],
+          })),
+        }),
+      });
+      const result = (await response.json().catch(() => null)) as { message?: string; updated?: number } | null;
+      if (!response.ok) {
+        setError(result?.message ?? "Unable to save assignments.");
+        return;
+      }
+      onApplied(`Reassigned ${result?.updated ?? proposal.changedJobIds.length} ${day} jobs.`);
+    } catch (applyError) {
+      console.error("Failed to apply balanced assignments", applyError);
+      setError("Unable to save assignments. Please try again.");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const markers = useMemo(() => {
+    return balanceableJobs.map((job) => {
+      const driverId = proposal?.assignments[job.id] ?? job.assignedTo;
+      return {
+        id: job.id,
+        position: { lat: job.lat, lng: job.lng },
+        color: (driverId && colorByDriver.get(driverId)) || "#9CA3AF",
+        changed: proposal?.changedJobIds.includes(job.id) ?? false,
+      };
+    });
+  }, [balanceableJobs, colorByDriver, proposal]);
+
+  const mapCenter = useMemo(() => {
+    if (!balanceableJobs.length) return FALLBACK_CENTER;
+    const total = balanceableJobs.reduce((sum, job) => ({ lat: sum.lat + job.lat, lng: sum.lng + job.lng }), {
+      lat: 0,
+      lng: 0,
+    });
+    return { lat: total.lat / balanceableJobs.length, lng: total.lng / balanceableJobs.length };
+  }, [balanceableJobs]);
+
+  const skippedCount = dayJobs.length - balanceableJobs.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="relative max-h-[90vh] w-full max-w-5xl overflow-y-auto rounded-2xl bg-white p-6 shadow-xl">
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Balance a day</h3>
+            <p className="text-xs text-gray-600">
+              Split the day&apos;s open jobs between the staff on shift by area and estimated workload.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-lg font-semibold text-gray-600 transition hover:text-gray-900"
+            aria-label="Close balance day"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-800">{error}</div>
+        )}
+
+        <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+          <div className="space-y-4">
+            <label className="flex flex-col text-sm text-gray-900">
+              <span className="font-medium text-gray-800">Day</span>
+              <select
+                value={day}
+                onChange={(event) => {
+                  setDay(event.target.value);
+                  setOnShift(defaultOnShift(jobs, staff, event.target.value));
+                  setProposal(null);
+                }}
+                className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 pr-10 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+              >
+                {dayOptions.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-800">Staff on shift</legend>
+              {staff.length === 0 ? (
+                <p className="text-sm text-gray-600">No staff found.</p>
+              ) : (
+                staff.map((member) => (
+                  <label key={member.id} className="flex items-center gap-2 text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={onShift.has(member.id)}
+                      onChange={(event) => toggleStaff(member.id, event.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-gray-900 focus:ring-gray-400"
+                    />
+                    <span
+                      className="inline-block h-3 w-3 rounded-full"
+                      style={{ backgroundColor: colorByDriver.get(member.id) ?? "#E5E7EB" }}
+                      aria-hidden
+                    />
+                    {member.name}
+                  </label>
+                ))
+              )}
+            </fieldset>
+
+            <p className="text-xs text-gray-600">
+              {dayJobs.length} open {day} jobs
+              {skippedCount > 0 ? `, ${skippedCount} without coordinates left as they are` : ""}.
+            </p>
+
+            <button
+              type="button"
+              onClick={handlePropose}
+              disabled={applying}
+              className="w-full rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {proposal ? "Recalculate split" : "Propose split"}
+            </button>
+
+            {proposal && (
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs uppercase tracking-wide text-gray-600">
+                  <tr>
+                    <th className="py-1 pr-2">Staff</th>
+                    <th className="py-1 pr-2">Jobs</th>
+                    <th className="py-1 pr-2">Drive</th>
+                    <th className="py-1">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {proposal.clusters.map((cluster) => (
+                    <tr key={cluster.driverId}>
+                      <td className="py-1 pr-2">
+                        <span className="flex items-center gap-2">
+                          <span
+                            className="inline-block h-3 w-3 rounded-full"
+                            style={{ backgroundColor: colorByDriver.get(cluster.driverId) }}
+                            aria-hidden
+                          />
+                          {staffNames.get(cluster.driverId) ?? cluster.driverId}
+                        </span>
+                      </td>
+                      <td className="py-1 pr-2">{cluster.jobIds.length}</td>
+                      <td className="py-1 pr-2">{formatMinutes(cluster.driveSeconds)}</td>
+                      <td className="py-1">{formatMinutes(cluster.totalSeconds)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="h-80 overflow-hidden rounded-xl border border-gray-200 bg-gray-100 lg:h-auto lg:min-h-[360px]">
+            {loadError || !process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ? (
+              <p className="p-4 text-sm text-gray-600">Map unavailable. The split can still be reviewed in the table.</p>
+            ) : !isLoaded ? (
+              <p className="p-4 text-sm text-gray-600">Loading map…</p>
+            ) : (
+              <GoogleMap
+                mapContainerStyle={{ width: "100%", height: "100%" }}
+                center={mapCenter}
+                zoom={12}
+                options={{ disableDefaultUI: true, zoomControl: true }}
+              >
+                {markers.map((marker) => (
+                  <MarkerF
+                    key={marker.id}
+                    position={marker.position}
+                    icon={{
+                      path: google.maps.SymbolPath.CIRCLE,
+                      scale: marker.changed ? 8 : 6,
+                      fillColor: marker.color,
+                      fillOpacity: 1,
+                      strokeColor: marker.changed ? "#111827" : "#FFFFFF",
+                      strokeWeight: 2,
+                    }}
+                  />
+                ))}
+              </GoogleMap>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-600">
+            {proposal
+              ? `${proposal.changedJobIds.length} jobs change driver. Outlined markers are reassigned.`
+              : "Propose a split to review it on the map."}
+          </p>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!proposal || !proposal.changedJobIds.length || applying}
+              className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {applying ? "Saving…" : `Apply ${proposal?.changedJobIds.length ?? 0} changes`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
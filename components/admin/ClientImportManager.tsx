@@ -0,0 +1,337 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
+import { useSupabase } from "@/components/providers/SupabaseProvider";
+import { CLIENT_FIELD_CONFIGS } from "./clientFieldConfig";
+import {
+  MAX_CLIENT_IMPORT_ROWS,
+  buildClientImportRows,
+  parseCsv,
+  suggestClientImportMapping,
+  type ClientImportCell,
+  type ClientImportField,
+  type ClientImportMapping,
+  type ClientImportMode,
+  type ClientImportStaffMember,
+} from "@/lib/clientImport";
+
+type StatusMessage = {
+  type: "success" | "error";
+  message: string;
+};
+
+type ImportResponse = {
+  message?: string;
+  inserted?: number;
+  updated?: number;
+  errors?: { line: number; errors: string[] }[];
+};
+
+const PREVIEW_ROWS = 20;
+
+const selectClasses =
+  "w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 pr-8 text-xs text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300";
+
+const formatCell = (value: string | number | null | undefined) =>
+  value === null || value === undefined || value === "" ? "—" : String(value);
+
+async function readImportFile(file: File): Promise<ClientImportCell[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const { default: readXlsxFile } = await import("read-excel-file");
+    return (await readXlsxFile(file)) as ClientImportCell[][];
+  }
+  return parseCsv(await file.text());
+}
+
+export default function ClientImportManager() {
+  const supabase = useSupabase();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<ClientImportCell[][]>([]);
+  const [mapping, setMapping] = useState<ClientImportMapping>([]);
+  const [mode, setMode] = useState<ClientImportMode>("insert");
+  const [staff, setStaff] = useState<ClientImportStaffMember[]>([]);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+  const [serverErrors, setServerErrors] = useState<{ line: number; errors: string[] }[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStaff = async () => {
+      const { data, error } = await supabase
+        .from("user_profile")
+        .select("user_id, full_name")
+        .in("role", ["staff", "admin"]);
+      if (cancelled) return;
+      if (error) {
+        console.warn("Failed to load staff", error);
+        return;
+      }
+      setStaff((data ?? []).map((row) => ({ id: row.user_id, name: row.full_name ?? "" })));
+    };
+
+    void loadStaff();
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase]);
+
+  const rows = useMemo(() => buildClientImportRows(dataRows, mapping, staff), [dataRows, mapping, staff]);
+  const rowsWithErrors = useMemo(() => rows.filter((row) => row.errors.length), [rows]);
+  const mappedColumns = useMemo(
+    () =>
+      mapping
+        .map((field, column) => ({ field, column }))
+        .filter((entry): entry is { field: ClientImportField; column: number } => entry.field !== null),
+    [mapping],
+  );
+  const addressMapped = mapping.includes("address");
+  const propertyIdMapped = mapping.includes("property_id");
+  const canImport = rows.length > 0 && addressMapped && rowsWithErrors.length === 0 && !importing;
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setReading(true);
+    setStatus(null);
+    setServerErrors([]);
+    try {
+      const [headerRow = [], ...body] = await readImportFile(file);
+      if (body.length > MAX_CLIENT_IMPORT_ROWS) {
+        setStatus({
+          type: "error",
+          message: `${file.name} has ${body.length} rows. Split it into files of at most ${MAX_CLIENT_IMPORT_ROWS}.`,
+        });
+        return;
+      }
+      const headerNames = headerRow.map((cell) => (cell === null || cell === undefined ? "" : String(cell).trim()));
+      setFileName(file.name);
+      setHeaders(headerNames);
+      setDataRows(body);
+      setMapping(suggestClientImportMapping(headerNames));
+      setMode("insert");
+    } catch (readError) {
+      console.error("Failed to read import file", readError);
+      setStatus({ type: "error", message: "Unable to read that file. Upload a CSV or XLSX spreadsheet." });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (column: number, value: string) => {
+    const field = value ? (value as ClientImportField) : null;
+    setServerErrors([]);
+    setMapping((current) =>
+      current.map((existing, index) => {
+        if (index === column) return field;
+        return field && existing === field ? null : existing;
+      }),
+    );
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setStatus(null);
+    setServerErrors([]);
+    try {
+      const response = await fetch("/api/admin/clients/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode, rows: rows.map(({ line, values }) => ({ line, values })) }),
+      });
+      const result = (await response.json().catch(() => null)) as ImportResponse | null;
+      if (!response.ok) {
+        setServerErrors(result?.errors ?? []);
+        setStatus({ type: "error", message: result?.message ?? "Unable to import properties." });
+        return;
+      }
+
+      const inserted = result?.inserted ?? 0;
+      const updated = result?.updated ?? 0;
+      setStatus({
+        type: "success",
+        message: `Imported ${fileName ?? "the file"}: ${inserted} added${updated ? `, ${updated} updated` : ""}.`,
+      });
+      setFileName(null);
+      setHeaders([]);
+      setDataRows([]);
+      setMapping([]);
+    } catch (importError) {
+      console.error("Failed to import properties", importError);
+      setStatus({ type: "error", message: "Unable to import properties. Please try again." });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">Import properties</h2>
+          <p className="text-sm text-gray-700">
+            Upload a CSV or XLSX file with a header row, match its columns to property fields, then review and import.
+          </p>
+        </div>
+        <Link
+          href="/admin/clients"
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+        >
+          Back to property list
+        </Link>
+      </div>
+
+      {status && (
+        <div
+          className={`rounded-lg px-3 py-2 text-sm ${
+            status.type === "success"
+              ? "border border-green-300 bg-green-50 text-green-800"
+              : "border border-red-300 bg-red-50 text-red-800"
+          }`}
+        >
+          {status.message}
+        </div>
+      )}
+
+      <label className="flex flex-col gap-2 rounded-xl border border-dashed border-gray-300 bg-gray-50 p-5 text-sm text-gray-900">
+        <span className="font-medium text-gray-800">
+          {reading ? "Reading file…" : fileName ? `Loaded ${fileName} (${dataRows.length} rows)` : "Choose a file"}
+        </span>
+        <input
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={handleFileChange}
+          disabled={reading || importing}
+          className="text-sm text-gray-700"
+        />
+        <span className="text-xs text-gray-600">
+          Days must name a weekday, Lat/Lng must be &quot;latitude, longitude&quot;, frequencies Weekly or Fortnightly,
+          and flips Yes or No. Staff can be given by name.
+        </span>
+      </label>
+
+      {headers.length > 0 && (
+        <>
+          <div className="space-y-3 rounded-xl border border-gray-200 bg-white p-5">
+            <h3 className="text-lg font-semibold text-gray-900">Columns</h3>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              {headers.map((header, column) => (
+                <label key={`${header}-${column}`} className="flex flex-col gap-1 text-xs text-gray-900">
+                  <span className="truncate font-medium text-gray-800" title={header}>
+                    {header || `Column ${column + 1}`}
+                  </span>
+                  <select
+                    value={mapping[column] ?? ""}
+                    onChange={(event) => handleMappingChange(column, event.target.value)}
+                    className={selectClasses}
+                  >
+                    <option value="">Ignore</option>
+                    {CLIENT_FIELD_CONFIGS.map((config) => (
+                      <option key={config.key} value={config.key}>
+                        {config.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            {!addressMapped && <p className="text-sm text-red-700">Match a column to Address to continue.</p>}
+          </div>
+
+          <div className="space-y-3 rounded-xl border border-gray-200 bg-white p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Review</h3>
+                <p className="text-xs text-gray-600">
+                  {rows.length - rowsWithErrors.length} of {rows.length} rows ready
+                  {rowsWithErrors.length ? ` · ${rowsWithErrors.length} with errors` : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-4 text-sm text-gray-900">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={mode === "insert"}
+                    onChange={() => setMode("insert")}
+                    className="h-4 w-4 border-gray-300 text-gray-900 focus:ring-gray-400"
+                  />
+                  Add as new properties
+                </label>
+                <label className={`flex items-center gap-2 ${propertyIdMapped ? "" : "opacity-60"}`}>
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={mode === "upsert"}
+                    onChange={() => setMode("upsert")}
+                    disabled={!propertyIdMapped}
+                    className="h-4 w-4 border-gray-300 text-gray-900 focus:ring-gray-400"
+                  />
+                  Update existing by Property ID
+                </label>
+              </div>
+            </div>
+
+            {(rowsWithErrors.length > 0 || serverErrors.length > 0) && (
+              <div className="max-h-64 space-y-1 overflow-y-auto rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-xs text-red-800">
+                {(rowsWithErrors.length ? rowsWithErrors : serverErrors).map((row) => (
+                  <p key={row.line}>
+                    <span className="font-semibold">Line {row.line}:</span> {row.errors.join(" ")}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="overflow-x-auto rounded-lg border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                <thead className="bg-gray-100 uppercase tracking-wide text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Line</th>
+                    {mappedColumns.map(({ field }) => (
+                      <th key={field} className="whitespace-nowrap px-3 py-2 text-left">
+                        {CLIENT_FIELD_CONFIGS.find((config) => config.key === field)?.label ?? field}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                    <tr key={row.line} className={row.errors.length ? "bg-red-50" : "bg-white"}>
+                      <td className="px-3 py-2 text-gray-600">{row.line}</td>
+                      {mappedColumns.map(({ field }) => (
+                        <td key={field} className="max-w-[200px] truncate px-3 py-2 text-gray-900">
+                          {field === "assigned_to"
+                            ? (staff.find((member) => member.id === row.values[field])?.name ?? formatCell(row.values[field]))
+                            : formatCell(row.values[field])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.length > PREVIEW_ROWS && (
+              <p className="text-xs text-gray-600">Showing the first {PREVIEW_ROWS} of {rows.length} rows.</p>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={!canImport}
+                className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {importing ? "Importing…" : `Import ${rows.length} row${rows.length === 1 ? "" : "s"}`}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 "use client";
 
+import Link from "next/link";
 import { useCallback, useEffect, useMemo, useState, type ChangeEvent, type FormEvent } from "react";
 import { useSupabase } from "@/components/providers/SupabaseProvider";
 import ConfirmDialog from "./ConfirmDialog";
 import NewClientForm from "./NewClientForm";
+import JobDiffList, { isJobDiffEntryAcceptedByDefault } from "./JobDiffList";
+import ShareLinksPanel from "./ShareLinksPanel";
+import RecordHistoryDrawer from "./RecordHistoryDrawer";
 import {
   CLIENT_DATE_FIELD_KEYS,
   CLIENT_FIELD_CONFIGS,
@@ -11,6 +15,8 @@ import {
   type ClientListRow,
 } from "./clientFieldConfig";
 import { getBinSchedule } from "@/lib/binSchedule";
+import { downloadCsv, exportFileName, toCsv } from "@/lib/csvExport";
+import type { JobDiffEntry, JobDiffSummary } from "@/lib/jobDiff";
 
 type StaffMember = {
   id: string;
@@ -121,6 +127,15 @@ export default function ClientListManager() {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [status, setStatus] = useState<{ type: "success" | "error"; message: string } | null>(null);
   const [showNewClientModal, setShowNewClientModal] = useState(false);
+  const [showShareLinks, setShowShareLinks] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [jobDiff, setJobDiff] = useState<{
+    propertyId: string;
+    entries: JobDiffEntry[];
+    summary: JobDiffSummary;
+  } | null>(null);
+  const [acceptedJobKeys, setAcceptedJobKeys] = useState<Set<string>>(new Set());
+  const [applyingJobs, setApplyingJobs] = useState(false);
   const baseInputClasses =
     "mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 placeholder:text-gray-500 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300";
   const selectClasses = `${baseInputClasses} pr-12`;
@@ -501,23 +516,37 @@ export default function ClientListManager() {
     }
   };
 
+  const postCreateJobs = async (body: { propertyId: string; dryRun?: boolean; accept?: string[] }) => {
+    const response = await fetch("/api/admin/jobs/create", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    const payloadText = await response.text().catch(() => "");
+    const payload = payloadText
+      ? ((JSON.parse(payloadText) as {
+          status?: string;
+          message?: string;
+          entries?: JobDiffEntry[];
+          summary?: JobDiffSummary;
+        }) ?? null)
+      : null;
+
+    return { response, payload, payloadText };
+  };
+
   const handleCreateJobs = async () => {
     if (!selectedRowId) return;
     setCreatingJobs(true);
     setStatus(null);
     try {
-      const response = await fetch("/api/admin/jobs/create", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ propertyId: selectedRowId }),
+      const { response, payload, payloadText } = await postCreateJobs({
+        propertyId: selectedRowId,
+        dryRun: true,
       });
 
-      const payloadText = await response.text().catch(() => "");
-      const payload = payloadText
-        ? ((JSON.parse(payloadText) as { status?: string; message?: string }) ?? null)
-        : null;
-
-      if (!response.ok) {
+      if (!response.ok || !payload?.entries || !payload.summary) {
         setStatus({
           type: "error",
           message:
@@ -527,10 +556,19 @@ export default function ClientListManager() {
         return;
       }
 
-      setStatus({
-        type: payload?.status === "error" ? "error" : "success",
-        message: payload?.message ?? "Jobs created for this property.",
-      });
+      const { added, changed, removed } = payload.summary;
+      if (added + changed + removed === 0) {
+        setStatus({
+          type: "success",
+          message: payload.entries.length ? "Jobs are already up to date." : "No jobs scheduled for this property.",
+        });
+        return;
+      }
+
+      setJobDiff({ propertyId: selectedRowId, entries: payload.entries, summary: payload.summary });
+      setAcceptedJobKeys(
+        new Set(payload.entries.filter(isJobDiffEntryAcceptedByDefault).map((entry) => entry.key)),
+      );
     } catch (createError) {
       console.error("Failed to create jobs", createError);
       setStatus({
@@ -545,6 +583,71 @@ export default function ClientListManager() {
     }
   };
 
+  const handleApplyJobDiff = async () => {
+    if (!jobDiff) return;
+    setApplyingJobs(true);
+    try {
+      const { response, payload, payloadText } = await postCreateJobs({
+        propertyId: jobDiff.propertyId,
+        accept: [...acceptedJobKeys],
+      });
+
+      if (!response.ok) {
+        setStatus({
+          type: "error",
+          message:
+            payload?.message ??
+            (payloadText ? `Unable to update jobs for this property: ${payloadText}` : "Unable to update jobs for this property."),
+        });
+        return;
+      }
+
+      setStatus({
+        type: payload?.status === "error" ? "error" : "success",
+        message: payload?.message ?? "Jobs updated for this property.",
+      });
+      setJobDiff(null);
+    } catch (applyError) {
+      console.error("Failed to apply job changes", applyError);
+      setStatus({
+        type: "error",
+        message:
+          applyError instanceof Error
+            ? applyError.message
+            : "Unable to update jobs for this property. Please try again.",
+      });
+      setJobDiff(null);
+    } finally {
+      setApplyingJobs(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    const csv = toCsv(
+      filteredRows,
+      CLIENT_FIELD_CONFIGS.map((config) => ({
+        header: config.label,
+        value: (row: ClientListRow) =>
+          config.key === "assigned_to" && row.assigned_to
+            ? (staffById.get(row.assigned_to) ?? row.assigned_to)
+            : row[config.key],
+      })),
+    );
+    downloadCsv(exportFileName("property-list", "csv"), csv);
+  };
+
+  const toggleJobDiffKey = (key: string, accepted: boolean) => {
+    setAcceptedJobKeys((current) => {
+      const next = new Set(current);
+      if (accepted) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-4 lg:grid lg:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)] lg:gap-8">
@@ -563,6 +666,20 @@ export default function ClientListManager() {
               >
                 Refresh
               </button>
+              <button
+                type="button"
+                onClick={handleExportCsv}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-800 transition hover:border-gray-400 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={loading || filteredRows.length === 0}
+              >
+                Export CSV
+              </button>
+              <Link
+                href="/admin/clients/import"
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+              >
+                Import
+              </Link>
               <button
                 type="button"
                 onClick={() => setShowNewClientModal(true)}
@@ -688,7 +805,21 @@ export default function ClientListManager() {
                   disabled={creatingJobs}
                   className="rounded-lg border border-gray-400 px-3 py-1.5 text-xs font-semibold text-gray-800 transition hover:border-gray-500 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
                 >
-                  {creatingJobs ? "Creating…" : "Create Jobs"}
+                  {creatingJobs ? "Checking…" : "Create Jobs"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowShareLinks(true)}
+                  className="rounded-lg border border-gray-400 px-3 py-1.5 text-xs font-semibold text-gray-800 transition hover:border-gray-500 hover:text-gray-900"
+                >
+                  Share
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowHistory(true)}
+                  className="rounded-lg border border-gray-400 px-3 py-1.5 text-xs font-semibold text-gray-800 transition hover:border-gray-500 hover:text-gray-900"
+                >
+                  History
                 </button>
                 <button
                   type="button"
@@ -822,6 +953,63 @@ export default function ClientListManager() {
           </div>
         </div>
       ) : null}
+
+      {showShareLinks && selectedRow ? (
+        <ShareLinksPanel
+          accountId={selectedRow.account_id?.trim() || selectedRow.property_id}
+          accountName={selectedRow.company?.trim() || selectedRow.client_name?.trim() || "Client Account"}
+          propertyId={selectedRow.property_id}
+          propertyLabel={selectedRow.address ?? "this property"}
+          onClose={() => setShowShareLinks(false)}
+        />
+      ) : null}
+
+      {showHistory && selectedRow ? (
+        <RecordHistoryDrawer
+          table="client_list"
+          rowId={selectedRow.property_id}
+          title={selectedRow.address ?? "Property"}
+          onClose={() => setShowHistory(false)}
+        />
+      ) : null}
+
+      {jobDiff ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <div className="relative max-h-[90vh] w-full max-w-2xl space-y-4 overflow-y-auto rounded-2xl bg-white p-6 shadow-xl">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Review job changes</h3>
+              <p className="text-sm text-gray-700">
+                {jobDiff.summary.added} added · {jobDiff.summary.changed} changed · {jobDiff.summary.removed} removed
+                · {jobDiff.summary.unchanged} unchanged. Assignments and notes edited on existing jobs are kept.
+              </p>
+            </div>
+            <JobDiffList
+              entries={jobDiff.entries}
+              selected={acceptedJobKeys}
+              onToggle={toggleJobDiffKey}
+              disabled={applyingJobs}
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setJobDiff(null)}
+                disabled={applyingJobs}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-800 transition hover:border-gray-400 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleApplyJobDiff}
+                disabled={applyingJobs || acceptedJobKeys.size === 0}
+                className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {applyingJobs ? "Applying…" : `Apply ${acceptedJobKeys.size} change${acceptedJobKeys.size === 1 ? "" : "s"}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
     </div>
   );
 }
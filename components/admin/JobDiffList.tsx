@@ -0,0 +1,130 @@
+import type { JobDiffEntry, JobDiffKind } from "@/lib/jobDiff";
+
+type JobDiffListProps = {
+  entries: JobDiffEntry[];
+  /** Controlled selection for client components; omit to render form checkboxes named `accept`. */
+  selected?: Set<string>;
+  onToggle?: (key: string, accepted: boolean) => void;
+  disabled?: boolean;
+};
+
+const KIND_ORDER: JobDiffKind[] = ["added", "changed", "removed", "unchanged"];
+
+const KIND_LABELS: Record<JobDiffKind, string> = {
+  added: "Added",
+  changed: "Changed",
+  removed: "Removed",
+  unchanged: "Unchanged",
+};
+
+const KIND_BADGES: Record<JobDiffKind, string> = {
+  added: "bg-green-100 text-green-800",
+  changed: "bg-amber-100 text-amber-800",
+  removed: "bg-red-100 text-red-800",
+  unchanged: "bg-gray-100 text-gray-700",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  account_id: "Account",
+  address: "Address",
+  lat: "Latitude",
+  lng: "Longitude",
+  bins: "Bins",
+  client_name: "Client",
+  photo_path: "Photo",
+  assigned_to: "Assigned to",
+  notes: "Notes",
+};
+
+const formatValue = (value: string | number | null) =>
+  value === null || value === "" ? "—" : String(value);
+
+export const isJobDiffEntryAcceptedByDefault = (entry: JobDiffEntry) => entry.kind !== "unchanged";
+
+export default function JobDiffList({ entries, selected, onToggle, disabled = false }: JobDiffListProps) {
+  const groups = KIND_ORDER.map((kind) => ({
+    kind,
+    entries: entries.filter((entry) => entry.kind === kind),
+  })).filter((group) => group.entries.length > 0);
+
+  if (!groups.length) {
+    return <p className="text-sm text-gray-600">No jobs scheduled.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {groups.map((group) => (
+        <div key={group.kind} className="space-y-1">
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-600">
+            {KIND_LABELS[group.kind]} · {group.entries.length}
+          </p>
+          <ul className="divide-y rounded-lg border border-gray-200 text-sm">
+            {group.entries.map((entry) => {
+              const reviewable = entry.kind !== "unchanged";
+              return (
+                <li key={entry.key} className="flex items-start gap-3 px-3 py-2">
+                  {reviewable ? (
+                    onToggle ? (
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={selected?.has(entry.key) ?? false}
+                        onChange={(event) => onToggle(entry.key, event.target.checked)}
+                        disabled={disabled}
+                        aria-label={`Apply ${entry.kind} ${entry.address || "job"}`}
+                      />
+                    ) : (
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        name="accept"
+                        value={entry.key}
+                        defaultChecked={isJobDiffEntryAcceptedByDefault(entry)}
+                        disabled={disabled}
+                        aria-label={`Apply ${entry.kind} ${entry.address || "job"}`}
+                      />
+                    )
+                  ) : (
+                    <span className="mt-1 inline-block w-[13px]" aria-hidden />
+                  )}
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${KIND_BADGES[entry.kind]}`}>
+                        {KIND_LABELS[entry.kind]}
+                      </span>
+                      <span className="font-medium text-gray-900">
+                        {entry.address || entry.planned?.client_name || entry.existing?.client_name || "Property"}
+                      </span>
+                      <span className="text-xs text-gray-600">
+                        {entry.dayOfWeek} · {entry.jobType === "bring_in" ? "Bring in" : "Put out"}
+                      </span>
+                    </div>
+                    {entry.changes.length ? (
+                      <ul className="space-y-0.5 text-xs text-gray-700">
+                        {entry.changes.map((change) => (
+                          <li key={change.field}>
+                            {FIELD_LABELS[change.field] ?? change.field}: {formatValue(change.from)} →{" "}
+                            {formatValue(change.to)}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                    {entry.overrides.length ? (
+                      <p className="text-xs text-gray-500">
+                        Keeps manual edits to{" "}
+                        {entry.overrides.map((override) => FIELD_LABELS[override.field] ?? override.field).join(", ")}.
+                      </p>
+                    ) : null}
+                    {entry.kind === "removed" && entry.existing?.status ? (
+                      <p className="text-xs text-gray-500">Current status: {entry.existing.status}</p>
+                    ) : null}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
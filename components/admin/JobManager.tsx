@@ -2,8 +2,12 @@
 
 import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
 import ConfirmDialog from "./ConfirmDialog";
+import BalanceDayPanel from "./BalanceDayPanel";
+import RecordHistoryDrawer from "./RecordHistoryDrawer";
 import { useSupabase } from "@/components/providers/SupabaseProvider";
 import type { JobRecord } from "@/lib/database.types";
+import { getOperationalDayName } from "@/lib/date";
+import { downloadCsv, exportFileName, toCsv, type CsvColumn } from "@/lib/csvExport";
 
 const DAY_OPTIONS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"] as const;
 const BIN_COLORS = ["Red", "Yellow", "Green"] as const;
@@ -172,8 +176,10 @@ export default function JobManager() {
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [dayFilter, setDayFilter] = useState<string>("");
   const [search, setSearch] = useState("");
+  const [showBalance, setShowBalance] = useState(false);
 
   const loadData = useCallback(async () => {
     setLoading(true);
@@ -264,6 +270,30 @@ export default function JobManager() {
     });
   }, [jobs, dayFilter, search, staffById]);
 
+  const handleExportCsv = () => {
+    const columns: CsvColumn<JobRecord>[] = [
+      { header: "Address", value: (job) => job.address },
+      { header: "Client", value: (job) => job.client_name },
+      {
+        header: "Job Type",
+        value: (job) => (job.job_type === "bring_in" ? "Bring in" : job.job_type === "put_out" ? "Put out" : job.job_type),
+      },
+      { header: "Day", value: (job) => job.day_of_week },
+      {
+        header: "Assigned To",
+        value: (job) => (job.assigned_to ? (staffById.get(job.assigned_to) ?? job.assigned_to) : null),
+      },
+      { header: "Bins", value: (job) => job.bins },
+      { header: "Status", value: (job) => job.status },
+      { header: "Last Completed", value: (job) => job.last_completed_on },
+      { header: "Notes", value: (job) => job.notes },
+      { header: "Account ID", value: (job) => job.account_id },
+      { header: "Property ID", value: (job) => job.property_id },
+      { header: "Job ID", value: (job) => job.id },
+    ];
+    downloadCsv(exportFileName("jobs", "csv"), toCsv(filteredJobs, columns));
+  };
+
   const selectedJob = useMemo(
     () => jobs.find((job) => job.id === selectedJobId) ?? null,
     [jobs, selectedJobId],
@@ -628,6 +658,22 @@ export default function JobManager() {
               >
                 Refresh
               </button>
+              <button
+                type="button"
+                onClick={handleExportCsv}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-800 transition hover:border-gray-400 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={loading || filteredJobs.length === 0}
+              >
+                Export CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowBalance(true)}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+                disabled={loading}
+              >
+                Balance day
+              </button>
               <button
                 type="button"
                 onClick={startCreate}
@@ -738,14 +784,24 @@ export default function JobManager() {
                   : "Select a job from the list to edit its details."}
               </p>
             </div>
-            <button
-              type="button"
-              onClick={() => setShowDeleteConfirm(true)}
-              disabled={deleting || !selectedJobId || isCreating}
-              className="rounded-lg border border-gray-400 px-3 py-1.5 text-xs font-semibold text-gray-800 transition hover:border-gray-500 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
-            >
-              {deleting ? "Deleting…" : "Delete"}
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setShowHistory(true)}
+                disabled={!selectedJobId || isCreating}
+                className="rounded-lg border border-gray-400 px-3 py-1.5 text-xs font-semibold text-gray-800 transition hover:border-gray-500 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                History
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowDeleteConfirm(true)}
+                disabled={deleting || !selectedJobId || isCreating}
+                className="rounded-lg border border-gray-400 px-3 py-1.5 text-xs font-semibold text-gray-800 transition hover:border-gray-500 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {deleting ? "Deleting…" : "Delete"}
+              </button>
+            </div>
           </div>
 
           {status && (
@@ -885,6 +941,30 @@ export default function JobManager() {
         </div>
       ) : null}
 
+      {showBalance ? (
+        <BalanceDayPanel
+          jobs={jobs}
+          staff={staff}
+          dayOptions={DAY_OPTIONS}
+          defaultDay={dayFilter || getOperationalDayName()}
+          onClose={() => setShowBalance(false)}
+          onApplied={(message) => {
+            setShowBalance(false);
+            setStatus({ type: "success", message });
+            void loadData();
+          }}
+        />
+      ) : null}
+
+      {showHistory && selectedJob && !isCreating ? (
+        <RecordHistoryDrawer
+          table="jobs"
+          rowId={selectedJob.id}
+          title={selectedJob.address ?? "Job"}
+          onClose={() => setShowHistory(false)}
+        />
+      ) : null}
+
       <ConfirmDialog
         open={showDeleteConfirm}
         title="Delete job"
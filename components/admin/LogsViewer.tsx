@@ -3,6 +3,10 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import ConfirmDialog from "./ConfirmDialog";
+import RetentionSettingsPanel from "./RetentionSettingsPanel";
+import ServiceReportPanel from "./ServiceReportPanel";
+import { PROOF_FLAG_LABELS, normalizeProofFlags } from "@/lib/proofVerification";
+import { normalizeProofPhotos, type StoredProofPhoto } from "@/lib/proofPhotos";
 
 export type LogsViewerLog = {
   id: string;
@@ -11,9 +15,37 @@ export type LogsViewerLog = {
   done_on: string | null;
   created_at: string | null;
   photo_path: string | null;
+  photos: StoredProofPhoto[] | null;
   bins: string | string[] | null;
   notes: string | null;
   user_id: string | null;
+  flagged: boolean | null;
+  verification_score: number | null;
+  verification_flags: string[] | null;
+  gps_distance_m: number | null;
+};
+
+type PurgePreview = {
+  logsDeleted: number;
+  logsStripped: number;
+  objects: number;
+  heldLogCount: number;
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const describePurgePreview = (preview: PurgePreview) => {
+  if (!preview.logsDeleted && !preview.logsStripped) {
+    return preview.heldLogCount
+      ? `Nothing can be purged. ${plural(preview.heldLogCount, "log")} past retention belong to accounts on legal hold.`
+      : "No logs or photos are past their retention window.";
+  }
+  const parts = [
+    `${plural(preview.logsDeleted, "log")} will be deleted with their photos`,
+    `photos will be removed from ${plural(preview.logsStripped, "other log")}`,
+  ];
+  const held = preview.heldLogCount ? ` ${plural(preview.heldLogCount, "log")} on legal hold will be kept.` : "";
+  return `${parts.join(" and ")} (${plural(preview.objects, "file")} in storage). This cannot be undone.${held}`;
 };
 
 type LogsViewerProps = {
@@ -29,16 +61,26 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
     "put_out" | "bring_in" | ""
   >("");
   const [selectedAssignee, setSelectedAssignee] = useState<string>("");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState<number | "all">(20);
-  const [proofPreview, setProofPreview] = useState<{ url: string; description: string } | null>(null);
+  const [proofPreview, setProofPreview] = useState<{
+    photos: { url: string; caption: string | null; capturedAt: string | null }[];
+    index: number;
+    description: string;
+  } | null>(null);
   const [notesPreview, setNotesPreview] = useState<string | null>(null);
   const [showPurgeConfirm, setShowPurgeConfirm] = useState(false);
   const [purging, setPurging] = useState(false);
+  const [checkingPurge, setCheckingPurge] = useState(false);
+  const [purgePreview, setPurgePreview] = useState<PurgePreview | null>(null);
+  const [purgeMessage, setPurgeMessage] = useState<string | null>(null);
+  const [showRetention, setShowRetention] = useState(false);
+  const [showServiceReport, setShowServiceReport] = useState(false);
 
   useEffect(() => {
     setPage(1);
-  }, [selectedAddress, selectedJobType, selectedAssignee, pageSize]);
+  }, [selectedAddress, selectedJobType, selectedAssignee, flaggedOnly, pageSize]);
 
   const addressOptions = useMemo(() => {
     const addresses = logs
@@ -58,9 +100,12 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
         (selectedAssignee === "__unassigned__"
           ? !log.user_id
           : log.user_id === selectedAssignee);
-      return matchesAddress && matchesJobType && matchesAssignee;
+      const matchesFlagged = !flaggedOnly || Boolean(log.flagged);
+      return matchesAddress && matchesJobType && matchesAssignee && matchesFlagged;
     });
-  }, [logs, selectedAddress, selectedJobType, selectedAssignee]);
+  }, [logs, selectedAddress, selectedJobType, selectedAssignee, flaggedOnly]);
+
+  const flaggedCount = useMemo(() => logs.filter((log) => log.flagged).length, [logs]);
 
   const totalPages = useMemo(() => {
     if (pageSize === "all") return 1;
@@ -110,6 +155,15 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
     return "Task";
   };
 
+  const flagSummary = (log: LogsViewerLog) => {
+    const reasons = normalizeProofFlags(log.verification_flags).map((flag) => PROOF_FLAG_LABELS[flag]);
+    const details = [
+      log.verification_score !== null ? `Score ${log.verification_score}/100` : null,
+      log.gps_distance_m !== null ? `${Math.round(log.gps_distance_m)} m from property` : null,
+    ].filter(Boolean);
+    return { reasons, details: details.join(" · ") };
+  };
+
   const binsLabel = (bins: string | string[] | null) => {
     if (!bins) return [] as string[];
     const list = Array.isArray(bins) ? bins : bins.split(",");
@@ -127,13 +181,33 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
     return "bg-gray-100 text-gray-800 border-gray-200";
   };
 
+  const handleOpenPurge = async () => {
+    try {
+      setCheckingPurge(true);
+      setPurgeMessage(null);
+      const response = await fetch("/api/admin/logs/purge-old");
+      if (!response.ok) {
+        throw new Error("Unable to preview the purge");
+      }
+      setPurgePreview((await response.json()) as PurgePreview);
+      setShowPurgeConfirm(true);
+    } catch (error) {
+      console.error(error);
+      alert("Failed to check which logs are due for deletion. Please try again.");
+    } finally {
+      setCheckingPurge(false);
+    }
+  };
+
   const handlePurgeOldLogs = async () => {
     try {
       setPurging(true);
       const response = await fetch("/api/admin/logs/purge-old", { method: "POST" });
+      const result = (await response.json().catch(() => null)) as { message?: string } | null;
       if (!response.ok) {
-        throw new Error("Unable to delete old logs");
+        throw new Error(result?.message ?? "Unable to delete old logs");
       }
+      setPurgeMessage(result?.message ?? null);
       router.refresh();
       return true;
     } catch (error) {
@@ -155,16 +229,38 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
               Review completed work, timestamps, and access proof photos shared with clients.
             </p>
           </div>
-          <button
-            type="button"
-            onClick={() => setShowPurgeConfirm(true)}
-            disabled={purging}
-            className="inline-flex items-center justify-center rounded-full px-4 py-2 text-sm font-semibold transition disabled:cursor-not-allowed disabled:opacity-60 bg-red-600 text-white shadow hover:bg-red-700"
-          >
-            {purging ? "Deleting…" : "Purge Old Logs"}
-          </button>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setShowServiceReport(true)}
+              className="inline-flex items-center justify-center rounded-full border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+            >
+              Service report
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowRetention(true)}
+              className="inline-flex items-center justify-center rounded-full border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+            >
+              Retention
+            </button>
+            <button
+              type="button"
+              onClick={handleOpenPurge}
+              disabled={purging || checkingPurge}
+              className="inline-flex items-center justify-center rounded-full px-4 py-2 text-sm font-semibold transition disabled:cursor-not-allowed disabled:opacity-60 bg-red-600 text-white shadow hover:bg-red-700"
+            >
+              {purging ? "Deleting…" : checkingPurge ? "Checking…" : "Purge Old Logs"}
+            </button>
+          </div>
         </div>
 
+        {purgeMessage && (
+          <div className="rounded-lg border border-green-300 bg-green-50 px-3 py-2 text-sm text-green-800">
+            Purge complete: {purgeMessage}
+          </div>
+        )}
+
         <div className="flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between lg:gap-4">
           <div className="grid w-full gap-3 sm:grid-cols-2 lg:w-auto lg:grid-cols-3 lg:items-end lg:gap-4">
             <label className="flex w-full flex-col text-sm text-gray-900">
@@ -237,18 +333,48 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
                 </button>
               );
             })}
+            <button
+              type="button"
+              onClick={() => setFlaggedOnly((current) => !current)}
+              aria-pressed={flaggedOnly}
+              className={`rounded-full px-4 py-2 text-sm font-semibold transition ${
+                flaggedOnly
+                  ? "bg-red-600 text-white shadow"
+                  : "border border-red-200 bg-white text-red-700 hover:border-red-300"
+              }`}
+            >
+              Flagged{flaggedCount ? ` (${flaggedCount})` : ""}
+            </button>
           </div>
         </div>
       </div>
       {logs.length === 0 ? (
         <p className="text-sm text-gray-700">No logs yet.</p>
       ) : filteredLogs.length === 0 ? (
-        <p className="text-sm text-gray-700">No logs match that address.</p>
+        <p className="text-sm text-gray-700">No logs match those filters.</p>
       ) : (
         <ul className="space-y-3">
           {visibleLogs.map((log) => {
-            const proofUrl = log.photo_path ? signedUrls[log.photo_path] : undefined;
+            const proofPhotos = normalizeProofPhotos(log.photos, log.photo_path).flatMap((photo) =>
+              signedUrls[photo.path]
+                ? [
+                    {
+                      url: signedUrls[photo.path],
+                      thumbnailUrl: photo.thumbnailPath ? signedUrls[photo.thumbnailPath] : undefined,
+                      caption: photo.caption,
+                      capturedAt: photo.capturedAt,
+                    },
+                  ]
+                : [],
+            );
+            const openProof = (index: number) =>
+              setProofPreview({
+                photos: proofPhotos,
+                index,
+                description: `${taskLabel(log.task_type)} proof for ${log.address ?? "property"}`,
+              });
             const binList = binsLabel(log.bins);
+            const flags = log.flagged ? flagSummary(log) : null;
 
             return (
               <li key={log.id} className="rounded-2xl border border-gray-200 bg-white p-4 shadow-sm">
@@ -272,11 +398,36 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
                             ))}
                           </div>
                         )}
+                        {flags && (
+                          <span
+                            title={flags.details || undefined}
+                            className="inline-flex items-center rounded-full border border-red-200 bg-red-50 px-3 py-1 font-semibold text-red-700"
+                          >
+                            Flagged{flags.reasons.length ? `: ${flags.reasons.join(", ")}` : ""}
+                          </span>
+                        )}
                         <span className="text-gray-700">
                           Assignee: {log.user_id ? assigneeLookup[log.user_id] ?? "Team member" : "Unassigned"}
                         </span>
                       </div>
                     </div>
+                    {proofPhotos.some((photo) => photo.thumbnailUrl) && (
+                      <div className="flex flex-wrap gap-2">
+                        {proofPhotos.map((photo, photoIndex) =>
+                          photo.thumbnailUrl ? (
+                            <button
+                              key={photo.url}
+                              type="button"
+                              onClick={() => openProof(photoIndex)}
+                              aria-label={photo.caption ?? `Proof photo ${photoIndex + 1}`}
+                              title={photo.caption ?? undefined}
+                              style={{ backgroundImage: `url("${photo.thumbnailUrl}")` }}
+                              className="h-16 w-16 rounded-lg border border-gray-200 bg-gray-100 bg-cover bg-center transition hover:border-gray-400"
+                            />
+                          ) : null,
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="flex w-full flex-col items-start gap-3 text-xs text-gray-600 sm:w-auto sm:items-end sm:text-right">
                     {(log.created_at || log.done_on) && (
@@ -294,18 +445,13 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
                           View notes
                         </button>
                       ) : null}
-                      {proofUrl && (
+                      {proofPhotos.length > 0 && (
                         <button
                           type="button"
-                          onClick={() =>
-                            setProofPreview({
-                              url: proofUrl,
-                              description: `${taskLabel(log.task_type)} proof for ${log.address ?? "property"}`,
-                            })
-                          }
+                          onClick={() => openProof(0)}
                           className="inline-flex items-center justify-center rounded-lg border border-gray-300 px-3 py-2 text-xs font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
                         >
-                          View proof
+                          {proofPhotos.length > 1 ? `View proof (${proofPhotos.length} photos)` : "View proof"}
                         </button>
                       )}
                     </div>
@@ -349,7 +495,7 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
       <ConfirmDialog
         open={showPurgeConfirm}
         title="Purge old logs"
-        description="This will permanently delete old log entries. Are you sure you want to continue?"
+        description={purgePreview ? describePurgePreview(purgePreview) : undefined}
         confirmLabel={purging ? "Deleting…" : "Purge logs"}
         onCancel={() => {
           if (!purging) setShowPurgeConfirm(false);
@@ -361,6 +507,8 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
         loading={purging}
         destructive
       />
+      {showRetention ? <RetentionSettingsPanel onClose={() => setShowRetention(false)} /> : null}
+      {showServiceReport ? <ServiceReportPanel onClose={() => setShowServiceReport(false)} /> : null}
       {proofPreview ? (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
@@ -380,11 +528,64 @@ export default function LogsViewer({ logs, signedUrls, assigneeLookup }: LogsVie
             </button>
             <div className="mt-4 flex justify-center">
               <img
-                src={proofPreview.url}
-                alt={proofPreview.description}
+                src={proofPreview.photos[proofPreview.index].url}
+                alt={proofPreview.photos[proofPreview.index].caption ?? proofPreview.description}
                 className="max-h-[70vh] w-full rounded-xl object-contain"
               />
             </div>
+            {(proofPreview.photos[proofPreview.index].caption ||
+              proofPreview.photos[proofPreview.index].capturedAt ||
+              proofPreview.photos.length > 1) && (
+              <div className="mt-3 flex items-center justify-between gap-3 text-sm text-gray-800">
+                {proofPreview.photos.length > 1 ? (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setProofPreview((current) =>
+                        current
+                          ? { ...current, index: (current.index + current.photos.length - 1) % current.photos.length }
+                          : current,
+                      )
+                    }
+                    className="rounded-full border border-gray-300 px-3 py-1 text-xs font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+                  >
+                    Previous
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <div className="text-center">
+                  {proofPreview.photos[proofPreview.index].caption && (
+                    <p className="font-medium text-gray-900">{proofPreview.photos[proofPreview.index].caption}</p>
+                  )}
+                  {proofPreview.photos[proofPreview.index].capturedAt && (
+                    <p className="text-xs text-gray-600">
+                      Taken {formatTimestamp(proofPreview.photos[proofPreview.index].capturedAt!)}
+                    </p>
+                  )}
+                  {proofPreview.photos.length > 1 && (
+                    <p className="text-xs text-gray-600">
+                      Photo {proofPreview.index + 1} of {proofPreview.photos.length}
+                    </p>
+                  )}
+                </div>
+                {proofPreview.photos.length > 1 ? (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setProofPreview((current) =>
+                        current ? { ...current, index: (current.index + 1) % current.photos.length } : current,
+                      )
+                    }
+                    className="rounded-full border border-gray-300 px-3 py-1 text-xs font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+                  >
+                    Next
+                  </button>
+                ) : (
+                  <span />
+                )}
+              </div>
+            )}
           </div>
         </div>
       ) : null}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  allowedActionsFor,
+  type PropertyRequestAction,
+  type PropertyRequestStatus,
+} from "@/lib/propertyRequests";
+
+type PropertyRequestActionsProps = {
+  requestId: string;
+  status: PropertyRequestStatus;
+};
+
+const ACTION_LABELS: Record<PropertyRequestAction, { idle: string; busy: string }> = {
+  approve: { idle: "Approve", busy: "Approving…" },
+  reject: { idle: "Reject", busy: "Rejecting…" },
+  convert: { idle: "Add to client list", busy: "Adding…" },
+};
+
+export default function PropertyRequestActions({ requestId, status }: PropertyRequestActionsProps) {
+  const router = useRouter();
+  const [pendingAction, setPendingAction] = useState<PropertyRequestAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const actions = allowedActionsFor(status);
+
+  if (!actions.length) return null;
+
+  const handleAction = async (action: PropertyRequestAction) => {
+    setPendingAction(action);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/property-requests/${encodeURIComponent(requestId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+
+      const payload = (await response.json().catch(() => null)) as { message?: string } | null;
+      if (!response.ok) {
+        setError(payload?.message ?? "Unable to update this request.");
+        return;
+      }
+
+      router.refresh();
+    } catch (actionError) {
+      console.error("Failed to update property request", actionError);
+      setError(actionError instanceof Error ? actionError.message : "Unable to update this request.");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {actions.map((action) => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => handleAction(action)}
+            disabled={pendingAction !== null}
+            className={`rounded-lg px-3 py-1 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-60 ${
+              action === "convert"
+                ? "bg-gray-900 text-white hover:bg-gray-700"
+                : "border border-gray-300 text-gray-800 hover:border-gray-400 hover:text-gray-900"
+            }`}
+          >
+            {pendingAction === action ? ACTION_LABELS[action].busy : ACTION_LABELS[action].idle}
+          </button>
+        ))}
+      </div>
+      {error ? <p className="text-xs text-red-700">{error}</p> : null}
+    </div>
+  );
+}
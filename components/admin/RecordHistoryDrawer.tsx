@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSupabase } from "@/components/providers/SupabaseProvider";
+import { AUDIT_COLUMNS, type AuditEntry, type AuditedTable } from "@/lib/audit";
+import AuditChangeList from "./AuditChangeList";
+
+type RecordHistoryDrawerProps = {
+  table: AuditedTable;
+  rowId: string;
+  title: string;
+  onClose: () => void;
+};
+
+const HISTORY_LIMIT = 50;
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-AU", { dateStyle: "medium", timeStyle: "short" });
+
+export default function RecordHistoryDrawer({ table, rowId, title, onClose }: RecordHistoryDrawerProps) {
+  const supabase = useSupabase();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: loadError } = await supabase
+        .from("audit_log")
+        .select(AUDIT_COLUMNS)
+        .eq("table_name", table)
+        .eq("row_id", rowId)
+        .order("created_at", { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (cancelled) return;
+      if (loadError) {
+        console.error("Failed to load record history", loadError);
+        setError("Unable to load the change history.");
+        setEntries([]);
+        setLoading(false);
+        return;
+      }
+
+      const history = (data ?? []) as AuditEntry[];
+      const actorIds = Array.from(
+        new Set(history.map((entry) => entry.actor_id).filter((value): value is string => Boolean(value))),
+      );
+      const names: Record<string, string> = {};
+      if (actorIds.length) {
+        const { data: profiles } = await supabase
+          .from("user_profile")
+          .select("user_id, full_name")
+          .in("user_id", actorIds);
+        for (const profile of profiles ?? []) {
+          names[profile.user_id] = profile.full_name?.trim().length ? profile.full_name : "Team member";
+        }
+      }
+
+      if (cancelled) return;
+      setEntries(history);
+      setActorNames(names);
+      setLoading(false);
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, table, rowId]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black/50"
+      onClick={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div className="flex h-full w-full max-w-md flex-col bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-gray-200 px-5 py-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900">History</h3>
+            <p className="truncate text-xs text-gray-600" title={title}>
+              {title}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-lg font-semibold text-gray-600 transition hover:text-gray-900"
+            aria-label="Close history"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-3 overflow-y-auto px-5 py-4">
+          {error && (
+            <div className="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-800">{error}</div>
+          )}
+          {loading ? (
+            <p className="text-sm text-gray-700">Loading history…</p>
+          ) : !error && entries.length === 0 ? (
+            <p className="text-sm text-gray-700">No admin changes have been recorded for this record yet.</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="space-y-2 rounded-lg border border-gray-200 bg-gray-50 p-3">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-semibold text-gray-900">
+                    {ACTION_LABELS[entry.action]} by{" "}
+                    {entry.actor_id ? (actorNames[entry.actor_id] ?? "Unknown user") : "System"}
+                  </span>
+                  <span className="whitespace-nowrap text-gray-600">{formatDateTime(entry.created_at)}</span>
+                </div>
+                <AuditChangeList entry={entry} />
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
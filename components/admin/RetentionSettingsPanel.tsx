@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useSupabase } from "@/components/providers/SupabaseProvider";
+import { buildAccountOptions, type AccountOption } from "@/lib/accountOptions";
+import {
+  DEFAULT_RETENTION_POLICY,
+  MAX_RETENTION_DAYS,
+  MIN_RETENTION_DAYS,
+  normalizeRetentionPolicy,
+  type RetentionHoldRow,
+  type RetentionPolicy,
+} from "@/lib/retention";
+
+type RetentionSettingsPanelProps = {
+  onClose: () => void;
+};
+
+const POLICY_FIELDS: { key: keyof RetentionPolicy; label: string; hint: string }[] = [
+  { key: "logDays", label: "Logs", hint: "Delete log entries and their photos after this many days." },
+  { key: "photoDays", label: "Proof photos", hint: "Remove photos sooner while keeping the log entry." },
+  { key: "flaggedDays", label: "Flagged proofs", hint: "Keep flagged proofs and their photos this long instead." },
+];
+
+export default function RetentionSettingsPanel({ onClose }: RetentionSettingsPanelProps) {
+  const supabase = useSupabase();
+  const [policy, setPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [holds, setHolds] = useState<RetentionHoldRow[]>([]);
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [holdAccountId, setHoldAccountId] = useState("");
+  const [holdReason, setHoldReason] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const [settingsResult, holdsResult, accountsResult] = await Promise.all([
+        supabase.from("retention_settings").select("log_days, photo_days, flagged_days").maybeSingle(),
+        supabase
+          .from("retention_holds")
+          .select("account_id, reason, created_by, created_at")
+          .order("created_at", { ascending: false }),
+        supabase.from("client_list").select("account_id, company, client_name"),
+      ]);
+      if (cancelled) return;
+
+      if (settingsResult.error || holdsResult.error) {
+        console.error("Failed to load retention settings", settingsResult.error ?? holdsResult.error);
+        setError("Unable to load retention settings.");
+      }
+
+      setPolicy(normalizeRetentionPolicy(settingsResult.data));
+      setHolds((holdsResult.data ?? []) as RetentionHoldRow[]);
+
+      setAccounts(buildAccountOptions(accountsResult.data ?? []));
+      setLoading(false);
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, reloadKey]);
+
+  const accountNameById = useMemo(() => new Map(accounts.map((account) => [account.id, account.name])), [accounts]);
+  const heldIds = useMemo(() => new Set(holds.map((hold) => hold.account_id)), [holds]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    const next = normalizeRetentionPolicy({
+      log_days: policy.logDays,
+      photo_days: policy.photoDays,
+      flagged_days: policy.flaggedDays,
+    });
+    const { error: saveError } = await supabase.from("retention_settings").upsert({
+      id: true,
+      log_days: next.logDays,
+      photo_days: next.photoDays,
+      flagged_days: next.flaggedDays,
+      updated_at: new Date().toISOString(),
+    });
+    setSaving(false);
+    if (saveError) {
+      console.error("Failed to save retention settings", saveError);
+      setError("Unable to save retention settings.");
+      return;
+    }
+    setPolicy(next);
+    setMessage("Retention settings saved.");
+  };
+
+  const handleAddHold = async () => {
+    if (!holdAccountId) return;
+    setError(null);
+    setMessage(null);
+    const { error: holdError } = await supabase
+      .from("retention_holds")
+      .insert({ account_id: holdAccountId, reason: holdReason.trim() || null });
+    if (holdError) {
+      console.error("Failed to add legal hold", holdError);
+      setError("Unable to place the legal hold.");
+      return;
+    }
+    setHoldAccountId("");
+    setHoldReason("");
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleReleaseHold = async (accountId: string) => {
+    setError(null);
+    setMessage(null);
+    const { error: releaseError } = await supabase.from("retention_holds").delete().eq("account_id", accountId);
+    if (releaseError) {
+      console.error("Failed to release legal hold", releaseError);
+      setError("Unable to release the legal hold.");
+      return;
+    }
+    setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="relative max-h-[90vh] w-full max-w-2xl space-y-4 overflow-y-auto rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Retention</h3>
+            <p className="text-xs text-gray-600">How long logs and proof photos are kept before a purge removes them.</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-lg font-semibold text-gray-600 transition hover:text-gray-900"
+            aria-label="Close retention settings"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-800">{error}</div>
+        )}
+        {message && (
+          <div className="rounded-lg border border-green-300 bg-green-50 px-3 py-2 text-sm text-green-800">
+            {message}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-700">Loading retention settings…</p>
+        ) : (
+          <>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {POLICY_FIELDS.map((field) => (
+                <label key={field.key} className="flex flex-col text-sm text-gray-900">
+                  <span className="font-medium text-gray-800">{field.label} (days)</span>
+                  <input
+                    type="number"
+                    min={MIN_RETENTION_DAYS}
+                    max={MAX_RETENTION_DAYS}
+                    value={policy[field.key]}
+                    onChange={(event) =>
+                      setPolicy((current) => ({ ...current, [field.key]: Number(event.target.value) }))
+                    }
+                    className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                  />
+                  <span className="mt-1 text-xs text-gray-600">{field.hint}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {saving ? "Saving…" : "Save windows"}
+              </button>
+            </div>
+
+            <div className="space-y-3 border-t border-gray-200 pt-4">
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900">Legal holds</h4>
+                <p className="text-xs text-gray-600">Nothing belonging to an account on hold is purged.</p>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_auto] sm:items-end">
+                <label className="flex flex-col text-sm text-gray-900">
+                  <span className="font-medium text-gray-800">Account</span>
+                  <select
+                    value={holdAccountId}
+                    onChange={(event) => setHoldAccountId(event.target.value)}
+                    className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                  >
+                    <option value="">Select an account</option>
+                    {accounts
+                      .filter((account) => !heldIds.has(account.id))
+                      .map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <label className="flex flex-col text-sm text-gray-900">
+                  <span className="font-medium text-gray-800">Reason</span>
+                  <input
+                    type="text"
+                    value={holdReason}
+                    onChange={(event) => setHoldReason(event.target.value)}
+                    maxLength={200}
+                    className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={handleAddHold}
+                  disabled={!holdAccountId}
+                  className="rounded-lg border border-gray-400 px-3 py-2 text-sm font-semibold text-gray-800 transition hover:border-gray-500 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Place hold
+                </button>
+              </div>
+              {holds.length === 0 ? (
+                <p className="text-sm text-gray-700">No accounts are on hold.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200">
+                  {holds.map((hold) => (
+                    <li key={hold.account_id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium text-gray-900">
+                          {accountNameById.get(hold.account_id) ?? hold.account_id}
+                        </p>
+                        <p className="truncate text-xs text-gray-600">
+                          {hold.reason ?? "No reason given"} · since{" "}
+                          {new Date(hold.created_at).toLocaleDateString("en-AU", { dateStyle: "medium" })}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleReleaseHold(hold.account_id)}
+                        className="rounded-lg border border-gray-300 px-3 py-1 text-xs font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+                      >
+                        Release
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { saveAs } from "file-saver";
+import { useSupabase } from "@/components/providers/SupabaseProvider";
+import { buildAccountOptions, type AccountOption } from "@/lib/accountOptions";
+import {
+  SERVICE_REPORT_LOG_COLUMNS,
+  buildServiceReportEntries,
+  renderServiceReportPdf,
+  serviceReportFileName,
+  serviceReportMonthRange,
+  type ServiceReportLog,
+} from "@/lib/serviceReport";
+
+type ServiceReportPanelProps = {
+  onClose: () => void;
+};
+
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Unable to read image."));
+    reader.readAsDataURL(blob);
+  });
+
+export default function ServiceReportPanel({ onClose }: ServiceReportPanelProps) {
+  const supabase = useSupabase();
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [accountId, setAccountId] = useState("");
+  const [month, setMonth] = useState(previousMonth);
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAccounts = async () => {
+      const { data, error: loadError } = await supabase.from("client_list").select("account_id, company, client_name");
+      if (cancelled) return;
+      if (loadError) {
+        console.error("Failed to load accounts", loadError);
+        setError("Unable to load accounts.");
+        return;
+      }
+      setAccounts(buildAccountOptions(data ?? []));
+    };
+
+    void loadAccounts();
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase]);
+
+  const handleGenerate = async () => {
+    const account = accounts.find((option) => option.id === accountId);
+    const range = serviceReportMonthRange(month);
+    if (!account || !range) return;
+
+    setGenerating(true);
+    setError(null);
+    setProgress("Loading logs…");
+    try {
+      const { data, error: logsError } = await supabase
+        .from("logs")
+        .select(SERVICE_REPORT_LOG_COLUMNS)
+        .eq("account_id", account.id)
+        .gte("done_on", range.from)
+        .lte("done_on", range.to)
+        .order("done_on", { ascending: true });
+      if (logsError) throw logsError;
+
+      const entries = buildServiceReportEntries((data ?? []) as ServiceReportLog[]);
+      const imagePaths = Array.from(
+        new Set(entries.map((entry) => entry.imagePath).filter((path): path is string => Boolean(path))),
+      );
+
+      const images: Record<string, string> = {};
+      if (imagePaths.length) {
+        const { data: signed, error: signError } = await supabase.storage
+          .from("proofs")
+          .createSignedUrls(imagePaths, 10 * 60);
+        if (signError) throw signError;
+
+        // One at a time keeps memory flat on large portfolios.
+        let loaded = 0;
+        for (const entry of signed ?? []) {
+          loaded += 1;
+          setProgress(`Loading photos (${loaded} of ${imagePaths.length})…`);
+          if (!entry.path || !entry.signedUrl) continue;
+          try {
+            const response = await fetch(entry.signedUrl);
+            if (!response.ok) continue;
+            images[entry.path] = await blobToDataUrl(await response.blob());
+          } catch (imageError) {
+            console.warn("Unable to load proof image for report", imageError);
+          }
+        }
+      }
+
+      setProgress("Building PDF…");
+      const doc = renderServiceReportPdf({ accountName: account.name, month, entries, images });
+      saveAs(doc.output("blob"), serviceReportFileName(account.name, month));
+      setProgress(`Report ready: ${entries.length} visit${entries.length === 1 ? "" : "s"}.`);
+    } catch (generateError) {
+      console.error("Failed to generate service report", generateError);
+      setError("Unable to generate the service report. Please try again.");
+      setProgress(null);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="relative w-full max-w-lg space-y-4 rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Service report</h3>
+            <p className="text-xs text-gray-600">
+              A PDF of one account&apos;s services for a month, with proof photos, for committees and councils.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={generating}
+            className="text-lg font-semibold text-gray-600 transition hover:text-gray-900 disabled:opacity-60"
+            aria-label="Close service report"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-800">{error}</div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col text-sm text-gray-900">
+            <span className="font-medium text-gray-800">Account</span>
+            <select
+              value={accountId}
+              onChange={(event) => setAccountId(event.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+            >
+              <option value="">Select an account</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-sm text-gray-900">
+            <span className="font-medium text-gray-800">Month</span>
+            <input
+              type="month"
+              value={month}
+              onChange={(event) => setMonth(event.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+            />
+          </label>
+        </div>
+
+        {progress && <p className="text-sm text-gray-700">{progress}</p>}
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={generating || !accountId || !serviceReportMonthRange(month)}
+            className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {generating ? "Generating…" : "Download PDF"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
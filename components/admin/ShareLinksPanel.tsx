@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { useShareLinks } from "@/hooks/useShareLinks";
+import { DEFAULT_SHARE_LINK_EXPIRY_DAYS, SHARE_LINK_EXPIRY_DAYS, isShareLinkExpired } from "@/lib/shareLinks";
+
+type ShareLinksPanelProps = {
+  accountId: string;
+  accountName: string;
+  propertyId: string;
+  propertyLabel: string;
+  onClose: () => void;
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-AU", { dateStyle: "medium", timeStyle: "short" });
+
+export default function ShareLinksPanel({
+  accountId,
+  accountName,
+  propertyId,
+  propertyLabel,
+  onClose,
+}: ShareLinksPanelProps) {
+  const { links, loading, error, create, revoke } = useShareLinks(accountId);
+  const [expiresInDays, setExpiresInDays] = useState<number>(DEFAULT_SHARE_LINK_EXPIRY_DAYS);
+  const [onlyThisProperty, setOnlyThisProperty] = useState(false);
+  const [label, setLabel] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setCreatedUrl(null);
+    const url = await create({
+      expiresInDays,
+      label: label || null,
+      propertyIds: onlyThisProperty ? [propertyId] : [],
+    });
+    setCreating(false);
+    if (url) {
+      setCreatedUrl(url);
+      setLabel("");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="relative max-h-[90vh] w-full max-w-2xl space-y-4 overflow-y-auto rounded-2xl bg-white p-6 shadow-xl">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Share links</h3>
+            <p className="text-xs text-gray-600">Read-only portal links for {accountName}.</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-lg font-semibold text-gray-600 transition hover:text-gray-900"
+            aria-label="Close share links"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-800">{error}</div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col text-sm text-gray-900">
+            <span className="font-medium text-gray-800">Label</span>
+            <input
+              type="text"
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              maxLength={120}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+            />
+          </label>
+          <label className="flex flex-col text-sm text-gray-900">
+            <span className="font-medium text-gray-800">Expires after</span>
+            <select
+              value={expiresInDays}
+              onChange={(event) => setExpiresInDays(Number(event.target.value))}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 pr-10 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-300"
+            >
+              {SHARE_LINK_EXPIRY_DAYS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 1 ? "1 day" : `${days} days`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-900">
+          <input
+            type="checkbox"
+            checked={onlyThisProperty}
+            onChange={(event) => setOnlyThisProperty(event.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-gray-900 focus:ring-gray-400"
+          />
+          Only share {propertyLabel}
+        </label>
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={creating}
+            className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {creating ? "Creating…" : "Create link"}
+          </button>
+        </div>
+
+        {createdUrl && (
+          <div className="rounded-lg border border-green-300 bg-green-50 px-3 py-2 text-sm text-green-800">
+            <p>Copy this link now. It won&apos;t be shown again.</p>
+            <p className="mt-1 break-all font-medium">{createdUrl}</p>
+          </div>
+        )}
+
+        <div>
+          <h4 className="mb-2 text-sm font-semibold text-gray-900">Active links</h4>
+          {loading && links.length === 0 ? (
+            <p className="text-sm text-gray-600">Loading…</p>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-600">No share links for this account.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200">
+              {links.map((link) => {
+                const expired = isShareLinkExpired(link.expires_at);
+                return (
+                  <li key={link.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">{link.label ?? "Share link"}</p>
+                      <p className="text-xs text-gray-600">
+                        {link.property_ids?.length ? `${link.property_ids.length} properties` : "All properties"} ·{" "}
+                        {expired ? "Expired" : "Expires"} {formatDateTime(link.expires_at)}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => void revoke(link.id)}
+                      className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-semibold text-gray-800 transition hover:border-gray-400 hover:text-gray-900"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
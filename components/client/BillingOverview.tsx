@@ -6,6 +6,7 @@ import { addMonths, format, startOfMonth } from 'date-fns'
 import { CreditCardIcon } from '@heroicons/react/24/outline'
 import { useClientPortal } from './ClientPortalProvider'
 import { AddPropertyDialog } from './AddPropertyDialog'
+import { accountRoleCan } from '@/lib/accountMembers'
 
 type BillingRow = {
   id: string
@@ -94,6 +95,8 @@ const BILLING_PORTAL_URL =
 export function BillingOverview() {
   const { properties, user, selectedAccount } = useClientPortal()
   const [isAddPropertyOpen, setAddPropertyOpen] = useState(false)
+  const canManagePlan = accountRoleCan(selectedAccount?.role, 'edit_settings')
+  const canRequestProperties = accountRoleCan(selectedAccount?.role, 'request_properties')
 
   const currencyFormatter = useMemo(
     () =>
@@ -206,21 +209,25 @@ export function BillingOverview() {
               <CreditCardIcon className="h-5 w-5" /> Property plan summary
             </span>
             <div className="flex flex-wrap gap-3">
-              <Link
-                href={BILLING_PORTAL_URL}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full bg-binbird-red px-6 py-3 text-sm font-semibold text-white transition hover:bg-red-500"
-              >
-                Manage plan
-              </Link>
-              <button
-                type="button"
-                onClick={handleAddProperty}
-                className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full bg-binbird-red px-6 py-3 text-sm font-semibold text-white transition hover:bg-red-500"
-              >
-                Add property
-              </button>
+              {canManagePlan && (
+                <Link
+                  href={BILLING_PORTAL_URL}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full bg-binbird-red px-6 py-3 text-sm font-semibold text-white transition hover:bg-red-500"
+                >
+                  Manage plan
+                </Link>
+              )}
+              {canRequestProperties && (
+                <button
+                  type="button"
+                  onClick={handleAddProperty}
+                  className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full bg-binbird-red px-6 py-3 text-sm font-semibold text-white transition hover:bg-red-500"
+                >
+                  Add property
+                </button>
+              )}
             </div>
           </header>
           {stats.rows.length === 0 ? (
@@ -4,6 +4,15 @@ import { createContext, useCallback, useContext, useEffect, useMemo, useRef, use
 import { useRouter } from 'next/navigation'
 import type { Session, User } from '@supabase/supabase-js'
 import { normaliseBinList } from '@/lib/binLabels'
+import { loadAccountMemberships, type AccountRole } from '@/lib/accountMembers'
+import {
+  mergeNotificationPrefs,
+  type NotificationMetadata,
+  type NotificationPreferences,
+} from '@/lib/notificationPreferences'
+import { etaMinutesUntil } from '@/lib/eta'
+import { SKIP_TASK_TYPE, describeSkipReason } from '@/lib/jobSkips'
+import { normalizeProofPhotos, proofPhotoCaptions } from '@/lib/proofPhotos'
 import { useSupabase } from '@/components/providers/SupabaseProvider'
 import {
   addMinutes,
@@ -17,7 +26,7 @@ import {
 } from 'date-fns'
 import type { Day } from 'date-fns'
 
-export type ClientAccountRole = 'owner' | 'manager' | 'viewer'
+export type ClientAccountRole = AccountRole
 
 export type ClientAccount = {
   id: string
@@ -71,10 +80,13 @@ export type Job = {
   status: JobStatus
   scheduledAt: string
   etaMinutes?: number | null
+  etaAt?: string | null
   startedAt?: string | null
   completedAt?: string | null
   crewName?: string | null
   proofPhotoKeys?: string[] | null
+  /** Captions keyed by photo key; photos without one are left out. */
+  proofPhotoCaptions?: Record<string, string> | null
   proofUploadedAt?: string | null
   routePolyline?: string | null
   lastLatitude?: number | null
@@ -82,22 +94,14 @@ export type Job = {
   notes?: string | null
   jobType?: string | null
   bins?: string[]
+  skipReason?: string | null
 }
 
-export type NotificationPreferences = {
-  accountId: string
-  userId: string
-  emailEnRoute: boolean
-  pushEnRoute: boolean
-  emailOnSite: boolean
-  pushOnSite: boolean
-  emailJobComplete: boolean
-  pushJobComplete: boolean
-  emailBilling: boolean
-  pushBilling: boolean
-  emailPropertyAlerts: boolean
-  pushPropertyAlerts: boolean
-}
+export type { NotificationPreferences }
+
+/** Progress the crew has recorded on a job row that hasn't been completed yet. */
+export const liveJobStatus = (value: unknown): JobStatus | null =>
+  value === 'en_route' || value === 'on_site' ? value : null
 
 export type ClientProfile = {
   id: string
@@ -134,23 +138,6 @@ type ClientListRow = {
   membership_start: string | null
 }
 
-type NotificationMetadata = {
-  [accountId: string]: {
-    emailEnRoute?: boolean
-    pushEnRoute?: boolean
-    emailOnSite?: boolean
-    pushOnSite?: boolean
-    emailJobComplete?: boolean
-    pushJobComplete?: boolean
-    emailRouteUpdates?: boolean
-    pushRouteUpdates?: boolean
-    emailBilling?: boolean
-    pushBilling?: boolean
-    emailPropertyAlerts?: boolean
-    pushPropertyAlerts?: boolean
-  }
-}
-
 export type ClientPortalContextValue = {
   session: Session | null
   user: User | null
@@ -175,21 +162,6 @@ export type ClientPortalContextValue = {
 
 const ClientPortalContext = createContext<ClientPortalContextValue | undefined>(undefined)
 
-const DEFAULT_NOTIFICATION_PREFS: NotificationPreferences = {
-  accountId: 'primary',
-  userId: 'unknown',
-  emailEnRoute: true,
-  pushEnRoute: true,
-  emailOnSite: true,
-  pushOnSite: true,
-  emailJobComplete: true,
-  pushJobComplete: true,
-  emailBilling: false,
-  pushBilling: false,
-  emailPropertyAlerts: false,
-  pushPropertyAlerts: false,
-}
-
 const WEEKDAY_LOOKUP: Record<string, Day> = {
   sunday: 0,
   monday: 1,
@@ -408,31 +380,6 @@ const toProperty = (row: ClientListRow): Property => {
   }
 }
 
-const mergeNotificationPrefs = (
-  accountId: string,
-  userId: string,
-  metadata: NotificationMetadata | undefined,
-): NotificationPreferences => {
-  const stored = metadata?.[accountId] ?? {}
-  const legacyEmailRouteUpdates = stored.emailRouteUpdates
-  const legacyPushRouteUpdates = stored.pushRouteUpdates
-
-  return {
-    accountId,
-    userId,
-    emailEnRoute: stored.emailEnRoute ?? legacyEmailRouteUpdates ?? DEFAULT_NOTIFICATION_PREFS.emailEnRoute,
-    pushEnRoute: stored.pushEnRoute ?? legacyPushRouteUpdates ?? DEFAULT_NOTIFICATION_PREFS.pushEnRoute,
-    emailOnSite: stored.emailOnSite ?? legacyEmailRouteUpdates ?? DEFAULT_NOTIFICATION_PREFS.emailOnSite,
-    pushOnSite: stored.pushOnSite ?? legacyPushRouteUpdates ?? DEFAULT_NOTIFICATION_PREFS.pushOnSite,
-    emailJobComplete: stored.emailJobComplete ?? DEFAULT_NOTIFICATION_PREFS.emailJobComplete,
-    pushJobComplete: stored.pushJobComplete ?? DEFAULT_NOTIFICATION_PREFS.pushJobComplete,
-    emailBilling: stored.emailBilling ?? DEFAULT_NOTIFICATION_PREFS.emailBilling,
-    pushBilling: stored.pushBilling ?? DEFAULT_NOTIFICATION_PREFS.pushBilling,
-    emailPropertyAlerts: stored.emailPropertyAlerts ?? DEFAULT_NOTIFICATION_PREFS.emailPropertyAlerts,
-    pushPropertyAlerts: stored.pushPropertyAlerts ?? DEFAULT_NOTIFICATION_PREFS.pushPropertyAlerts,
-  }
-}
-
 export function ClientPortalProvider({ children }: { children: React.ReactNode }) {
   const supabase = useSupabase()
   const router = useRouter()
@@ -451,6 +398,7 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const allClientRowsRef = useRef<ClientListRow[]>([])
+  const membershipsRef = useRef<Map<string, AccountRole>>(new Map())
 
   const loadProfile = useCallback(async (currentUser: User, clientRows?: ClientListRow[]) => {
     const { data, error: profileError } = await supabase
@@ -488,6 +436,11 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
       'client_account_ids',
       'clientAccountIds',
     ])
+    const memberships = await loadAccountMemberships(supabase, currentUser.id)
+    membershipsRef.current = memberships
+    memberships.forEach((_role, accountId) => {
+      if (!accountCandidates.includes(accountId)) accountCandidates.push(accountId)
+    })
     const propertyCandidates = extractIdentifierArray(metadata, [
       'property_id',
       'propertyId',
@@ -582,7 +535,7 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
           {
             id: currentUser?.id ?? 'primary',
             name: currentUser?.user_metadata?.company ?? currentUser?.email ?? 'My Properties',
-            role: (currentUser?.user_metadata?.role as ClientAccountRole) ?? 'owner',
+            role: 'owner',
             propertyIds: [],
           },
         ]
@@ -598,7 +551,7 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
         grouped.set(id, {
           id,
           name: deriveAccountName(row),
-          role: (currentUser?.user_metadata?.role as ClientAccountRole) ?? 'owner',
+          role: membershipsRef.current.get(id) ?? 'owner',
           propertyIds: [row.property_id],
         })
       }
@@ -653,7 +606,7 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
 
     const accountIdFilters = Array.from(accountCandidates)
     const jobSelectFields =
-      'id, account_id, property_id, lat, lng, last_completed_on, day_of_week, address, photo_path, client_name, bins, notes, job_type'
+      'id, account_id, property_id, lat, lng, last_completed_on, day_of_week, address, photo_path, client_name, bins, notes, job_type, status, started_at, eta_at, skip_reason'
 
     const mergedJobRows: any[] = []
 
@@ -714,7 +667,7 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
     let logsQuery = supabase
       .from('logs')
       .select(
-        'id, job_id, account_id, client_name, address, task_type, bins, notes, photo_path, done_on, gps_lat, gps_lng, created_at',
+        'id, job_id, account_id, client_name, address, task_type, skip_reason, bins, notes, photo_path, photos, done_on, gps_lat, gps_lng, created_at',
       )
       .gte('done_on', formatISO(twoMonthsAgo, { representation: 'date' }))
 
@@ -754,9 +707,13 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
       return parsed.toISOString()
     }
 
+    // Skip logs record the skip itself as their task, so the service type comes from the job.
+    const jobTypeById = new Map(jobRows.map((row) => [String(row.id), row.job_type as string | null]))
+
     ;(logRows ?? []).forEach((log) => {
       const jobIdKey = normaliseIdentifier(log.job_id)
       const logAccountId = normaliseIdentifier(log.account_id)
+      const isSkip = log.task_type === SKIP_TASK_TYPE
 
       if (jobIdKey && (!logAccountId || logAccountId === accountId)) {
         const existing = logsByJobId.get(jobIdKey)
@@ -778,26 +735,29 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
       if (!completedAtIso) {
         return
       }
+      const photos = normalizeProofPhotos(log.photos, log.photo_path)
 
       const logJob: Job = {
         id: jobIdKey ? `${jobIdKey}-${log.id}` : `log-${log.id}`,
         accountId,
         propertyId,
         propertyName,
-        status: 'completed',
+        status: isSkip ? 'skipped' : 'completed',
         scheduledAt: completedAtIso,
         etaMinutes: null,
         startedAt: null,
         completedAt: completedAtIso,
         crewName: null,
-        proofPhotoKeys: log.photo_path ? [log.photo_path] : [],
+        proofPhotoKeys: photos.map((photo) => photo.path),
+        proofPhotoCaptions: proofPhotoCaptions(photos),
         proofUploadedAt: uploadedAtIso,
         routePolyline: null,
         lastLatitude: log.gps_lat ?? undefined,
         lastLongitude: log.gps_lng ?? undefined,
         notes: log.notes,
-        jobType: log.task_type,
+        jobType: isSkip ? (jobIdKey ? jobTypeById.get(jobIdKey) ?? null : null) : log.task_type,
         bins: normaliseBinList(log.bins),
+        skipReason: isSkip ? describeSkipReason(log.skip_reason) : null,
       }
 
       historyJobs.push(logJob)
@@ -823,11 +783,12 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
       const completedAtIso = parseDateToIso(latestLog?.done_on ?? job.last_completed_on)
       const proofUploadedAtIso = latestLog ? parseDateToIso(latestLog.created_at) : null
       const status: JobStatus = completedAtIso
-        ? 'completed'
-        : latestLog
-          ? 'en_route'
-          : 'scheduled'
-      const proofPhotoKeys = [job.photo_path, latestLog?.photo_path].filter(Boolean) as string[]
+        ? job.status === 'skipped'
+          ? 'skipped'
+          : 'completed'
+        : liveJobStatus(job.status) ?? (latestLog ? 'en_route' : 'scheduled')
+      const latestPhotos = latestLog ? normalizeProofPhotos(latestLog.photos, latestLog.photo_path) : []
+      const proofPhotoKeys = [job.photo_path, ...latestPhotos.map((photo) => photo.path)].filter(Boolean) as string[]
       const bins = normaliseBinList(job.bins)
       combinedJobs.push({
         id: job.id,
@@ -836,18 +797,23 @@ export function ClientPortalProvider({ children }: { children: React.ReactNode }
         propertyName,
         status,
         scheduledAt,
-        etaMinutes: status === 'scheduled' ? Math.max(5, differenceInMinutes(new Date(scheduledAt), new Date())) : null,
-        startedAt: null,
+        etaMinutes:
+          etaMinutesUntil(job.eta_at) ??
+          (status === 'scheduled' ? Math.max(5, differenceInMinutes(new Date(scheduledAt), new Date())) : null),
+        etaAt: status === 'completed' || status === 'skipped' ? null : parseDateToIso(job.eta_at),
+        startedAt: liveJobStatus(job.status) ? parseDateToIso(job.started_at) : null,
         completedAt: completedAtIso,
         crewName: null,
         proofPhotoKeys,
+        proofPhotoCaptions: proofPhotoCaptions(latestPhotos),
         proofUploadedAt: proofUploadedAtIso,
         routePolyline: null,
-        lastLatitude: job.lat ?? undefined,
-        lastLongitude: job.lng ?? undefined,
+        lastLatitude: null,
+        lastLongitude: null,
         notes: job.notes ?? latestLog?.notes ?? null,
         jobType: job.job_type,
         bins,
+        skipReason: status === 'skipped' ? describeSkipReason(job.skip_reason) : null,
       })
     })
 
@@ -1053,10 +1019,18 @@ export const computeEtaLabel = (job: Job): string => {
   const scheduledAt = job.scheduledAt ? new Date(job.scheduledAt) : now
   const etaFromField = job.etaMinutes ?? undefined
 
-  if (job.startedAt) {
+  // ETAs published from the driver's route are absolute, so they stay accurate between updates.
+  const publishedEta = etaMinutesUntil(job.etaAt, now)
+  if (publishedEta !== null) {
+    if (publishedEta <= 1) return 'Arriving now'
+    if (publishedEta > 120) return `${Math.round(publishedEta / 60)}h out`
+    return `~${publishedEta} min`
+  }
+
+  if (job.startedAt && etaFromField !== undefined) {
     const startedAtDate = new Date(job.startedAt)
     const minutesSinceStart = Math.max(0, differenceInMinutes(now, startedAtDate))
-    const etaMinutes = Math.max(0, (etaFromField ?? 20) - minutesSinceStart)
+    const etaMinutes = Math.max(0, etaFromField - minutesSinceStart)
     if (etaMinutes <= 1) return 'Arriving now'
     return `~${etaMinutes} min`
   }
@@ -294,6 +294,11 @@ export function JobHistoryTable({ jobs, properties, initialPropertyId }: JobHist
                   </td>
                   <td className="px-4 py-4 align-middle text-slate-900">
                     <div className="font-semibold">{formatJobTypeLabel(job.jobType)}</div>
+                    {job.status === 'skipped' && (
+                      <span className="mt-1 inline-flex rounded-full bg-binbird-red/10 px-2 py-0.5 text-xs font-medium text-binbird-red">
+                        Skipped{job.skipReason ? `: ${job.skipReason}` : ''}
+                      </span>
+                    )}
                     <p className="mt-1 text-xs text-slate-500">
                       {job.bins && job.bins.length > 0 ? job.bins.join(', ') : 'No bins recorded'}
                     </p>
@@ -332,6 +337,7 @@ export function JobHistoryTable({ jobs, properties, initialPropertyId }: JobHist
         isOpen={Boolean(proofJob)}
         onClose={() => setProofJob(null)}
         photoKeys={proofJob?.proofPhotoKeys ?? []}
+        captions={proofJob?.proofPhotoCaptions ?? undefined}
       />
 
       <p className="text-xs text-slate-400">
@@ -1,12 +1,13 @@
 'use client'
 
 import { useCallback, useMemo } from 'react'
-import { BoltIcon, CheckIcon, MapIcon, UserGroupIcon } from '@heroicons/react/24/outline'
+import { BoltIcon, CheckIcon, ClockIcon, MapIcon, UserGroupIcon } from '@heroicons/react/24/outline'
 import clsx from 'clsx'
 import { BIN_THEME, DEFAULT_BIN_PILL, type BinThemeKey } from './binThemes'
-import { useClientPortal, type Job, type Property } from './ClientPortalProvider'
+import { computeEtaLabel, useClientPortal, type Job, type Property } from './ClientPortalProvider'
 import { TrackerMap } from './TrackerMap'
 import { useRealtimeJobs } from '@/hooks/useRealtimeJobs'
+import { useDriverLocations } from '@/hooks/useDriverLocations'
 import { useSupabase } from '@/components/providers/SupabaseProvider'
 
 const PROGRESS_STEPS: { key: Exclude<Job['status'], 'skipped'>; label: string }[] = [
@@ -131,6 +132,40 @@ export function LiveTracker() {
     [activeJobs],
   )
 
+  const enRouteJobIds = useMemo(
+    () => todaysJobs.filter((job) => job.status === 'en_route').map((job) => job.id),
+    [todaysJobs],
+  )
+  const driverLocations = useDriverLocations(supabase, enRouteJobIds)
+
+  // Jobs whose driver is sharing their position, placed where the vehicle is now.
+  const vehicleJobs = useMemo(
+    () =>
+      todaysJobs.flatMap((job) => {
+        const location = driverLocations[job.id]
+        if (!location || job.status !== 'en_route') return []
+        return [
+          {
+            ...job,
+            lastLatitude: location.lat,
+            lastLongitude: location.lng,
+            routePolyline: location.route_polyline,
+          },
+        ]
+      }),
+    [driverLocations, todaysJobs],
+  )
+
+  const etaLabelsByPropertyId = useMemo(() => {
+    const labels: Record<string, string> = {}
+    todaysJobs.forEach((job) => {
+      if (job.propertyId && job.etaAt && job.status !== 'skipped') {
+        labels[job.propertyId] = computeEtaLabel(job)
+      }
+    })
+    return labels
+  }, [todaysJobs])
+
   const handleRefresh = useCallback(async () => {
     await Promise.all([refreshProperties(), refreshJobs()])
   }, [refreshJobs, refreshProperties])
@@ -145,7 +180,7 @@ export function LiveTracker() {
           </div>
         </header>
         <div className="mt-6">
-          <TrackerMap properties={properties} />
+          <TrackerMap properties={properties} etaLabels={etaLabelsByPropertyId} vehicles={vehicleJobs} />
         </div>
       </section>
 
@@ -227,8 +262,17 @@ export function LiveTracker() {
                           ) : null}
                         </div>
                       </div>
-                      {job.crewName ? (
-                        <dl className="grid gap-3 text-sm text-slate-600 sm:grid-cols-2">
+                      <dl className="grid gap-3 text-sm text-slate-600 sm:grid-cols-2">
+                        <div className="flex items-center gap-2">
+                          <dt className="flex items-center gap-2 text-slate-500">
+                            <ClockIcon className="h-5 w-5" />
+                            <span>{isSkipped ? 'Skipped' : job.etaAt ? 'Arrival' : 'Expected'}</span>
+                          </dt>
+                          <dd className="font-medium text-slate-900">
+                            {isSkipped ? job.skipReason ?? 'The crew couldn’t complete this stop' : computeEtaLabel(job)}
+                          </dd>
+                        </div>
+                        {job.crewName ? (
                           <div className="flex items-center gap-2">
                             <dt className="flex items-center gap-2 text-slate-500">
                               <MapIcon className="h-5 w-5" />
@@ -236,8 +280,8 @@ export function LiveTracker() {
                             </dt>
                             <dd className="font-medium text-slate-900">{job.crewName}</dd>
                           </div>
-                        </dl>
-                      ) : null}
+                        ) : null}
+                      </dl>
                     </div>
                     <div className="relative flex flex-col gap-6">
                       <div className="grid grid-cols-2 gap-3 sm:hidden">
@@ -9,12 +9,19 @@ import { useSupabase } from '@/components/providers/SupabaseProvider'
 export type ProofGalleryModalProps = {
   isOpen: boolean
   photoKeys: string[]
+  /** Captions keyed by photo key. */
+  captions?: Record<string, string>
   onClose: () => void
 }
 
-export function ProofGalleryModal({ isOpen, photoKeys, onClose }: ProofGalleryModalProps) {
+type GalleryPhoto = {
+  key: string
+  url: string
+}
+
+export function ProofGalleryModal({ isOpen, photoKeys, captions, onClose }: ProofGalleryModalProps) {
   const supabase = useSupabase()
-  const [urls, setUrls] = useState<string[]>([])
+  const [photos, setPhotos] = useState<GalleryPhoto[]>([])
   const [index, setIndex] = useState(0)
   const [loading, setLoading] = useState(false)
 
@@ -25,7 +32,7 @@ export function ProofGalleryModal({ isOpen, photoKeys, onClose }: ProofGalleryMo
     const load = async () => {
       setLoading(true)
       if (photoKeys.length === 0) {
-        setUrls([])
+        setPhotos([])
         setLoading(false)
         return
       }
@@ -49,10 +56,10 @@ export function ProofGalleryModal({ isOpen, photoKeys, onClose }: ProofGalleryMo
         console.warn('Failed to fetch proof URLs', errors)
       }
 
-      setUrls(
-        results
-          .map((result) => result.data?.signedUrl)
-          .filter((url): url is string => Boolean(url))
+      setPhotos(
+        results.flatMap((result, resultIndex) =>
+          result.data?.signedUrl ? [{ key: photoKeys[resultIndex], url: result.data.signedUrl }] : []
+        )
       )
       if (!cancelled) {
         setIndex(0)
@@ -68,28 +75,31 @@ export function ProofGalleryModal({ isOpen, photoKeys, onClose }: ProofGalleryMo
   }, [isOpen, photoKeys, supabase])
 
   useEffect(() => {
-    if (index >= urls.length) {
+    if (index >= photos.length) {
       setIndex(0)
     }
-  }, [urls, index])
+  }, [photos, index])
 
   useEffect(() => {
-    if (!urls.length) return
+    if (!photos.length) return
 
-    const preloadTargets = [urls[index]]
+    const preloadTargets = [photos[index]?.url]
 
-    if (urls.length > 1) {
-      preloadTargets.push(urls[(index + 1) % urls.length])
+    if (photos.length > 1) {
+      preloadTargets.push(photos[(index + 1) % photos.length].url)
     }
 
     preloadTargets.forEach((url) => {
+      if (!url) return
       const img = new Image()
       img.src = url
     })
-  }, [urls, index])
+  }, [photos, index])
 
-  const goPrevious = () => setIndex((current) => (current === 0 ? urls.length - 1 : current - 1))
-  const goNext = () => setIndex((current) => (current + 1) % urls.length)
+  const goPrevious = () => setIndex((current) => (current === 0 ? photos.length - 1 : current - 1))
+  const goNext = () => setIndex((current) => (current + 1) % photos.length)
+  const current = photos[index]
+  const caption = current ? captions?.[current.key] : undefined
 
   return (
     <Transition show={isOpen} as={Fragment}>
@@ -122,18 +132,18 @@ export function ProofGalleryModal({ isOpen, photoKeys, onClose }: ProofGalleryMo
                     <div className="flex min-h-[260px] items-center justify-center text-slate-600 sm:min-h-[320px]">
                       Fetching proof of service…
                     </div>
-                  ) : urls.length === 0 ? (
+                  ) : !current ? (
                     <div className="flex min-h-[260px] items-center justify-center text-slate-500 sm:min-h-[320px]">
                       No proof images available yet.
                     </div>
                   ) : (
                     <div className="relative flex w-full items-center justify-center px-4 py-6 sm:px-8 sm:py-8">
                       <img
-                        src={urls[index]}
-                        alt={`Proof photo ${index + 1}`}
+                        src={current.url}
+                        alt={caption ?? `Proof photo ${index + 1}`}
                         className="max-h-[70vh] w-auto max-w-full rounded-xl object-contain"
                       />
-                      {urls.length > 1 && (
+                      {photos.length > 1 && (
                         <>
                           <button
                             type="button"
@@ -156,11 +166,21 @@ export function ProofGalleryModal({ isOpen, photoKeys, onClose }: ProofGalleryMo
                     </div>
                   )}
                 </div>
-                {urls.length > 1 && (
+                {current && (caption || photos.length > 1) && (
+                  <div className="space-y-1 bg-slate-50 px-6 pt-4 text-center">
+                    {caption && <p className="text-sm font-medium text-slate-900">{caption}</p>}
+                    {photos.length > 1 && (
+                      <p className="text-xs text-slate-500">
+                        Photo {index + 1} of {photos.length}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {photos.length > 1 && (
                   <div className="flex items-center justify-center gap-2 bg-slate-50 px-6 py-4">
-                    {urls.map((url, dotIndex) => (
+                    {photos.map((photo, dotIndex) => (
                       <button
-                        key={url}
+                        key={photo.key}
                         type="button"
                         onClick={() => setIndex(dotIndex)}
                         className={
@@ -8,6 +8,16 @@ import { useClientPortal } from './ClientPortalProvider'
 import { PreferenceKey, PREFERENCE_FIELDS, MutablePreferences } from './notificationPreferencesFields'
 import { useSupabase } from '@/components/providers/SupabaseProvider'
 import { isEmailConfirmed } from '@/lib/auth/isEmailConfirmed'
+import { accountRoleCan } from '@/lib/accountMembers'
+import { usePushSubscription, type PushStatus } from '@/hooks/usePushSubscription'
+
+const PUSH_STATUS_DESCRIPTIONS: Record<PushStatus, string> = {
+  unsupported: 'This browser does not support push notifications.',
+  loading: 'Checking this browser…',
+  subscribed: 'Push notifications are on for this browser.',
+  unsubscribed: 'Turn on push to get the alerts below on this browser.',
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings to turn push on.',
+}
 
 export type SettingsFormValues = {
   fullName: string
@@ -26,6 +36,7 @@ export function SettingsForm() {
     refreshNotificationPreferences,
   } = useClientPortal()
   const supabase = useSupabase()
+  const push = usePushSubscription()
   const [submitError, setSubmitError] = useState<string | null>(null)
   const [statusMessage, setStatusMessage] = useState<string | null>(null)
   const [preferencesState, setPreferencesState] = useState<MutablePreferences | null>(null)
@@ -81,12 +92,19 @@ export function SettingsForm() {
     setPreferencesState((current) => (current ? { ...current, [key]: value } : current))
   }
 
+  const readOnly = Boolean(selectedAccount) && !accountRoleCan(selectedAccount?.role, 'edit_settings')
+
   const onSubmit = handleSubmit(async (values) => {
     if (!user) {
       setSubmitError('You must be signed in to update your settings.')
       throw new Error('Not authenticated')
     }
 
+    if (readOnly) {
+      setSubmitError('Viewers cannot change account settings.')
+      throw new Error('Read-only account role')
+    }
+
     if (!isEmailConfirmed(user)) {
       setSubmitError('Please verify your email before updating settings.')
       throw new Error('Email not verified')
@@ -159,7 +177,7 @@ export function SettingsForm() {
     setStatusMessage('Settings saved successfully.')
   })
 
-  const togglesDisabled = isSubmitting || !selectedAccount
+  const togglesDisabled = isSubmitting || !selectedAccount || readOnly
 
   return (
     <form
@@ -173,7 +191,12 @@ export function SettingsForm() {
             Update contact details and portal preferences for your team.
           </p>
         </div>
-        <div className="grid gap-4 md:grid-cols-2">
+        {readOnly && (
+          <p className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
+            You have view-only access to {selectedAccount?.name ?? 'this account'}. Ask an account owner to make changes.
+          </p>
+        )}
+        <fieldset disabled={readOnly} className="grid gap-4 md:grid-cols-2">
           <label className="flex flex-col gap-2 text-sm">
             <span className="text-slate-500">Full name</span>
             <input
@@ -208,7 +231,7 @@ export function SettingsForm() {
               className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-2 text-slate-900 focus:border-binbird-red focus:outline-none focus:ring-2 focus:ring-binbird-red/30"
             />
           </label>
-        </div>
+        </fieldset>
       </section>
 
       <section className="space-y-6">
@@ -219,6 +242,23 @@ export function SettingsForm() {
           </p>
         </div>
 
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+          <div>
+            <p className="font-medium text-slate-900">Push on this device</p>
+            <p className="text-xs text-slate-500">{PUSH_STATUS_DESCRIPTIONS[push.status]}</p>
+          </div>
+          {(push.status === 'subscribed' || push.status === 'unsubscribed') && (
+            <button
+              type="button"
+              onClick={() => void (push.status === 'subscribed' ? push.unsubscribe() : push.subscribe())}
+              className="rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 transition hover:border-binbird-red hover:text-binbird-red"
+            >
+              {push.status === 'subscribed' ? 'Turn off' : 'Turn on'}
+            </button>
+          )}
+        </div>
+        {push.error && <p className="text-xs text-red-300">{push.error}</p>}
+
         {!preferencesState ? (
           preferencesLoading ? (
             <div className="flex min-h-[160px] items-center justify-center text-slate-500">
@@ -312,13 +352,15 @@ export function SettingsForm() {
         </p>
       )}
 
-      <button
-        type="submit"
-        disabled={isSubmitting}
-        className="inline-flex items-center gap-2 rounded-full bg-binbird-red px-6 py-3 text-sm font-semibold text-white transition hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-60"
-      >
-        {isSubmitting ? 'Saving…' : isSubmitSuccessful ? 'Saved' : 'Save settings'}
-      </button>
+      {!readOnly && (
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex items-center gap-2 rounded-full bg-binbird-red px-6 py-3 text-sm font-semibold text-white transition hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSubmitting ? 'Saving…' : isSubmitSuccessful ? 'Saved' : 'Save settings'}
+        </button>
+      )}
     </form>
   )
 }
@@ -0,0 +1,167 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { format } from 'date-fns'
+import { LinkIcon } from '@heroicons/react/24/outline'
+import { useClientPortal } from './ClientPortalProvider'
+import { useShareLinks } from '@/hooks/useShareLinks'
+import { accountRoleCan } from '@/lib/accountMembers'
+import { DEFAULT_SHARE_LINK_EXPIRY_DAYS, SHARE_LINK_EXPIRY_DAYS, isShareLinkExpired } from '@/lib/shareLinks'
+
+export function ShareLinks() {
+  const { selectedAccount, properties } = useClientPortal()
+  const canShare = accountRoleCan(selectedAccount?.role, 'share_links')
+  const { links, loading, error, create, revoke } = useShareLinks(selectedAccount?.id ?? null, canShare)
+  const [expiresInDays, setExpiresInDays] = useState<number>(DEFAULT_SHARE_LINK_EXPIRY_DAYS)
+  const [label, setLabel] = useState('')
+  const [selectedPropertyIds, setSelectedPropertyIds] = useState<Set<string>>(new Set())
+  const [creating, setCreating] = useState(false)
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+
+  if (!selectedAccount || !canShare) return null
+
+  const propertyLabel = (propertyId: string) =>
+    properties.find((property) => property.id === propertyId)?.name ?? propertyId
+
+  const toggleProperty = (propertyId: string, checked: boolean) => {
+    setSelectedPropertyIds((current) => {
+      const next = new Set(current)
+      if (checked) next.add(propertyId)
+      else next.delete(propertyId)
+      return next
+    })
+  }
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setCreating(true)
+    setCreatedUrl(null)
+    const url = await create({
+      expiresInDays,
+      label: label || null,
+      propertyIds: Array.from(selectedPropertyIds),
+    })
+    setCreating(false)
+    if (url) {
+      setCreatedUrl(url)
+      setLabel('')
+      setSelectedPropertyIds(new Set())
+    }
+  }
+
+  return (
+    <section className="space-y-6 rounded-3xl border border-slate-200 bg-white p-6 text-slate-900">
+      <div className="space-y-2">
+        <h2 className="flex items-center gap-2 text-2xl font-semibold text-slate-900">
+          <LinkIcon className="h-6 w-6 text-slate-500" /> Share links
+        </h2>
+        <p className="text-sm text-slate-500">
+          Give someone without a login a read-only view of service history. Links expire automatically and can be
+          revoked at any time.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="flex flex-col gap-2 text-sm">
+            <span className="text-slate-500">Label (optional)</span>
+            <input
+              type="text"
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              placeholder="e.g. Strata manager"
+              maxLength={120}
+              className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-2 text-slate-900 focus:border-binbird-red focus:outline-none focus:ring-2 focus:ring-binbird-red/30"
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-sm">
+            <span className="text-slate-500">Expires after</span>
+            <select
+              value={expiresInDays}
+              onChange={(event) => setExpiresInDays(Number(event.target.value))}
+              className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-2 text-slate-900 focus:border-binbird-red focus:outline-none focus:ring-2 focus:ring-binbird-red/30"
+            >
+              {SHARE_LINK_EXPIRY_DAYS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 1 ? '1 day' : `${days} days`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {properties.length > 1 && (
+          <fieldset className="space-y-2">
+            <legend className="text-sm text-slate-500">Properties (leave empty to share all)</legend>
+            <div className="grid gap-2 md:grid-cols-2">
+              {properties.map((property) => (
+                <label key={property.id} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedPropertyIds.has(property.id)}
+                    onChange={(event) => toggleProperty(property.id, event.target.checked)}
+                    className="h-4 w-4 rounded border-slate-300 text-binbird-red focus:ring-binbird-red/30"
+                  />
+                  {property.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        <button
+          type="submit"
+          disabled={creating}
+          className="inline-flex items-center justify-center rounded-full bg-binbird-red px-6 py-2.5 text-sm font-semibold text-white transition hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {creating ? 'Creating…' : 'Create link'}
+        </button>
+      </form>
+
+      {createdUrl && (
+        <div className="space-y-1 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm" role="status">
+          <p className="text-slate-600">Copy this link now. It won&apos;t be shown again.</p>
+          <p className="break-all font-medium text-slate-900">{createdUrl}</p>
+        </div>
+      )}
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+
+      {loading && links.length === 0 ? (
+        <p className="text-sm text-slate-500">Loading share links…</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-slate-500">No active share links.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200">
+          {links.map((link) => {
+            const expired = isShareLinkExpired(link.expires_at)
+            return (
+              <li key={link.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-slate-900">{link.label ?? 'Share link'}</p>
+                  <p className="text-xs text-slate-500">
+                    {link.property_ids?.length
+                      ? link.property_ids.map(propertyLabel).join(', ')
+                      : 'All properties'}
+                    {' · '}
+                    {expired ? 'Expired' : 'Expires'} {format(new Date(link.expires_at), 'd MMM yyyy, h:mm a')}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void revoke(link.id)}
+                  className="rounded-full border border-slate-200 px-3 py-1.5 text-sm font-medium text-slate-600 transition hover:border-red-300 hover:text-red-600"
+                >
+                  {expired ? 'Remove' : 'Revoke'}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
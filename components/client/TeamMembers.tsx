@@ -0,0 +1,233 @@
+'use client'
+
+import { FormEvent, useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { UserGroupIcon } from '@heroicons/react/24/outline'
+import { useClientPortal } from './ClientPortalProvider'
+import { ACCOUNT_ROLES, accountRoleCan, type AccountMemberRow, type AccountRole } from '@/lib/accountMembers'
+
+const ROLE_LABELS: Record<AccountRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  viewer: 'Viewer',
+}
+
+export function TeamMembers() {
+  const { selectedAccount, user } = useClientPortal()
+  const [members, setMembers] = useState<AccountMemberRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<AccountRole>('viewer')
+  const [submitting, setSubmitting] = useState(false)
+
+  const accountId = selectedAccount?.id ?? null
+  const canView = accountRoleCan(selectedAccount?.role, 'edit_settings')
+  const canManage = accountRoleCan(selectedAccount?.role, 'manage_team')
+  const membersUrl = accountId ? `/api/accounts/${encodeURIComponent(accountId)}/members` : null
+
+  const loadMembers = useCallback(async () => {
+    if (!membersUrl || !canView) return
+    setLoading(true)
+    try {
+      const response = await fetch(membersUrl)
+      const result = (await response.json().catch(() => null)) as
+        | { members?: AccountMemberRow[]; message?: string }
+        | null
+      if (!response.ok) {
+        setError(result?.message ?? 'Unable to load team members.')
+        return
+      }
+      setMembers(result?.members ?? [])
+      setError(null)
+    } catch (loadError) {
+      console.error('Failed to load account members', loadError)
+      setError('Unable to load team members.')
+    } finally {
+      setLoading(false)
+    }
+  }, [canView, membersUrl])
+
+  useEffect(() => {
+    setMembers([])
+    setNotice(null)
+    void loadMembers()
+  }, [loadMembers])
+
+  const handleInvite = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!membersUrl) return
+    setSubmitting(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const response = await fetch(membersUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      })
+      const result = (await response.json().catch(() => null)) as
+        | { message?: string; inviteUrl?: string; emailSent?: boolean }
+        | null
+      if (!response.ok) {
+        setError(result?.message ?? 'Unable to send the invite.')
+        return
+      }
+      setNotice(
+        result?.emailSent
+          ? `Invite emailed to ${email}.`
+          : `Invite created. Share this link with ${email}: ${result?.inviteUrl ?? ''}`,
+      )
+      setEmail('')
+      await loadMembers()
+    } catch (inviteError) {
+      console.error('Failed to invite account member', inviteError)
+      setError('Unable to send the invite.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const updateMember = async (memberId: string, init: RequestInit) => {
+    if (!membersUrl) return
+    setError(null)
+    setNotice(null)
+    try {
+      const response = await fetch(`${membersUrl}/${encodeURIComponent(memberId)}`, init)
+      if (!response.ok) {
+        const result = (await response.json().catch(() => null)) as { message?: string } | null
+        setError(result?.message ?? 'Unable to update the member.')
+        return
+      }
+      await loadMembers()
+    } catch (updateError) {
+      console.error('Failed to update account member', updateError)
+      setError('Unable to update the member.')
+    }
+  }
+
+  if (!selectedAccount || !canView) return null
+
+  return (
+    <section className="space-y-6 rounded-3xl border border-slate-200 bg-white p-6 text-slate-900">
+      <div className="space-y-2">
+        <h2 className="flex items-center gap-2 text-2xl font-semibold text-slate-900">
+          <UserGroupIcon className="h-6 w-6 text-slate-500" /> Team
+        </h2>
+        <p className="text-sm text-slate-500">
+          {canManage
+            ? `Invite people to ${selectedAccount.name}. Managers can change settings and request properties; viewers can follow jobs and history.`
+            : `People with access to ${selectedAccount.name}. Only owners can invite or remove members.`}
+        </p>
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleInvite} className="flex flex-col gap-3 md:flex-row md:items-end">
+          <label className="flex flex-1 flex-col gap-2 text-sm">
+            <span className="text-slate-500">Email</span>
+            <input
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              required
+              className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-2 text-slate-900 focus:border-binbird-red focus:outline-none focus:ring-2 focus:ring-binbird-red/30"
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-sm">
+            <span className="text-slate-500">Role</span>
+            <select
+              value={role}
+              onChange={(event) => setRole(event.target.value as AccountRole)}
+              className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-2 text-slate-900 focus:border-binbird-red focus:outline-none focus:ring-2 focus:ring-binbird-red/30"
+            >
+              {ACCOUNT_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {ROLE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="inline-flex items-center justify-center rounded-full bg-binbird-red px-6 py-2.5 text-sm font-semibold text-white transition hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {submitting ? 'Sending…' : 'Send invite'}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p className="break-all text-sm text-slate-600" role="status">
+          {notice}
+        </p>
+      )}
+
+      {loading && members.length === 0 ? (
+        <p className="text-sm text-slate-500">Loading team…</p>
+      ) : members.length === 0 ? (
+        <p className="text-sm text-slate-500">No one else has been invited to this account yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200">
+          {members.map((member) => {
+            const isSelf = member.user_id === user?.id
+            return (
+              <li key={member.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-slate-900">
+                    {member.email}
+                    {isSelf && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {member.status === 'invited'
+                      ? `Invited${member.invite_expires_at ? `, expires ${format(new Date(member.invite_expires_at), 'd MMM yyyy')}` : ''}`
+                      : `Joined${member.accepted_at ? ` ${format(new Date(member.accepted_at), 'd MMM yyyy')}` : ''}`}
+                  </p>
+                </div>
+                {canManage && !isSelf ? (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={member.role}
+                      onChange={(event) =>
+                        void updateMember(member.id, {
+                          method: 'PATCH',
+                          headers: { 'Content-Type': 'application/json' },
+                          body: JSON.stringify({ role: event.target.value }),
+                        })
+                      }
+                      aria-label={`Role for ${member.email}`}
+                      className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1.5 text-sm text-slate-900"
+                    >
+                      {ACCOUNT_ROLES.map((option) => (
+                        <option key={option} value={option}>
+                          {ROLE_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => void updateMember(member.id, { method: 'DELETE' })}
+                      className="rounded-full border border-slate-200 px-3 py-1.5 text-sm font-medium text-slate-600 transition hover:border-red-300 hover:text-red-600"
+                    >
+                      {member.status === 'invited' ? 'Cancel invite' : 'Remove'}
+                    </button>
+                  </div>
+                ) : (
+                  <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-medium text-slate-600">
+                    {ROLE_LABELS[member.role]}
+                  </span>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
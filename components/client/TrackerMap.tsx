@@ -1,8 +1,9 @@
 'use client'
 
-import { useCallback, useEffect, useMemo, useState } from 'react'
-import { GoogleMap, MarkerF, OverlayViewF, useLoadScript } from '@react-google-maps/api'
-import type { Property } from './ClientPortalProvider'
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+import { GoogleMap, MarkerF, OverlayViewF, PolylineF, useLoadScript } from '@react-google-maps/api'
+import polyline from '@mapbox/polyline'
+import type { Job, Property } from './ClientPortalProvider'
 import { useMapSettings } from '@/components/Context/MapSettingsContext'
 import { darkMapStyle, lightMapStyle, satelliteMapStyle } from '@/lib/mapStyle'
 
@@ -18,6 +19,10 @@ type PropertyMarkerDescriptor = {
 
 export type TrackerMapProps = {
   properties: Property[]
+  /** Live arrival labels from the driver's published ETAs, keyed by property id. */
+  etaLabels?: Record<string, string>
+  /** En-route jobs whose `lastLatitude`/`lastLongitude` hold the driver's live position. */
+  vehicles?: Job[]
 }
 
 const FALLBACK_CENTER: google.maps.LatLngLiteral = { lat: -33.865143, lng: 151.2099 }
@@ -44,19 +49,20 @@ function formatPropertyAddress(property: Property) {
   return { addressLine, locationLine }
 }
 
-function AddressPopoverContent({ property }: { property: Property }) {
+function AddressPopoverContent({ property, etaLabel }: { property: Property; etaLabel?: string }) {
   const { addressLine, locationLine } = formatPropertyAddress(property)
   return (
     <div className="px-3 py-2 text-[11px] text-slate-900">
       <div className="flex flex-col gap-1 text-left">
         <p className="font-semibold text-[#E21C21]">{addressLine}</p>
         {locationLine ? <p className="text-slate-900">{locationLine}</p> : null}
+        {etaLabel ? <p className="font-medium text-slate-600">Arrival: {etaLabel}</p> : null}
       </div>
     </div>
   )
 }
 
-export function TrackerMap({ properties }: TrackerMapProps) {
+export function TrackerMap({ properties, etaLabels = {}, vehicles = [] }: TrackerMapProps) {
   const { mapStylePref } = useMapSettings()
   const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY
   const { isLoaded, loadError } = useLoadScript({
@@ -82,6 +88,26 @@ export function TrackerMap({ properties }: TrackerMapProps) {
       .filter((marker): marker is PropertyMarkerDescriptor => Boolean(marker))
   }, [properties])
 
+  const vehicleMarkers = useMemo(
+    () =>
+      vehicles.flatMap((job) => {
+        const latitude = normalisePropertyCoordinate(job.lastLatitude)
+        const longitude = normalisePropertyCoordinate(job.lastLongitude)
+        if (latitude === null || longitude === null) return []
+        return [
+          {
+            jobId: job.id,
+            title: `Driver heading to ${job.propertyName}`,
+            position: { lat: latitude, lng: longitude },
+            path: job.routePolyline
+              ? polyline.decode(job.routePolyline).map(([lat, lng]) => ({ lat, lng }))
+              : [],
+          },
+        ]
+      }),
+    [vehicles],
+  )
+
   const selectedMarker = useMemo(
     () => propertyMarkers.find((marker) => marker.property.id === selectedPropertyId) ?? null,
     [propertyMarkers, selectedPropertyId],
@@ -196,6 +222,48 @@ export function TrackerMap({ properties }: TrackerMapProps) {
                 zIndex={1}
               />
             ))}
+            {vehicleMarkers.map((vehicle) => (
+              <Fragment key={`vehicle-${vehicle.jobId}`}>
+                {vehicle.path.length > 1 && (
+                  <PolylineF
+                    path={vehicle.path}
+                    options={{ strokeColor: '#E21C21', strokeOpacity: 0.8, strokeWeight: 4, clickable: false }}
+                  />
+                )}
+                <MarkerF
+                  position={vehicle.position}
+                  title={vehicle.title}
+                  icon={{
+                    path: window.google.maps.SymbolPath.CIRCLE,
+                    scale: 8,
+                    fillColor: '#111827',
+                    fillOpacity: 1,
+                    strokeColor: '#FFFFFF',
+                    strokeWeight: 3,
+                  }}
+                  zIndex={3}
+                />
+              </Fragment>
+            ))}
+            {propertyMarkers.map((marker) => {
+              const etaLabel = etaLabels[marker.property.id]
+              if (!etaLabel || marker.property.id === selectedPropertyId) return null
+              return (
+                <OverlayViewF
+                  key={`eta-${marker.property.id}`}
+                  position={marker.position}
+                  mapPaneName="overlayLayer"
+                  zIndex={1}
+                >
+                  <div
+                    className="whitespace-nowrap rounded-full bg-binbird-red px-2 py-0.5 text-[11px] font-semibold text-white shadow"
+                    style={{ transform: `translate(-50%, calc(-100% - ${PROPERTY_MARKER_POPUP_OFFSET_PX}px))` }}
+                  >
+                    {etaLabel}
+                  </div>
+                </OverlayViewF>
+              )
+            })}
             {selectedMarker && (
               <OverlayViewF
                 position={selectedMarker.position}
@@ -209,7 +277,10 @@ export function TrackerMap({ properties }: TrackerMapProps) {
                 >
                   <div className="flex flex-col items-center">
                     <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white text-xs shadow-lg">
-                      <AddressPopoverContent property={selectedMarker.property} />
+                      <AddressPopoverContent
+                        property={selectedMarker.property}
+                        etaLabel={etaLabels[selectedMarker.property.id]}
+                      />
                     </div>
                     <div className="-mt-1 h-3 w-3 rotate-45 border border-slate-200 bg-white shadow-lg" />
                   </div>
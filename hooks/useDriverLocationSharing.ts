@@ -0,0 +1,59 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useSupabase } from "@/components/providers/SupabaseProvider"
+import {
+  publishDriverLocation,
+  shouldPublishDriverLocation,
+  stopDriverLocationSharing,
+  type DriverPosition,
+} from "@/lib/driverLocation"
+import type { LatLng } from "@/lib/routeOptimizer"
+
+/**
+ * Shares the driver's position and planned route with the client whose job is
+ * next on the run. Pass a null `jobId` when there is nothing to drive to;
+ * sharing stops then, and whenever the route screen closes.
+ */
+export function useDriverLocationSharing(
+  jobId: string | null,
+  position: DriverPosition | null,
+  routePolyline: string | null,
+) {
+  const supabase = useSupabase()
+  const [staffId, setStaffId] = useState<string | null>(null)
+  const lastPublishedRef = useRef<{ jobId: string; position: LatLng; at: number } | null>(null)
+
+  useEffect(() => {
+    let active = true
+    void supabase.auth.getUser().then(({ data }) => {
+      if (active) setStaffId(data.user?.id ?? null)
+    })
+    return () => {
+      active = false
+    }
+  }, [supabase])
+
+  useEffect(() => {
+    if (!staffId || jobId) return
+    lastPublishedRef.current = null
+    void stopDriverLocationSharing(supabase, staffId)
+  }, [jobId, staffId, supabase])
+
+  useEffect(() => {
+    if (!staffId) return
+    return () => {
+      lastPublishedRef.current = null
+      void stopDriverLocationSharing(supabase, staffId)
+    }
+  }, [staffId, supabase])
+
+  useEffect(() => {
+    if (!staffId || !jobId || !position) return
+    const last = lastPublishedRef.current?.jobId === jobId ? lastPublishedRef.current : null
+    if (!shouldPublishDriverLocation(last, position)) return
+
+    lastPublishedRef.current = { jobId, position, at: Date.now() }
+    void publishDriverLocation(supabase, staffId, jobId, position, routePolyline)
+  }, [jobId, position, routePolyline, staffId, supabase])
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { DRIVER_LOCATION_COLUMNS, isDriverLocationFresh, type DriverLocationRow } from "@/lib/driverLocation"
+
+const PRUNE_INTERVAL_MS = 30_000
+
+const pruneStale = (locations: Record<string, DriverLocationRow>) => {
+  const fresh = Object.values(locations).filter((row) => isDriverLocationFresh(row))
+  if (fresh.length === Object.keys(locations).length) return locations
+  return Object.fromEntries(fresh.map((row) => [row.job_id, row]))
+}
+
+/**
+ * Live vehicle positions for the given jobs, keyed by job id. Rows appear
+ * while a driver is heading to one of the jobs and disappear when they move on
+ * or their run ends. Realtime doesn't deliver filtered deletes, so positions
+ * that stop updating are also dropped once they go stale.
+ */
+export function useDriverLocations(supabase: SupabaseClient, jobIds: string[]) {
+  const [locations, setLocations] = useState<Record<string, DriverLocationRow>>({})
+  const jobIdsKey = Array.from(new Set(jobIds)).sort().join(',')
+
+  useEffect(() => {
+    setLocations({})
+    if (!jobIdsKey) return
+
+    const ids = jobIdsKey.split(',')
+    let active = true
+
+    void supabase
+      .from('driver_locations')
+      .select(DRIVER_LOCATION_COLUMNS)
+      .in('job_id', ids)
+      .then(({ data, error }) => {
+        if (!active) return
+        if (error) {
+          console.warn('Failed to load driver locations', error)
+          return
+        }
+        setLocations((current) => {
+          const next = { ...current }
+          ;((data ?? []) as DriverLocationRow[]).forEach((row) => {
+            next[row.job_id] ??= row
+          })
+          return pruneStale(next)
+        })
+      })
+
+    const channel = supabase
+      .channel(`driver-locations-${jobIdsKey}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'driver_locations', filter: `job_id=in.(${jobIdsKey})` },
+        (payload: { eventType: string; new: Partial<DriverLocationRow>; old: Partial<DriverLocationRow> }) => {
+          setLocations((current) => {
+            const next = { ...current }
+            if (payload.eventType === 'DELETE') {
+              if (payload.old.job_id) delete next[payload.old.job_id]
+            } else if (payload.new.job_id) {
+              next[payload.new.job_id] = payload.new as DriverLocationRow
+            }
+            return next
+          })
+        },
+      )
+      .subscribe()
+
+    const interval = window.setInterval(() => setLocations(pruneStale), PRUNE_INTERVAL_MS)
+
+    return () => {
+      active = false
+      window.clearInterval(interval)
+      supabase.removeChannel(channel)
+    }
+  }, [jobIdsKey, supabase])
+
+  return locations
+}
@@ -0,0 +1,67 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useSupabase } from "@/components/providers/SupabaseProvider"
+import { averageServiceSeconds, computeRouteEtas, hasMovedSignificantly, type EtaStop } from "@/lib/eta"
+import type { LatLng } from "@/lib/routeOptimizer"
+
+const SERVICE_HISTORY_SAMPLE = 200
+
+/**
+ * Publishes `jobs.eta_at` for the rest of a driver's run so clients can follow
+ * it live. ETAs are recalculated whenever the remaining stops change (a stop
+ * was completed) and whenever the driver's position moves far enough from
+ * where the last ETAs were worked out.
+ */
+export function useEtaPublisher(stops: EtaStop[], origin: LatLng | null, enabled = true) {
+  const supabase = useSupabase()
+  const [serviceSeconds, setServiceSeconds] = useState<number | null>(null)
+  const publishedFromRef = useRef<LatLng | null>(null)
+  const publishedStopsRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    let active = true
+    void supabase
+      .from('jobs')
+      .select('arrived_at, completed_at')
+      .not('arrived_at', 'is', null)
+      .not('completed_at', 'is', null)
+      .order('completed_at', { ascending: false })
+      .limit(SERVICE_HISTORY_SAMPLE)
+      .then(({ data, error }) => {
+        if (!active) return
+        if (error) console.warn('Unable to load service time history', error)
+        setServiceSeconds(averageServiceSeconds(data ?? []))
+      })
+    return () => {
+      active = false
+    }
+  }, [supabase])
+
+  const publish = useCallback(
+    async (origin: LatLng, remaining: EtaStop[], seconds: number) => {
+      const now = new Date()
+      const etas = computeRouteEtas({ origin, stops: remaining, serviceSeconds: seconds, now })
+      const results = await Promise.all(
+        etas.map(({ jobId, etaAt }) =>
+          supabase.from('jobs').update({ eta_at: etaAt, eta_updated_at: now.toISOString() }).eq('id', jobId),
+        ),
+      )
+      const failed = results.find((result) => result.error)
+      if (failed) console.warn('Unable to publish ETAs', failed.error)
+    },
+    [supabase],
+  )
+
+  const stopsKey = stops.map((stop) => stop.id).join(',')
+
+  useEffect(() => {
+    if (!enabled || !origin || serviceSeconds === null || !stops.length) return
+    const stopsChanged = publishedStopsRef.current !== stopsKey
+    if (!stopsChanged && !hasMovedSignificantly(publishedFromRef.current, origin)) return
+
+    publishedStopsRef.current = stopsKey
+    publishedFromRef.current = origin
+    void publish(origin, stops, serviceSeconds)
+  }, [enabled, origin, publish, serviceSeconds, stops, stopsKey])
+}
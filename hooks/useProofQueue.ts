@@ -0,0 +1,48 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useSupabase } from "@/components/providers/SupabaseProvider"
+import { PROOF_QUEUE_EVENT, countQueuedProofs } from "@/lib/proof-queue"
+import { processProofQueue } from "@/lib/proof-upload"
+
+const RETRY_INTERVAL_MS = 30_000
+
+/**
+ * Keeps queued proofs uploading while a staff screen is open: on mount, when
+ * the device comes back online, and on a timer for proofs waiting on a retry.
+ */
+export function useProofQueue() {
+  const supabase = useSupabase()
+  const [pendingCount, setPendingCount] = useState(0)
+
+  const flush = useCallback(() => processProofQueue(supabase), [supabase])
+
+  useEffect(() => {
+    let active = true
+
+    const refreshCount = () => {
+      void countQueuedProofs().then((count) => {
+        if (active) setPendingCount(count)
+      })
+    }
+    const handleOnline = () => {
+      void flush()
+    }
+
+    refreshCount()
+    void flush()
+
+    window.addEventListener(PROOF_QUEUE_EVENT, refreshCount)
+    window.addEventListener('online', handleOnline)
+    const interval = window.setInterval(handleOnline, RETRY_INTERVAL_MS)
+
+    return () => {
+      active = false
+      window.removeEventListener(PROOF_QUEUE_EVENT, refreshCount)
+      window.removeEventListener('online', handleOnline)
+      window.clearInterval(interval)
+    }
+  }, [flush])
+
+  return { pendingCount, flush }
+}
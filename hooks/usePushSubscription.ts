@@ -0,0 +1,105 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { urlBase64ToUint8Array } from "@/lib/pushSubscriptions"
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? ''
+
+export type PushStatus = 'unsupported' | 'loading' | 'subscribed' | 'unsubscribed' | 'denied'
+
+const isPushSupported = () =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window &&
+  VAPID_PUBLIC_KEY.length > 0
+
+/** Registers the service worker and manages this browser's push subscription. */
+export function usePushSubscription() {
+  const [status, setStatus] = useState<PushStatus>('loading')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isPushSupported()) {
+      setStatus('unsupported')
+      return
+    }
+
+    let active = true
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then((registration) => registration.pushManager.getSubscription())
+      .then((subscription) => {
+        if (!active) return
+        if (Notification.permission === 'denied') setStatus('denied')
+        else setStatus(subscription ? 'subscribed' : 'unsubscribed')
+      })
+      .catch((registerError) => {
+        console.warn('Failed to register service worker', registerError)
+        if (active) setStatus('unsupported')
+      })
+
+    return () => {
+      active = false
+    }
+  }, [])
+
+  const subscribe = useCallback(async () => {
+    setError(null)
+    setStatus('loading')
+    try {
+      const permission = await Notification.requestPermission()
+      if (permission !== 'granted') {
+        setStatus(permission === 'denied' ? 'denied' : 'unsubscribed')
+        return
+      }
+
+      const registration = await navigator.serviceWorker.ready
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+        }))
+
+      const response = await fetch('/api/push-subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription.toJSON()),
+      })
+      if (!response.ok) {
+        const result = (await response.json().catch(() => null)) as { message?: string } | null
+        throw new Error(result?.message ?? 'Unable to enable push notifications.')
+      }
+      setStatus('subscribed')
+    } catch (subscribeError) {
+      console.error('Failed to subscribe to push notifications', subscribeError)
+      setError(subscribeError instanceof Error ? subscribeError.message : 'Unable to enable push notifications.')
+      setStatus('unsubscribed')
+    }
+  }, [])
+
+  const unsubscribe = useCallback(async () => {
+    setError(null)
+    setStatus('loading')
+    try {
+      const registration = await navigator.serviceWorker.ready
+      const subscription = await registration.pushManager.getSubscription()
+      if (subscription) {
+        await fetch('/api/push-subscriptions', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        })
+        await subscription.unsubscribe()
+      }
+      setStatus('unsubscribed')
+    } catch (unsubscribeError) {
+      console.error('Failed to unsubscribe from push notifications', unsubscribeError)
+      setError('Unable to turn off push notifications.')
+      setStatus('subscribed')
+    }
+  }, [])
+
+  return { status, error, subscribe, unsubscribe }
+}
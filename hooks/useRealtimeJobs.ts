@@ -2,7 +2,9 @@
 
 import { useEffect } from "react"
 import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js"
-import type { Job } from "@/components/client/ClientPortalProvider"
+import { liveJobStatus, type Job } from "@/components/client/ClientPortalProvider"
+import { etaMinutesUntil } from "@/lib/eta"
+import { describeSkipReason } from "@/lib/jobSkips"
 import { normaliseBinList } from "@/lib/binLabels"
 import { nextDay, setHours, setMinutes, startOfToday } from "date-fns"
 import type { Day } from "date-fns"
@@ -52,7 +54,12 @@ const createJobFromPayload = (payload: any, fallbackAccountId: string | null): J
   const propertyId = normaliseId(payload.property_id)
   const accountId = normaliseId(payload.account_id) ?? fallbackAccountId ?? 'unknown'
   const completedAt = parseDateToIso(payload.last_completed_on)
-  const status: Job['status'] = completedAt ? 'completed' : 'scheduled'
+  const liveStatus = liveJobStatus(payload.status)
+  const status: Job['status'] = completedAt
+    ? payload.status === 'skipped'
+      ? 'skipped'
+      : 'completed'
+    : liveStatus ?? 'scheduled'
   return {
     id: String(payload.id),
     accountId,
@@ -60,17 +67,19 @@ const createJobFromPayload = (payload: any, fallbackAccountId: string | null): J
     propertyName: payload.address ?? 'Property',
     status,
     scheduledAt,
-    etaMinutes: null,
-    startedAt: null,
+    etaMinutes: liveStatus || status === 'scheduled' ? etaMinutesUntil(payload.eta_at) : null,
+    etaAt: liveStatus || status === 'scheduled' ? parseDateToIso(payload.eta_at) : null,
+    startedAt: liveStatus ? parseDateToIso(payload.started_at) : null,
     completedAt,
     crewName: null,
     proofPhotoKeys: payload.photo_path ? [payload.photo_path] : [],
     routePolyline: null,
-    lastLatitude: payload.lat ?? undefined,
-    lastLongitude: payload.lng ?? undefined,
+    lastLatitude: null,
+    lastLongitude: null,
     notes: payload.notes ?? null,
     jobType: payload.job_type ?? null,
     bins,
+    skipReason: status === 'skipped' ? describeSkipReason(payload.skip_reason) : null,
   }
 }
 
@@ -0,0 +1,92 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { ShareLinkRow } from "@/lib/shareLinks"
+
+export type NewShareLink = {
+  propertyIds?: string[]
+  expiresInDays: number
+  label?: string | null
+}
+
+/** Loads, creates and revokes `/c/[token]` share links for one account. */
+export function useShareLinks(accountId: string | null, enabled = true) {
+  const [links, setLinks] = useState<ShareLinkRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!accountId || !enabled) return
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/share-links?accountId=${encodeURIComponent(accountId)}`)
+      const result = (await response.json().catch(() => null)) as
+        | { links?: ShareLinkRow[]; message?: string }
+        | null
+      if (!response.ok) {
+        setError(result?.message ?? 'Unable to load share links.')
+        return
+      }
+      setLinks(result?.links ?? [])
+      setError(null)
+    } catch (loadError) {
+      console.error('Failed to load share links', loadError)
+      setError('Unable to load share links.')
+    } finally {
+      setLoading(false)
+    }
+  }, [accountId, enabled])
+
+  useEffect(() => {
+    setLinks([])
+    void refresh()
+  }, [refresh])
+
+  /** Returns the new link's URL, which can't be shown again once dismissed. */
+  const create = useCallback(
+    async (input: NewShareLink): Promise<string | null> => {
+      if (!accountId) return null
+      setError(null)
+      try {
+        const response = await fetch('/api/share-links', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ accountId, ...input }),
+        })
+        const result = (await response.json().catch(() => null)) as { url?: string; message?: string } | null
+        if (!response.ok || !result?.url) {
+          setError(result?.message ?? 'Unable to create the share link.')
+          return null
+        }
+        await refresh()
+        return result.url
+      } catch (createError) {
+        console.error('Failed to create share link', createError)
+        setError('Unable to create the share link.')
+        return null
+      }
+    },
+    [accountId, refresh],
+  )
+
+  const revoke = useCallback(
+    async (id: string) => {
+      setError(null)
+      try {
+        const response = await fetch(`/api/share-links/${encodeURIComponent(id)}`, { method: 'DELETE' })
+        if (!response.ok) {
+          const result = (await response.json().catch(() => null)) as { message?: string } | null
+          setError(result?.message ?? 'Unable to revoke the share link.')
+          return
+        }
+        setLinks((current) => current.filter((link) => link.id !== id))
+      } catch (revokeError) {
+        console.error('Failed to revoke share link', revokeError)
+        setError('Unable to revoke the share link.')
+      }
+    },
+    [],
+  )
+
+  return { links, loading, error, refresh, create, revoke }
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { DriverPosition } from "@/lib/driverLocation"
+
+/** Follows the device's GPS position while `enabled`, for features that need more than a one-off fix. */
+export function useWatchedPosition(enabled = true) {
+  const [position, setPosition] = useState<DriverPosition | null>(null)
+
+  useEffect(() => {
+    if (!enabled || typeof navigator === 'undefined' || !navigator.geolocation) return
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) =>
+        setPosition({
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          heading: Number.isFinite(pos.coords.heading) ? pos.coords.heading : null,
+        }),
+      (err) => console.warn('Unable to watch position', err),
+      { enableHighAccuracy: true, maximumAge: 5_000 },
+    )
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [enabled])
+
+  return position
+}
@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from "node:crypto";
+import { INVITE_TTL_DAYS } from "@/lib/accountMembers";
+
+/** A fresh invite token; only its hash is stored. */
+export function createInviteToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function inviteExpiresAt(now: Date = new Date()): string {
+  return new Date(now.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
@@ -0,0 +1,86 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+export const ACCOUNT_ROLES = ["owner", "manager", "viewer"] as const;
+
+export type AccountRole = (typeof ACCOUNT_ROLES)[number];
+
+export type AccountMemberStatus = "invited" | "active" | "revoked";
+
+export type AccountPermission = "view" | "edit_settings" | "request_properties" | "manage_team" | "share_links";
+
+export type AccountMemberRow = {
+  id: string;
+  account_id: string;
+  user_id: string | null;
+  email: string;
+  role: AccountRole;
+  status: AccountMemberStatus;
+  invite_expires_at: string | null;
+  invited_by: string | null;
+  invited_at: string | null;
+  accepted_at: string | null;
+};
+
+/** Columns safe to return to the portal; the invite token hash stays server-side. */
+export const ACCOUNT_MEMBER_COLUMNS =
+  "id, account_id, user_id, email, role, status, invite_expires_at, invited_by, invited_at, accepted_at";
+
+export const INVITE_TTL_DAYS = 14;
+
+const ROLE_PERMISSIONS: Record<AccountRole, readonly AccountPermission[]> = {
+  owner: ["view", "edit_settings", "request_properties", "manage_team", "share_links"],
+  manager: ["view", "edit_settings", "request_properties"],
+  viewer: ["view"],
+};
+
+export function accountRoleCan(role: AccountRole | null | undefined, permission: AccountPermission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function normalizeAccountRole(value: unknown): AccountRole | null {
+  if (typeof value !== "string") return null;
+  const normalized = value.trim().toLowerCase();
+  return (ACCOUNT_ROLES as readonly string[]).includes(normalized) ? (normalized as AccountRole) : null;
+}
+
+export const accountInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address."),
+  role: z.enum(ACCOUNT_ROLES, { message: "Choose owner, manager or viewer." }),
+});
+
+export const accountMemberUpdateSchema = z.object({
+  role: z.enum(ACCOUNT_ROLES, { message: "Choose owner, manager or viewer." }),
+});
+
+export type AccountInviteInput = z.infer<typeof accountInviteSchema>;
+
+/**
+ * Active memberships for a user, keyed by account id. Read failures (for
+ * example before the table exists) return an empty map so the portal falls
+ * back to treating the user as the account owner.
+ */
+export async function loadAccountMemberships(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<Map<string, AccountRole>> {
+  const memberships = new Map<string, AccountRole>();
+  const { data, error } = await supabase
+    .from("account_members")
+    .select("account_id, role")
+    .eq("user_id", userId)
+    .eq("status", "active");
+
+  if (error) {
+    console.warn("Failed to load account memberships", error);
+    return memberships;
+  }
+
+  (data ?? []).forEach((row: { account_id: string | null; role: string | null }) => {
+    const role = normalizeAccountRole(row.role);
+    if (row.account_id && role) memberships.set(row.account_id, role);
+  });
+
+  return memberships;
+}
@@ -0,0 +1,21 @@
+export type AccountOption = {
+  id: string;
+  name: string;
+};
+
+type AccountSourceRow = {
+  account_id: string | null;
+  company: string | null;
+  client_name: string | null;
+};
+
+/** One option per account on `client_list`, named after its company or client and sorted by name. */
+export function buildAccountOptions(rows: AccountSourceRow[]): AccountOption[] {
+  const names = new Map<string, string>();
+  for (const row of rows) {
+    const id = row.account_id?.trim();
+    if (!id || names.has(id)) continue;
+    names.set(id, row.company?.trim() || row.client_name?.trim() || id);
+  }
+  return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,62 @@
+/** Tables whose admin changes are written to `audit_log` by the `record_audit` trigger. */
+export const AUDITED_TABLES = ["client_list", "jobs", "logs"] as const;
+
+export type AuditedTable = (typeof AUDITED_TABLES)[number];
+
+export const AUDITED_TABLE_LABELS: Record<AuditedTable, string> = {
+  client_list: "Property list",
+  jobs: "Jobs",
+  logs: "Logs & proofs",
+};
+
+export type AuditAction = "insert" | "update" | "delete";
+
+export type AuditRecord = Record<string, unknown>;
+
+/** One row of `audit_log`. `before` is null for inserts and `after` for deletes. */
+export type AuditEntry = {
+  id: string;
+  actor_id: string | null;
+  table_name: AuditedTable;
+  row_id: string;
+  action: AuditAction;
+  before: AuditRecord | null;
+  after: AuditRecord | null;
+  created_at: string;
+};
+
+export const AUDIT_COLUMNS = "id, actor_id, table_name, row_id, action, before, after, created_at";
+
+export type AuditFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export function isAuditedTable(value: unknown): value is AuditedTable {
+  return typeof value === "string" && (AUDITED_TABLES as readonly string[]).includes(value);
+}
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Fields that differ between the before and after snapshots, in column order.
+ * Inserts list every non-null field of the new row and deletes every non-null
+ * field of the old one.
+ */
+export function diffAuditEntry(entry: Pick<AuditEntry, "before" | "after">): AuditFieldChange[] {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter((field) => !isSameValue(before[field], after[field]))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+/** A snapshot value as short display text. */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+import { resolvePortalRole, type PortalRole } from "@/lib/portalRoles";
+import {
+  ROLE_CLAIM_COOKIE_NAME,
+  ROLE_CLAIM_COOKIE_OPTIONS,
+  getRoleClaimSecret,
+  issueRoleClaim,
+} from "./roleClaim";
+
+export type AuthorizedRole = NonNullable<PortalRole>;
+
+export type AuthContext = {
+  supabase: SupabaseClient;
+  user: User;
+  role: AuthorizedRole;
+};
+
+export class AuthorizationError extends Error {
+  constructor(
+    readonly status: 401 | 403,
+    message = status === 401 ? "Unauthorized." : "Forbidden.",
+  ) {
+    super(message);
+    this.name = "AuthorizationError";
+  }
+}
+
+/**
+ * Loads the signed-in user and their role, and throws an `AuthorizationError`
+ * unless the role is one of `allowed`. The role is always looked up rather
+ * than read from the middleware's claim cookie, and the cookie is refreshed
+ * with what was found. Works in route handlers and server actions.
+ */
+export async function requireRole(
+  allowed: AuthorizedRole | AuthorizedRole[],
+  scope = "auth",
+): Promise<AuthContext> {
+  const cookieStore = await cookies();
+  const supabase = createRouteHandlerClient({
+    cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+  });
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.warn(`[${scope}] unauthorized request`, { userError });
+    throw new AuthorizationError(401);
+  }
+
+  const role = await resolvePortalRole(supabase, user);
+  const allowedRoles = Array.isArray(allowed) ? allowed : [allowed];
+  if (!role || !allowedRoles.includes(role)) {
+    console.warn(`[${scope}] forbidden request`, { userId: user.id, role });
+    throw new AuthorizationError(403);
+  }
+
+  const secret = getRoleClaimSecret();
+  if (secret) {
+    try {
+      cookieStore.set(ROLE_CLAIM_COOKIE_NAME, await issueRoleClaim(user.id, role, secret), ROLE_CLAIM_COOKIE_OPTIONS);
+    } catch {
+      // Cookies are read-only while a server component renders.
+    }
+  }
+
+  return { supabase, user, role };
+}
+
+/**
+ * Wraps a route handler so it only runs for the given roles. Unauthenticated
+ * requests get a 401 and other roles a 403, in the same JSON shape the API
+ * routes use for their own errors.
+ */
+export function withAuth<Context = unknown>(
+  allowed: AuthorizedRole | AuthorizedRole[],
+  scope: string,
+  handler: (request: Request, auth: AuthContext, context: Context) => Promise<Response>,
+) {
+  return async (request: Request, context: Context): Promise<Response> => {
+    let auth: AuthContext;
+    try {
+      auth = await requireRole(allowed, scope);
+    } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return NextResponse.json({ message: error.message }, { status: error.status });
+      }
+      console.error(`[${scope}] unable to authorize request`, { error });
+      return NextResponse.json({ message: "Unable to verify your access." }, { status: 500 });
+    }
+    return handler(request, auth, context);
+  };
+}
@@ -0,0 +1,93 @@
+import { normalizePortalRole, type PortalRole } from "@/lib/portalRoles";
+
+export const ROLE_CLAIM_COOKIE_NAME = "binbird-role";
+
+/** How long middleware trusts a claim before looking the role up again. */
+export const ROLE_CLAIM_TTL_SECONDS = 5 * 60;
+
+export type RoleClaim = {
+  userId: string;
+  role: NonNullable<PortalRole>;
+  /** Unix time in milliseconds. */
+  expiresAt: number;
+};
+
+export const ROLE_CLAIM_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: ROLE_CLAIM_TTL_SECONDS,
+} as const;
+
+/** Claims are only issued when `ROLE_CLAIM_SECRET` is set; without it every request looks the role up. */
+export function getRoleClaimSecret(): string | null {
+  return process.env.ROLE_CLAIM_SECRET?.trim() || null;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+// Web Crypto rather than node:crypto so the same code runs in middleware.
+const importKey = (secret: string) =>
+  crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+
+/** `<payload>.<signature>`, both base64url: the payload is JSON and the signature an HMAC-SHA256 of it. */
+export async function signRoleClaim(claim: RoleClaim, secret: string): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claim)));
+  const signature = await crypto.subtle.sign("HMAC", await importKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The role in a signed claim, or null when the claim is malformed, signed
+ * with another secret, expired, or belongs to a different user.
+ */
+export async function verifyRoleClaim(
+  value: string | null | undefined,
+  secret: string,
+  userId: string,
+  now = Date.now(),
+): Promise<PortalRole> {
+  const [payload, signature, ...rest] = value?.split(".") ?? [];
+  if (!payload || !signature || rest.length) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload),
+    );
+    if (!valid) return null;
+
+    const claim = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Partial<RoleClaim>;
+    if (claim.userId !== userId || typeof claim.expiresAt !== "number" || claim.expiresAt <= now) return null;
+    return normalizePortalRole(claim.role);
+  } catch {
+    return null;
+  }
+}
+
+export async function issueRoleClaim(
+  userId: string,
+  role: NonNullable<PortalRole>,
+  secret: string,
+  now = Date.now(),
+): Promise<string> {
+  return signRoleClaim({ userId, role, expiresAt: now + ROLE_CLAIM_TTL_SECONDS * 1000 }, secret);
+}
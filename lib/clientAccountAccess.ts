@@ -0,0 +1,109 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { buildOrFilters } from "@/lib/clientPortalAccess";
+import { accountRoleCan, normalizeAccountRole, type AccountRole } from "@/lib/accountMembers";
+import { resolvePortalRole } from "@/lib/portalRoles";
+
+type AccountClientRow = {
+  property_id: string;
+  account_id: string | null;
+  email: string | null;
+};
+
+const normalizeIdentifier = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length ? trimmed : null;
+};
+
+/** The separate addresses in a client_list email cell, which may list several. */
+const splitRowEmails = (value: string | null): string[] =>
+  (value ?? "")
+    .split(/[,\s;]+/)
+    .map((part) => part.trim().toLowerCase())
+    .filter((part) => part.includes("@"));
+
+/**
+ * Mirrors how the client portal groups client_list rows into accounts: a user
+ * belongs to an account when one of its properties lists their sign-in email
+ * exactly. `user_metadata` is ignored because users can edit it. Users without
+ * any properties get a personal account keyed by their user id, which is also
+ * accepted here.
+ */
+export async function userCanAccessAccount(
+  supabase: SupabaseClient,
+  user: User,
+  accountId: string,
+): Promise<boolean> {
+  const trimmedAccountId = accountId.trim();
+  if (!trimmedAccountId) return false;
+
+  const { data, error } = await supabase
+    .from("client_list")
+    .select("property_id, account_id, email")
+    .or(
+      [
+        ...buildOrFilters("account_id", [trimmedAccountId]),
+        ...buildOrFilters("property_id", [trimmedAccountId]),
+      ].join(","),
+    );
+
+  if (error) {
+    console.warn("Failed to verify client account access", error);
+    return false;
+  }
+
+  const rows = (data ?? []) as AccountClientRow[];
+  const accountRows = rows.filter((row) => {
+    const derived = normalizeIdentifier(row.account_id) ?? normalizeIdentifier(row.property_id);
+    return derived === trimmedAccountId;
+  });
+
+  if (!accountRows.length) {
+    return trimmedAccountId === user.id;
+  }
+
+  const email = user.email?.trim().toLowerCase();
+  if (!email) return false;
+  return accountRows.some((row) => splitRowEmails(row.email).includes(email));
+}
+
+/**
+ * The user's role on an account. An active `account_members` row wins;
+ * otherwise users whose email is on one of the account's properties are treated
+ * as its owner, as they were before memberships existed.
+ */
+export async function getAccountRole(
+  supabase: SupabaseClient,
+  user: User,
+  accountId: string,
+): Promise<AccountRole | null> {
+  const trimmedAccountId = accountId.trim();
+  if (!trimmedAccountId) return null;
+
+  const { data: membership, error } = await supabase
+    .from("account_members")
+    .select("role")
+    .eq("account_id", trimmedAccountId)
+    .eq("user_id", user.id)
+    .eq("status", "active")
+    .maybeSingle();
+
+  if (error) {
+    console.warn("Failed to load account membership", error);
+  }
+
+  const memberRole = normalizeAccountRole(membership?.role);
+  if (memberRole) return memberRole;
+
+  return (await userCanAccessAccount(supabase, user, trimmedAccountId)) ? "owner" : null;
+}
+
+/** Admins can share any account; otherwise only the account's owners can. */
+export async function canManageShareLinks(
+  supabase: SupabaseClient,
+  user: User,
+  accountId: string,
+): Promise<boolean> {
+  if ((await resolvePortalRole(supabase, user)) === "admin") return true;
+  return accountRoleCan(await getAccountRole(supabase, user, accountId), "share_links");
+}
@@ -0,0 +1,266 @@
+import { CLIENT_FIELD_CONFIGS, type ClientListRow } from "@/components/admin/clientFieldConfig";
+import { parseDayIndex, parseLatLng } from "@/lib/jobGeneration";
+
+export type ClientImportField = keyof ClientListRow;
+
+/** A cell as read from CSV (always text) or XLSX (text, numbers, booleans and dates). */
+export type ClientImportCell = string | number | boolean | Date | null | undefined;
+
+export type ClientImportMode = "insert" | "upsert";
+
+/** Which field each column of the file maps onto, by column index. `null` columns are ignored. */
+export type ClientImportMapping = (ClientImportField | null)[];
+
+export type ClientImportRowValues = Partial<Record<ClientImportField, string | number | null>>;
+
+export type ClientImportRow = {
+  /** Line in the source file, counting the header as line 1. */
+  line: number;
+  values: ClientImportRowValues;
+  errors: string[];
+};
+
+export type ClientImportStaffMember = {
+  id: string;
+  name: string;
+};
+
+/** Largest file the importer accepts in one go. */
+export const MAX_CLIENT_IMPORT_ROWS = 2000;
+
+const FREQUENCIES = new Map([
+  ["weekly", "Weekly"],
+  ["fortnightly", "Fortnightly"],
+]);
+
+const FLIP_VALUES = new Map<string, string | null>([
+  ["yes", "Yes"],
+  ["y", "Yes"],
+  ["true", "Yes"],
+  ["1", "Yes"],
+  ["no", null],
+  ["n", null],
+  ["false", null],
+  ["0", null],
+]);
+
+const DAY_FIELDS: ClientImportField[] = ["collection_day", "put_bins_out"];
+const NUMBER_FIELDS: ClientImportField[] = ["red_bins", "yellow_bins", "green_bins", "price_per_month"];
+const DATE_FIELDS: ClientImportField[] = ["trial_start", "membership_start"];
+const FREQUENCY_FIELDS: ClientImportField[] = ["red_freq", "yellow_freq", "green_freq"];
+const FLIP_FIELDS: ClientImportField[] = ["red_flip", "yellow_flip", "green_flip"];
+
+const LABELS = new Map(CLIENT_FIELD_CONFIGS.map((config) => [config.key, config.label]));
+const labelFor = (field: ClientImportField) => LABELS.get(field) ?? field;
+
+const headerKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const HEADER_ALIASES = new Map<string, ClientImportField>(
+  CLIENT_FIELD_CONFIGS.flatMap((config) => [
+    [headerKey(config.key), config.key] as const,
+    [headerKey(config.label), config.key] as const,
+  ]),
+);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks, CRLF line endings and a leading BOM.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim().length)) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index += 1;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length || row.length) endRow();
+
+  return rows;
+}
+
+/** Maps each header onto the field whose key or label it matches, ignoring case and punctuation. */
+export function suggestClientImportMapping(headers: string[]): ClientImportMapping {
+  const used = new Set<ClientImportField>();
+  return headers.map((header) => {
+    const field = HEADER_ALIASES.get(headerKey(header)) ?? null;
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const cellToText = (cell: ClientImportCell): string => {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) {
+    return Number.isNaN(cell.getTime())
+      ? ""
+      : `${cell.getUTCFullYear()}-${pad(cell.getUTCMonth() + 1)}-${pad(cell.getUTCDate())}`;
+  }
+  return String(cell).trim();
+};
+
+/** `YYYY-MM-DD`, or Australian `D/M/YYYY`, as an ISO date. */
+const parseImportDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : local
+      ? [Number(local[3]), Number(local[2]), Number(local[1])]
+      : [Number.NaN, Number.NaN, Number.NaN];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Checks one row and converts it to what `client_list` stores: day names must
+ * name a weekday, lat/lng must be a valid coordinate pair, frequencies are
+ * Weekly or Fortnightly, and flips are Yes or empty. Staff can be given by id
+ * or by name.
+ */
+export function validateClientImportRow(
+  raw: Partial<Record<ClientImportField, ClientImportCell>>,
+  staff: ClientImportStaffMember[] = [],
+): { values: ClientImportRowValues; errors: string[] } {
+  const values: ClientImportRowValues = {};
+  const errors: string[] = [];
+
+  for (const [key, cell] of Object.entries(raw) as [ClientImportField, ClientImportCell][]) {
+    const text = cellToText(cell);
+    const label = labelFor(key);
+
+    if (!text.length) {
+      values[key] = null;
+      continue;
+    }
+
+    if (DAY_FIELDS.includes(key)) {
+      if (parseDayIndex(text) === null) errors.push(`${label} "${text}" is not a day of the week.`);
+      values[key] = text;
+    } else if (key === "lat_lng") {
+      const { lat, lng } = parseLatLng(text);
+      if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        errors.push(`${label} "${text}" must be "latitude, longitude".`);
+      }
+      values[key] = text;
+    } else if (NUMBER_FIELDS.includes(key)) {
+      const parsed = typeof cell === "number" ? cell : Number(text.replace(/^\$/, ""));
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        errors.push(`${label} "${text}" must be a number of zero or more.`);
+        values[key] = text;
+      } else {
+        values[key] = parsed;
+      }
+    } else if (DATE_FIELDS.includes(key)) {
+      const date = parseImportDate(text);
+      if (!date) errors.push(`${label} "${text}" must be a date like 2026-03-01 or 1/3/2026.`);
+      values[key] = date ?? text;
+    } else if (FREQUENCY_FIELDS.includes(key)) {
+      const frequency = FREQUENCIES.get(text.toLowerCase());
+      if (!frequency) errors.push(`${label} "${text}" must be Weekly or Fortnightly.`);
+      values[key] = frequency ?? text;
+    } else if (FLIP_FIELDS.includes(key)) {
+      const normalized = text.toLowerCase();
+      if (!FLIP_VALUES.has(normalized)) errors.push(`${label} "${text}" must be Yes or No.`);
+      values[key] = FLIP_VALUES.has(normalized) ? (FLIP_VALUES.get(normalized) ?? null) : text;
+    } else if (key === "email") {
+      if (!EMAIL_PATTERN.test(text)) errors.push(`${label} "${text}" is not a valid email address.`);
+      values[key] = text;
+    } else if (key === "assigned_to") {
+      const member =
+        staff.find((candidate) => candidate.id === text) ??
+        staff.find((candidate) => candidate.name.toLowerCase() === text.toLowerCase());
+      if (!member) errors.push(`${label} "${text}" doesn't match a staff member.`);
+      values[key] = member?.id ?? text;
+    } else if (key === "property_id") {
+      if (!UUID_PATTERN.test(text)) errors.push(`${label} "${text}" must be a property id copied from the list.`);
+      values[key] = text;
+    } else {
+      values[key] = text;
+    }
+  }
+
+  if (!values.address) errors.push("Address is required.");
+
+  return { values, errors };
+}
+
+/**
+ * Adds an error to every row after the first that repeats a property id.
+ * Ids are compared ignoring case, as Postgres compares UUIDs.
+ */
+export function flagDuplicatePropertyIds<Row extends Pick<ClientImportRow, "line" | "values" | "errors">>(
+  rows: Row[],
+): Row[] {
+  const seenPropertyIds = new Map<string, number>();
+  for (const row of rows) {
+    const propertyId = typeof row.values.property_id === "string" ? row.values.property_id.toLowerCase() : null;
+    if (!propertyId) continue;
+    const firstLine = seenPropertyIds.get(propertyId);
+    if (firstLine !== undefined) {
+      row.errors.push(`Property ID is also used on line ${firstLine}.`);
+    } else {
+      seenPropertyIds.set(propertyId, row.line);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Applies a column mapping to the data rows of a file and validates each one.
+ * A property id repeated within the file is an error on every row after the first.
+ */
+export function buildClientImportRows(
+  rows: ClientImportCell[][],
+  mapping: ClientImportMapping,
+  staff: ClientImportStaffMember[] = [],
+): ClientImportRow[] {
+  return flagDuplicatePropertyIds(
+    rows.map((cells, index) => {
+      const raw: Partial<Record<ClientImportField, ClientImportCell>> = {};
+      mapping.forEach((field, column) => {
+        if (field) raw[field] = cells[column];
+      });
+
+      const { values, errors } = validateClientImportRow(raw, staff);
+      return { line: index + 2, values, errors };
+    }),
+  );
+}
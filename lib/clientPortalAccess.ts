@@ -1,4 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
+import { hashShareToken, isShareLinkExpired } from '@/lib/shareLinks'
 
 export type PortalClientRow = {
   property_id: string
@@ -25,8 +26,23 @@ export type PortalScope = {
   propertyIds: string[]
   rows: PortalClientRow[]
   expiresAt: string | null
+  /** True when the share link only covers some of the account's properties. */
+  restricted: boolean
 }
 
+type ShareLinkLookup = {
+  account_id: string
+  property_ids: string[] | null
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+/**
+ * Resolves a `/c/[token]` share token to the account and properties it
+ * covers. Unknown and revoked tokens resolve to null; expired tokens still
+ * resolve so callers can show an expired-link screen instead of a generic
+ * error. Pass a service-role client: share links are read without a session.
+ */
 export async function resolvePortalScope(
   supabase: SupabaseClient,
   token: string,
@@ -36,16 +52,35 @@ export async function resolvePortalScope(
     return null
   }
 
+  const { data: link, error: linkError } = await supabase
+    .from('portal_share_links')
+    .select('account_id, property_ids, expires_at, revoked_at')
+    .eq('token_hash', await hashShareToken(trimmedToken))
+    .maybeSingle<ShareLinkLookup>()
+
+  if (linkError) {
+    console.warn('Failed to resolve client portal share link', linkError)
+    return null
+  }
+
+  if (!link || link.revoked_at) {
+    return null
+  }
+
   const selectColumns =
     'property_id, account_id, client_name, company, address, notes'
 
-  const { data: propertyMatches, error: propertyError } = await supabase
+  const { data: accountMatches, error: accountError } = await supabase
     .from('client_list')
     .select(selectColumns)
-    .eq('property_id', trimmedToken)
-
-  if (propertyError) {
-    console.warn('Failed to resolve client portal scope', propertyError)
+    .or(
+      [...buildOrFilters('account_id', [link.account_id]), ...buildOrFilters('property_id', [link.account_id])].join(
+        ',',
+      ),
+    )
+
+  if (accountError) {
+    console.warn('Failed to resolve client portal account scope', accountError)
     return null
   }
 
@@ -71,69 +106,37 @@ export async function resolvePortalScope(
       typeof row.notes === 'string' && row.notes.trim().length ? row.notes.trim() : null,
   })
 
-  const normaliseRows = (rows: PortalClientRow[] | null | undefined) => {
-    const deduped = new Map<string, PortalClientRow>()
-    ;(rows ?? []).forEach((row) => {
-      const normalised = normaliseRow(row)
-      if (normalised.property_id) {
-        deduped.set(normalised.property_id, normalised)
-      }
-    })
-    return Array.from(deduped.values())
-  }
-
-  let scopedRows: PortalClientRow[] = normaliseRows(propertyMatches as PortalClientRow[])
-  let canonicalAccountId: string | null = scopedRows.length
-    ? deriveAccountId(scopedRows[0]!)
-    : null
-
-  if (!scopedRows.length) {
-    const { data: accountMatches, error: accountError } = await supabase
-      .from('client_list')
-      .select(selectColumns)
-      .eq('account_id', trimmedToken)
-
-    if (accountError) {
-      console.warn('Failed to resolve client portal account scope', accountError)
-      return null
+  const deduped = new Map<string, PortalClientRow>()
+  ;((accountMatches ?? []) as PortalClientRow[]).forEach((row) => {
+    const normalised = normaliseRow(row)
+    if (normalised.property_id && deriveAccountId(normalised) === link.account_id) {
+      deduped.set(normalised.property_id, normalised)
     }
+  })
 
-    scopedRows = normaliseRows(accountMatches as PortalClientRow[])
-    canonicalAccountId = scopedRows.length
-      ? deriveAccountId(scopedRows[0]!)
-      : trimmedToken
-  } else if (canonicalAccountId && canonicalAccountId !== trimmedToken) {
-    const { data: accountRows, error: accountError } = await supabase
-      .from('client_list')
-      .select(selectColumns)
-      .eq('account_id', canonicalAccountId)
-
-    if (accountError) {
-      console.warn('Failed to load additional client rows', accountError)
-    } else {
-      const additionalRows = normaliseRows(accountRows as PortalClientRow[] | null | undefined)
-      scopedRows = normaliseRows([...scopedRows, ...additionalRows])
-    }
-  }
+  const allowedPropertyIds = new Set(link.property_ids ?? [])
+  const restricted = allowedPropertyIds.size > 0
+  const scopedRows = Array.from(deduped.values()).filter(
+    (row) => !restricted || allowedPropertyIds.has(row.property_id),
+  )
 
   if (!scopedRows.length) {
     return null
   }
 
-  const accountId = canonicalAccountId ?? deriveAccountId(scopedRows[0]!)
-  if (!accountId) {
-    return null
-  }
-
   return {
-    accountId,
+    accountId: link.account_id,
     accountName: deriveAccountName(scopedRows[0]!),
     propertyIds: scopedRows.map((row) => row.property_id),
     rows: scopedRows,
-    expiresAt: null,
+    expiresAt: link.expires_at,
+    restricted,
   }
 }
 
+export const isPortalScopeExpired = (scope: PortalScope, now: Date = new Date()): boolean =>
+  isShareLinkExpired(scope.expiresAt, now)
+
 export const buildOrFilters = (field: string, values: string[]): string[] => {
   const filters: string[] = []
   values.forEach((value) => {
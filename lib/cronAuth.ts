@@ -0,0 +1,40 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+
+const CRON_SECRET_HEADER = "x-cron-secret";
+
+const readProvidedSecret = (request: Request) => {
+  const header = request.headers.get(CRON_SECRET_HEADER);
+  if (header) return header.trim();
+
+  // Vercel Cron sends the secret as a bearer token.
+  const authorization = request.headers.get("authorization");
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+const secretsMatch = (expected: string, provided: string) => {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+};
+
+/**
+ * Checks a cron request against `CRON_SECRET`. Returns the error response to
+ * send, or null when the request may proceed. `scope` prefixes log lines.
+ */
+export function rejectUnauthorizedCron(request: Request, scope: string): NextResponse | null {
+  const expectedSecret = process.env.CRON_SECRET?.trim();
+  if (!expectedSecret) {
+    console.error(`[${scope}] CRON_SECRET is not configured`);
+    return NextResponse.json({ message: "Cron is not configured." }, { status: 503 });
+  }
+
+  const providedSecret = readProvidedSecret(request);
+  if (!providedSecret || !secretsMatch(expectedSecret, providedSecret)) {
+    console.warn(`[${scope}] unauthorized request`);
+    return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,41 @@
+import { saveAs } from "file-saver";
+
+export type CsvColumn<Row> = {
+  header: string;
+  value: (row: Row) => string | number | boolean | null | undefined;
+};
+
+/** Spreadsheet apps run cells starting with these as formulas. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: string | number | boolean | null | undefined) => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text) && !Number.isFinite(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Rows as CSV with a header line. Cells that a spreadsheet would treat as a
+ * formula are prefixed with an apostrophe; negative numbers are left alone.
+ */
+export function toCsv<Row>(rows: Row[], columns: CsvColumn<Row>[]): string {
+  const lines = [
+    columns.map((column) => escapeCsvCell(column.header)).join(","),
+    ...rows.map((row) => columns.map((column) => escapeCsvCell(column.value(row))).join(",")),
+  ];
+  return lines.join("\r\n");
+}
+
+/** `<name>-YYYY-MM-DD.<extension>`, dated in local time. */
+export function exportFileName(name: string, extension: string, date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${name}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.${extension}`;
+}
+
+/** Saves CSV text as a download. The BOM makes Excel read it as UTF-8. */
+export function downloadCsv(fileName: string, csv: string) {
+  saveAs(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }), fileName);
+}
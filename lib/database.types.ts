@@ -22,6 +22,8 @@ export type JobRecord = {
   started_at?: string | null
   arrived_at?: string | null
   completed_at?: string | null
+  eta_at?: string | null
+  eta_updated_at?: string | null
   last_completed_on: string | null
   assigned_to: string | null
   day_of_week: string | null
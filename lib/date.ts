@@ -1,12 +1,18 @@
 const OPERATIONAL_DAY_ROLLOVER_HOUR: number = 6;
 const JOB_VISIBILITY_BLOCK_START_HOUR: number = 6;
 const JOB_VISIBILITY_BLOCK_END_HOUR: number = 12;
+const PUT_OUT_LATEST_HOUR: number = 19;
 
 export type JobVisibilityRestrictions = {
   bringIn: boolean;
   putOut: boolean;
 };
 
+export type JobTimeWindow = {
+  earliest: Date | null;
+  latest: Date | null;
+};
+
 export function getLocalISODate(date: Date = new Date()): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -14,6 +20,33 @@ export function getLocalISODate(date: Date = new Date()): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Parses a `YYYY-MM-DD` string as a local calendar date. The time is pinned to
+ * midday so the result never drifts across a day boundary.
+ */
+export function parseLocalISODate(value: string | null | undefined): Date | null {
+  const match = value?.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day), 12, 0, 0, 0);
+  if (
+    date.getFullYear() !== Number(year) ||
+    date.getMonth() !== Number(month) - 1 ||
+    date.getDate() !== Number(day)
+  ) {
+    return null;
+  }
+
+  return date;
+}
+
+export function addLocalDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
 export function getOperationalDate(now: Date = new Date()): Date {
   const operational = new Date(now);
   if (operational.getHours() < OPERATIONAL_DAY_ROLLOVER_HOUR) {
@@ -84,3 +117,26 @@ export function isJobTypeVisibilityRestricted(
 
   return restrictions.putOut;
 }
+
+/**
+ * When a job can be done on the operational day containing `now`. Bring-ins
+ * wait until the truck has passed, which is when they stop being hidden, and
+ * put-outs should be at the kerb by the evening before collection.
+ */
+export function getJobTimeWindow(
+  jobType: "put_out" | "bring_in",
+  now: Date = new Date()
+): JobTimeWindow {
+  const operationalDate = getOperationalDate(now);
+  const atHour = (hour: number) => {
+    const date = new Date(operationalDate);
+    date.setHours(hour, 0, 0, 0);
+    return date;
+  };
+
+  if (jobType === "bring_in") {
+    return { earliest: atHour(JOB_VISIBILITY_BLOCK_END_HOUR), latest: null };
+  }
+
+  return { earliest: null, latest: atHour(PUT_OUT_LATEST_HOUR) };
+}
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { haversineMeters, type LatLng } from "./routeOptimizer";
+
+export type DriverLocationRow = {
+  job_id: string;
+  staff_id: string;
+  lat: number;
+  lng: number;
+  heading: number | null;
+  route_polyline: string | null;
+  updated_at: string;
+};
+
+export const DRIVER_LOCATION_COLUMNS = "job_id, staff_id, lat, lng, heading, route_polyline, updated_at";
+
+/** Minimum time between published positions. */
+export const DRIVER_LOCATION_INTERVAL_MS = 10_000;
+
+/** A parked vehicle isn't republished until it moves at least this far. */
+export const DRIVER_LOCATION_MIN_MOVE_M = 25;
+
+/** Clients hide a vehicle whose position hasn't been refreshed for this long. */
+export const DRIVER_LOCATION_STALE_MS = 2 * 60 * 1000;
+
+export type DriverPosition = LatLng & {
+  heading?: number | null;
+};
+
+type PublishedPosition = {
+  position: LatLng;
+  at: number;
+};
+
+/** Whether a new position is worth publishing given the last one that was. */
+export function shouldPublishDriverLocation(
+  last: PublishedPosition | null,
+  position: LatLng,
+  now = Date.now(),
+): boolean {
+  if (!last) return true;
+  if (now - last.at < DRIVER_LOCATION_INTERVAL_MS) return false;
+  return haversineMeters(last.position, position) >= DRIVER_LOCATION_MIN_MOVE_M;
+}
+
+export function isDriverLocationFresh(row: Pick<DriverLocationRow, "updated_at">, now = new Date()): boolean {
+  const updatedAt = new Date(row.updated_at).getTime();
+  return !Number.isNaN(updatedAt) && now.getTime() - updatedAt <= DRIVER_LOCATION_STALE_MS;
+}
+
+/**
+ * Shares the driver's position against the job they are driving to. Only one
+ * job is shared at a time, so rows for the driver's earlier stops are removed.
+ */
+export async function publishDriverLocation(
+  supabase: SupabaseClient,
+  staffId: string,
+  jobId: string,
+  position: DriverPosition,
+  routePolyline: string | null,
+): Promise<void> {
+  const { error } = await supabase.from("driver_locations").upsert(
+    {
+      job_id: jobId,
+      staff_id: staffId,
+      lat: position.lat,
+      lng: position.lng,
+      heading: position.heading ?? null,
+      route_polyline: routePolyline,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "job_id" },
+  );
+  if (error) {
+    console.warn("Unable to publish driver location", error);
+    return;
+  }
+
+  const { error: cleanupError } = await supabase
+    .from("driver_locations")
+    .delete()
+    .eq("staff_id", staffId)
+    .neq("job_id", jobId);
+  if (cleanupError) console.warn("Unable to clear previous driver locations", cleanupError);
+}
+
+/** Removes everything the driver is sharing, e.g. when the run ends. */
+export async function stopDriverLocationSharing(supabase: SupabaseClient, staffId?: string | null): Promise<void> {
+  let id = staffId ?? null;
+  if (!id) {
+    const { data } = await supabase.auth.getUser();
+    id = data.user?.id ?? null;
+  }
+  if (!id) return;
+
+  const { error } = await supabase.from("driver_locations").delete().eq("staff_id", id);
+  if (error) console.warn("Unable to stop sharing driver location", error);
+}
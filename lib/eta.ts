@@ -0,0 +1,93 @@
+import { DEFAULT_SERVICE_S, estimateDriveSeconds, haversineMeters, type LatLng } from "./routeOptimizer";
+
+export type EtaStop = LatLng & {
+  id: string;
+};
+
+export type StopEta = {
+  jobId: string;
+  etaAt: string;
+};
+
+export type ServiceTimeSample = {
+  arrived_at?: string | null;
+  completed_at?: string | null;
+};
+
+export type RouteEtaInput = {
+  /** Where the driver is now; the first leg starts here. */
+  origin: LatLng;
+  /** Remaining stops in planned order, starting with the one being driven to. */
+  stops: EtaStop[];
+  serviceSeconds?: number;
+  now?: Date;
+};
+
+/** A new ETA is published once the driver has moved this far from the last one. */
+export const ETA_REPUBLISH_DISTANCE_M = 250;
+
+/** Published ETAs this far in the past are treated as abandoned rather than "arriving now". */
+const STALE_ETA_MS = 15 * 60 * 1000;
+
+/** Arrival-to-proof durations outside this range are GPS or data-entry noise. */
+const MIN_SERVICE_SAMPLE_S = 15;
+const MAX_SERVICE_SAMPLE_S = 30 * 60;
+
+/**
+ * Mean time spent at a stop, from jobs that recorded both an arrival and a
+ * completion. Falls back to the optimizer's default when there is no usable
+ * history.
+ */
+export function averageServiceSeconds(samples: ServiceTimeSample[], fallback = DEFAULT_SERVICE_S): number {
+  const durations = samples
+    .map((sample) => {
+      if (!sample.arrived_at || !sample.completed_at) return null;
+      const seconds = (new Date(sample.completed_at).getTime() - new Date(sample.arrived_at).getTime()) / 1000;
+      return Number.isFinite(seconds) && seconds >= MIN_SERVICE_SAMPLE_S && seconds <= MAX_SERVICE_SAMPLE_S
+        ? seconds
+        : null;
+    })
+    .filter((seconds): seconds is number => seconds !== null);
+
+  if (!durations.length) return fallback;
+  return Math.round(durations.reduce((sum, seconds) => sum + seconds, 0) / durations.length);
+}
+
+/**
+ * Arrival time for every remaining stop: the drive from the driver's position
+ * to the next stop, then service time plus the next leg for each stop after it.
+ */
+export function computeRouteEtas({
+  origin,
+  stops,
+  serviceSeconds = DEFAULT_SERVICE_S,
+  now = new Date(),
+}: RouteEtaInput): StopEta[] {
+  let elapsedSeconds = 0;
+  let previous: LatLng = origin;
+
+  return stops.map((stop, index) => {
+    if (index > 0) elapsedSeconds += serviceSeconds;
+    elapsedSeconds += estimateDriveSeconds(haversineMeters(previous, stop));
+    previous = stop;
+    return { jobId: stop.id, etaAt: new Date(now.getTime() + elapsedSeconds * 1000).toISOString() };
+  });
+}
+
+/** Whether the driver has moved far enough since the last published ETA to publish again. */
+export function hasMovedSignificantly(from: LatLng | null, to: LatLng): boolean {
+  return !from || haversineMeters(from, to) >= ETA_REPUBLISH_DISTANCE_M;
+}
+
+/**
+ * Whole minutes until a published ETA, or null when there is none, it can't be
+ * parsed, or it lapsed long enough ago that the run has clearly moved on.
+ */
+export function etaMinutesUntil(etaAt: string | null | undefined, now = new Date()): number | null {
+  if (!etaAt) return null;
+  const eta = new Date(etaAt).getTime();
+  if (Number.isNaN(eta)) return null;
+  const remainingMs = eta - now.getTime();
+  if (remainingMs < -STALE_ETA_MS) return null;
+  return Math.max(0, Math.round(remainingMs / 60_000));
+}
@@ -0,0 +1,194 @@
+import exifr from "exifr";
+
+export type ProofImageOptions = {
+  /** Longest edge of the uploaded image, in pixels. */
+  maxEdge: number;
+  /** JPEG quality for the uploaded image, between 0 and 1. */
+  quality: number;
+  thumbnailEdge: number;
+  thumbnailQuality: number;
+  /** Time zone the watermark's timestamp is written in. */
+  timeZone: string;
+};
+
+export type ProcessedProofImage = {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  /** EXIF capture time of the original photo, when it had one. */
+  capturedAt: string | null;
+};
+
+export type ProofWatermark = {
+  address: string | null;
+  /** Used for the watermark when the photo has no EXIF capture time. */
+  fallbackTime: Date;
+};
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const DEFAULT_PROOF_IMAGE_OPTIONS: ProofImageOptions = {
+  maxEdge: readPositiveNumber(process.env.NEXT_PUBLIC_PROOF_IMAGE_MAX_EDGE, 1600),
+  quality: Math.min(1, readPositiveNumber(process.env.NEXT_PUBLIC_PROOF_IMAGE_QUALITY, 0.8)),
+  thumbnailEdge: 320,
+  thumbnailQuality: 0.7,
+  timeZone: "Australia/Melbourne",
+};
+
+/** Scales a size down so its longest edge fits `maxEdge`. Images are never scaled up. */
+export function fitWithin(width: number, height: number, maxEdge: number): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (!longest || longest <= maxEdge) return { width, height };
+  const scale = maxEdge / longest;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/** The two lines burned into the bottom of a proof photo: when it was taken and where. */
+export function formatWatermarkLines(takenAt: Date, address: string | null, timeZone: string): string[] {
+  const time = new Intl.DateTimeFormat("en-AU", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone,
+  }).format(takenAt);
+  const trimmed = address?.trim();
+  return trimmed ? [time, trimmed] : [time];
+}
+
+/** EXIF capture time of a photo, or null when it has none or can't be read. */
+export async function readPhotoCapturedAt(photo: Blob): Promise<string | null> {
+  try {
+    const tags = await exifr.parse(photo, ["DateTimeOriginal", "CreateDate"]);
+    const taken = tags?.DateTimeOriginal ?? tags?.CreateDate;
+    return taken instanceof Date && !Number.isNaN(taken.getTime()) ? taken.toISOString() : null;
+  } catch (err) {
+    console.warn("Unable to read photo EXIF data", err);
+    return null;
+  }
+}
+
+async function readRotation(photo: Blob) {
+  try {
+    return (await exifr.rotation(photo)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function loadImage(photo: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(photo);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Unable to process image."));
+      img.src = url;
+    });
+    if (typeof image.decode === "function") {
+      try {
+        await image.decode();
+      } catch {}
+    }
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to convert image to JPEG."))),
+      "image/jpeg",
+      quality,
+    );
+  });
+}
+
+function createContext(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Unable to convert image to JPEG.");
+  return { canvas, ctx };
+}
+
+function drawWatermark(ctx: CanvasRenderingContext2D, width: number, height: number, lines: string[]) {
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) / 28));
+  const padding = Math.round(fontSize * 0.6);
+  const lineHeight = Math.round(fontSize * 1.3);
+  const bandHeight = padding * 2 + lineHeight * lines.length;
+  const maxTextWidth = width - padding * 2;
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+  ctx.fillRect(0, height - bandHeight, width, bandHeight);
+  ctx.font = `600 ${fontSize}px system-ui, -apple-system, sans-serif`;
+  ctx.fillStyle = "#ffffff";
+  ctx.textBaseline = "top";
+
+  lines.forEach((line, index) => {
+    let text = line;
+    while (text.length > 1 && ctx.measureText(text).width > maxTextWidth) {
+      text = text.slice(0, -2) + "…";
+    }
+    ctx.fillText(text, padding, height - bandHeight + padding + index * lineHeight);
+  });
+}
+
+/**
+ * Turns a captured photo into what gets uploaded: upright (browsers that don't
+ * apply EXIF orientation are corrected by hand), scaled to `maxEdge`, stamped
+ * with the capture time and address, and re-encoded as JPEG alongside a small
+ * thumbnail. The EXIF capture time is returned so it survives the re-encode,
+ * which strips metadata.
+ */
+export async function processProofImage(
+  photo: Blob,
+  watermark: ProofWatermark,
+  options: ProofImageOptions = DEFAULT_PROOF_IMAGE_OPTIONS,
+): Promise<ProcessedProofImage> {
+  const [capturedAt, rotation, image] = await Promise.all([
+    readPhotoCapturedAt(photo),
+    readRotation(photo),
+    loadImage(photo),
+  ]);
+
+  const sourceWidth = image.naturalWidth || image.width;
+  const sourceHeight = image.naturalHeight || image.height;
+  const rotateByHand = Boolean(rotation?.canvas && (rotation.deg || rotation.scaleX !== 1 || rotation.scaleY !== 1));
+  const swapped = rotateByHand && Boolean(rotation?.dimensionSwapped);
+  const upright = swapped ? { width: sourceHeight, height: sourceWidth } : { width: sourceWidth, height: sourceHeight };
+  const { width, height } = fitWithin(upright.width, upright.height, options.maxEdge);
+
+  const { canvas, ctx } = createContext(width, height);
+  if (rotateByHand && rotation) {
+    const drawWidth = swapped ? height : width;
+    const drawHeight = swapped ? width : height;
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(rotation.rad);
+    ctx.scale(rotation.scaleX, rotation.scaleY);
+    ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    ctx.restore();
+  } else {
+    ctx.drawImage(image, 0, 0, width, height);
+  }
+
+  const takenAt = capturedAt ? new Date(capturedAt) : watermark.fallbackTime;
+  drawWatermark(ctx, width, height, formatWatermarkLines(takenAt, watermark.address, options.timeZone));
+
+  const thumbnailSize = fitWithin(width, height, options.thumbnailEdge);
+  const { canvas: thumbnailCanvas, ctx: thumbnailCtx } = createContext(thumbnailSize.width, thumbnailSize.height);
+  thumbnailCtx.drawImage(canvas, 0, 0, thumbnailSize.width, thumbnailSize.height);
+
+  const [processed, thumbnail] = await Promise.all([
+    canvasToJpeg(canvas, options.quality),
+    canvasToJpeg(thumbnailCanvas, options.thumbnailQuality),
+  ]);
+
+  return { image: processed, thumbnail, width, height, capturedAt };
+}
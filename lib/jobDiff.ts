@@ -0,0 +1,279 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { GeneratedJobRow } from "@/lib/jobGeneration";
+
+export type ExistingJobRow = {
+  id: string;
+  account_id: string | null;
+  property_id: string | null;
+  address: string | null;
+  lat: number | null;
+  lng: number | null;
+  job_type: string | null;
+  bins: string | null;
+  notes: string | null;
+  client_name: string | null;
+  photo_path: string | null;
+  assigned_to: string | null;
+  day_of_week: string | null;
+  status?: string | null;
+  last_completed_on: string | null;
+};
+
+export const EXISTING_JOB_COLUMNS =
+  "id, account_id, property_id, address, lat, lng, job_type, bins, notes, client_name, photo_path, assigned_to, day_of_week, status, last_completed_on";
+
+export type JobDiffKind = "added" | "removed" | "changed" | "unchanged";
+
+/**
+ * Columns regeneration owns: they are copied from client_list and refreshed
+ * whenever the property changes.
+ */
+export const JOB_SOURCE_FIELDS = [
+  "account_id",
+  "address",
+  "lat",
+  "lng",
+  "bins",
+  "client_name",
+  "photo_path",
+] as const;
+
+/**
+ * Columns admins edit per job in JobManager. Regeneration never overwrites
+ * them on an existing row; differences are reported so the reviewer can see
+ * which manual edits are being kept.
+ */
+export const JOB_OVERRIDE_FIELDS = ["assigned_to", "notes"] as const;
+
+export type JobSourceField = (typeof JOB_SOURCE_FIELDS)[number];
+export type JobOverrideField = (typeof JOB_OVERRIDE_FIELDS)[number];
+
+export type JobFieldChange<Field extends string = JobSourceField | JobOverrideField> = {
+  field: Field;
+  from: string | number | null;
+  to: string | number | null;
+};
+
+export type JobDiffEntry = {
+  key: string;
+  kind: JobDiffKind;
+  dayOfWeek: string;
+  jobType: "put_out" | "bring_in";
+  address: string;
+  planned: GeneratedJobRow | null;
+  existing: ExistingJobRow | null;
+  changes: JobFieldChange<JobSourceField>[];
+  overrides: JobFieldChange<JobOverrideField>[];
+};
+
+export type JobDiffSummary = Record<JobDiffKind, number>;
+
+export type JobDiffMutations = {
+  inserts: GeneratedJobRow[];
+  updates: { id: string; values: Partial<Pick<GeneratedJobRow, JobSourceField>> }[];
+  deletes: string[];
+};
+
+const normalizeJobType = (value: string | null | undefined): "put_out" | "bring_in" =>
+  value?.trim().toLowerCase() === "bring_in" ? "bring_in" : "put_out";
+
+const normalizeValue = (value: unknown): string | number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const trimmed = String(value).trim();
+  return trimmed.length ? trimmed : null;
+};
+
+const valuesMatch = (field: string, left: unknown, right: unknown): boolean => {
+  const a = normalizeValue(left);
+  const b = normalizeValue(right);
+  if (a === null || b === null) return a === b;
+  if (field === "lat" || field === "lng") {
+    return Math.abs(Number(a) - Number(b)) < 1e-7;
+  }
+  return String(a) === String(b);
+};
+
+export const buildJobDiffKey = (job: {
+  property_id: string | null;
+  job_type: string | null;
+  day_of_week: string | null;
+}): string =>
+  [
+    job.property_id?.trim() ?? "",
+    normalizeJobType(job.job_type),
+    job.day_of_week?.trim().toLowerCase() ?? "",
+  ].join("|");
+
+const compareFields = <Field extends JobSourceField | JobOverrideField>(
+  fields: readonly Field[],
+  planned: GeneratedJobRow,
+  existing: ExistingJobRow,
+): JobFieldChange<Field>[] =>
+  fields
+    .filter((field) => !valuesMatch(field, existing[field], planned[field]))
+    .map((field) => ({
+      field,
+      from: normalizeValue(existing[field]),
+      to: normalizeValue(planned[field]),
+    }));
+
+/**
+ * Compares the jobs client_list would produce with the uncompleted rows already
+ * in `jobs`. Callers pass existing rows scoped to the same days or property as
+ * the planned jobs; anything unmatched there is reported as removed.
+ */
+export function diffJobs(planned: GeneratedJobRow[], existing: ExistingJobRow[]): JobDiffEntry[] {
+  const existingByKey = new Map<string, ExistingJobRow[]>();
+  existing.forEach((row) => {
+    const key = buildJobDiffKey(row);
+    const bucket = existingByKey.get(key);
+    if (bucket) {
+      bucket.push(row);
+    } else {
+      existingByKey.set(key, [row]);
+    }
+  });
+
+  const entries: JobDiffEntry[] = [];
+  const seenPlannedKeys = new Set<string>();
+
+  planned.forEach((job) => {
+    const key = buildJobDiffKey(job);
+    if (seenPlannedKeys.has(key)) return;
+    seenPlannedKeys.add(key);
+
+    const match = existingByKey.get(key)?.shift() ?? null;
+    const base = {
+      key,
+      dayOfWeek: job.day_of_week,
+      jobType: job.job_type,
+      address: job.address,
+      planned: job,
+      existing: match,
+    };
+
+    if (!match) {
+      entries.push({ ...base, kind: "added", changes: [], overrides: [] });
+      return;
+    }
+
+    const changes = compareFields(JOB_SOURCE_FIELDS, job, match);
+    const overrides = compareFields(JOB_OVERRIDE_FIELDS, job, match);
+    entries.push({
+      ...base,
+      kind: changes.length ? "changed" : "unchanged",
+      changes,
+      overrides,
+    });
+  });
+
+  existingByKey.forEach((rows) => {
+    rows.forEach((row) => {
+      entries.push({
+        key: `removed:${row.id}`,
+        kind: "removed",
+        dayOfWeek: row.day_of_week ?? "",
+        jobType: normalizeJobType(row.job_type),
+        address: row.address ?? "",
+        planned: null,
+        existing: row,
+        changes: [],
+        overrides: [],
+      });
+    });
+  });
+
+  return entries;
+}
+
+export function summarizeJobDiff(entries: JobDiffEntry[]): JobDiffSummary {
+  const summary: JobDiffSummary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  entries.forEach((entry) => {
+    summary[entry.kind] += 1;
+  });
+  return summary;
+}
+
+/**
+ * Turns the accepted diff entries into database writes. Changed rows are
+ * updated in place so their id, status, assignee and notes survive; only the
+ * source columns that actually differ are written.
+ */
+export function buildJobDiffMutations(
+  entries: JobDiffEntry[],
+  acceptedKeys?: Iterable<string>,
+): JobDiffMutations {
+  const accepted = acceptedKeys ? new Set(acceptedKeys) : null;
+  const mutations: JobDiffMutations = { inserts: [], updates: [], deletes: [] };
+
+  entries.forEach((entry) => {
+    if (accepted && !accepted.has(entry.key)) return;
+
+    if (entry.kind === "added" && entry.planned) {
+      mutations.inserts.push(entry.planned);
+    } else if (entry.kind === "removed" && entry.existing) {
+      mutations.deletes.push(entry.existing.id);
+    } else if (entry.kind === "changed" && entry.existing && entry.planned) {
+      const planned = entry.planned;
+      const values: Partial<Pick<GeneratedJobRow, JobSourceField>> = {};
+      entry.changes.forEach(({ field }) => {
+        Object.assign(values, { [field]: planned[field] });
+      });
+      mutations.updates.push({ id: entry.existing.id, values });
+    }
+  });
+
+  return mutations;
+}
+
+export const isJobDiffEmpty = (mutations: JobDiffMutations): boolean =>
+  !mutations.inserts.length && !mutations.updates.length && !mutations.deletes.length;
+
+export type JobDiffApplyResult =
+  | { ok: true; inserted: number; updated: number; deleted: number }
+  | { ok: false; step: "insert" | "update" | "delete"; message: string };
+
+export async function applyJobDiffMutations(
+  supabase: SupabaseClient,
+  mutations: JobDiffMutations,
+): Promise<JobDiffApplyResult> {
+  if (mutations.deletes.length) {
+    const { error } = await supabase
+      .from("jobs")
+      .delete()
+      .in("id", mutations.deletes)
+      .is("last_completed_on", null);
+    if (error) return { ok: false, step: "delete", message: error.message };
+  }
+
+  for (const update of mutations.updates) {
+    const { error } = await supabase.from("jobs").update(update.values).eq("id", update.id);
+    if (error) return { ok: false, step: "update", message: error.message };
+  }
+
+  if (mutations.inserts.length) {
+    const { error } = await supabase.from("jobs").insert(mutations.inserts);
+    if (error) return { ok: false, step: "insert", message: error.message };
+  }
+
+  return {
+    ok: true,
+    inserted: mutations.inserts.length,
+    updated: mutations.updates.length,
+    deleted: mutations.deletes.length,
+  };
+}
+
+export const describeJobDiffResult = (result: {
+  inserted: number;
+  updated: number;
+  deleted: number;
+}): string => {
+  const parts = [
+    result.inserted ? `${result.inserted} added` : null,
+    result.updated ? `${result.updated} updated` : null,
+    result.deleted ? `${result.deleted} removed` : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : "no changes";
+};
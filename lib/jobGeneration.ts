@@ -1,5 +1,12 @@
 import { getBinSchedule } from "@/lib/binSchedule";
-import { getOperationalDayIndex, getOperationalDayName } from "@/lib/date";
+import {
+  addLocalDays,
+  getLocalISODate,
+  getOperationalDate,
+  getOperationalDayIndex,
+  getOperationalDayName,
+  parseLocalISODate,
+} from "@/lib/date";
 
 export const DAY_NAMES = [
   "Sunday",
@@ -52,6 +59,31 @@ export type JobSourceClientRow = {
   green_flip: string | null;
 };
 
+export const JOB_SOURCE_COLUMNS =
+  "property_id, account_id, client_name, company, address, collection_day, put_bins_out, notes, assigned_to, lat_lng, photo_path, red_freq, red_flip, yellow_freq, yellow_flip, green_freq, green_flip";
+
+export type GeneratedJobRow = {
+  account_id: string | null;
+  property_id: string | null;
+  address: string;
+  lat: number | null;
+  lng: number | null;
+  job_type: "put_out" | "bring_in";
+  bins: string | null;
+  notes: string | null;
+  client_name: string | null;
+  photo_path: string | null;
+  assigned_to: string | null;
+  day_of_week: string;
+  last_completed_on: null;
+};
+
+/**
+ * Jobs are keyed by weekday rather than calendar date, so a single generation
+ * can cover at most one week before two dates would share a `day_of_week`.
+ */
+export const MAX_JOB_GENERATION_DAYS = 7;
+
 const tokensFor = (value: string | null | undefined) =>
   (value ?? "")
     .toLowerCase()
@@ -103,15 +135,21 @@ export const deriveAccountId = (row: JobSourceClientRow): string | null => {
 export const deriveClientName = (row: JobSourceClientRow): string =>
   row.client_name?.trim() || row.company?.trim() || "Client";
 
-export const buildBinsSummary = (row: JobSourceClientRow): string | null => {
-  const schedule = getBinSchedule({
-    red_freq: row.red_freq,
-    red_flip: row.red_flip,
-    yellow_freq: row.yellow_freq,
-    yellow_flip: row.yellow_flip,
-    green_freq: row.green_freq,
-    green_flip: row.green_flip,
-  });
+export const buildBinsSummary = (
+  row: JobSourceClientRow,
+  scheduleDate: Date = new Date(),
+): string | null => {
+  const schedule = getBinSchedule(
+    {
+      red_freq: row.red_freq,
+      red_flip: row.red_flip,
+      yellow_freq: row.yellow_freq,
+      yellow_flip: row.yellow_flip,
+      green_freq: row.green_freq,
+      green_flip: row.green_flip,
+    },
+    scheduleDate,
+  );
 
   if (!schedule.activeColors.length) return null;
   return schedule.activeColors.join(", ");
@@ -126,3 +164,127 @@ export const getJobGenerationDayInfo = () => {
 
   return { dayIndex, dayName };
 };
+
+export type JobGenerationTarget = {
+  date: string;
+  dayIndex: number;
+  dayName: string;
+  scheduleDate: Date;
+};
+
+export const buildJobGenerationTarget = (scheduleDate: Date): JobGenerationTarget => {
+  const dayIndex = scheduleDate.getDay();
+  return {
+    date: getLocalISODate(scheduleDate),
+    dayIndex,
+    dayName: DAY_NAMES[dayIndex],
+    scheduleDate,
+  };
+};
+
+/**
+ * The date `/ops/generate` defaults to: the current operational day, or the
+ * next date falling on `NEXT_PUBLIC_DEV_DAY_OVERRIDE` when it is set.
+ */
+export const getDefaultJobGenerationDate = (now: Date = new Date()): Date => {
+  const operational = getOperationalDate(now);
+  operational.setHours(12, 0, 0, 0);
+  const { dayIndex } = getJobGenerationDayInfo();
+  const offset = (dayIndex - operational.getDay() + 7) % 7;
+  return addLocalDays(operational, offset);
+};
+
+/**
+ * The day scheduled generation prepares: the operational day after the current
+ * one, so a run before the 06:00 rollover still targets the same morning.
+ */
+export const getNextOperationalJobGenerationDate = (now: Date = new Date()): Date => {
+  const operational = getOperationalDate(now);
+  operational.setHours(12, 0, 0, 0);
+  return addLocalDays(operational, 1);
+};
+
+/**
+ * One target for each weekday, dated on its next occurrence from the current
+ * operational day, so fortnightly bins match what scheduled generation writes.
+ */
+export const getUpcomingWeekJobGenerationTargets = (now: Date = new Date()): JobGenerationTarget[] => {
+  const operational = getOperationalDate(now);
+  operational.setHours(12, 0, 0, 0);
+  return Array.from({ length: 7 }, (_, offset) => buildJobGenerationTarget(addLocalDays(operational, offset)));
+};
+
+export const resolveJobGenerationTargets = (
+  from: string | null | undefined,
+  to: string | null | undefined,
+): { targets: JobGenerationTarget[]; error: null } | { targets: null; error: string } => {
+  const start = parseLocalISODate(from);
+  if (!start) {
+    return { targets: null, error: "Choose a valid start date." };
+  }
+
+  const end = to && to.trim().length ? parseLocalISODate(to) : start;
+  if (!end) {
+    return { targets: null, error: "Choose a valid end date." };
+  }
+
+  if (end.getTime() < start.getTime()) {
+    return { targets: null, error: "The end date must be on or after the start date." };
+  }
+
+  const targets: JobGenerationTarget[] = [];
+  for (let cursor = start; cursor.getTime() <= end.getTime(); cursor = addLocalDays(cursor, 1)) {
+    if (targets.length >= MAX_JOB_GENERATION_DAYS) {
+      return {
+        targets: null,
+        error: `Jobs can be generated for at most ${MAX_JOB_GENERATION_DAYS} days at a time.`,
+      };
+    }
+    targets.push(buildJobGenerationTarget(cursor));
+  }
+
+  return { targets, error: null };
+};
+
+/**
+ * The put-out and bring-in jobs one property needs on the target's weekday.
+ * Bins are resolved for `scheduleDate`, or for today when it is omitted.
+ */
+export const buildJobsForClient = (
+  client: JobSourceClientRow,
+  target: Pick<JobGenerationTarget, "dayIndex" | "dayName"> & { scheduleDate?: Date },
+): GeneratedJobRow[] => {
+  const putOut = matchesDay(client.put_bins_out, target.dayIndex);
+  const bringIn = matchesDay(client.collection_day, target.dayIndex);
+  if (!putOut && !bringIn) return [];
+
+  const base = {
+    account_id: deriveAccountId(client),
+    property_id: client.property_id,
+    address: client.address?.trim() ?? "",
+    ...parseLatLng(client.lat_lng),
+    bins: buildBinsSummary(client, target.scheduleDate),
+    notes: client.notes,
+    client_name: deriveClientName(client),
+    photo_path: client.photo_path,
+    assigned_to: client.assigned_to,
+    day_of_week: target.dayName,
+    last_completed_on: null,
+  };
+
+  const jobs: GeneratedJobRow[] = [];
+  if (putOut) {
+    jobs.push({ ...base, job_type: "put_out" });
+  }
+
+  if (bringIn) {
+    jobs.push({ ...base, job_type: "bring_in" });
+  }
+
+  return jobs;
+};
+
+export const buildJobsForTarget = (
+  rows: JobSourceClientRow[],
+  target: Pick<JobGenerationTarget, "dayIndex" | "dayName" | "scheduleDate">,
+): GeneratedJobRow[] => rows.flatMap((client) => buildJobsForClient(client, target));
@@ -0,0 +1,202 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  EXISTING_JOB_COLUMNS,
+  applyJobDiffMutations,
+  buildJobDiffMutations,
+  diffJobs,
+  summarizeJobDiff,
+  type ExistingJobRow,
+  type JobDiffEntry,
+  type JobDiffSummary,
+} from "@/lib/jobDiff";
+import {
+  JOB_SOURCE_COLUMNS,
+  buildJobsForTarget,
+  type JobGenerationTarget,
+  type JobSourceClientRow,
+} from "@/lib/jobGeneration";
+
+export type JobGenerationTrigger = "manual" | "cron";
+export type JobGenerationRunStatus = "running" | "succeeded" | "failed";
+
+export type JobGenerationRunRow = {
+  id: string;
+  trigger: JobGenerationTrigger;
+  status: JobGenerationRunStatus;
+  from_date: string;
+  to_date: string;
+  requested_by: string | null;
+  inserted_count: number;
+  updated_count: number;
+  deleted_count: number;
+  unchanged_count: number;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+export const JOB_GENERATION_RUN_COLUMNS =
+  "id, trigger, status, from_date, to_date, requested_by, inserted_count, updated_count, deleted_count, unchanged_count, error, started_at, finished_at";
+
+const UNIQUE_VIOLATION = "23505";
+
+/** A run still marked as running after this long is treated as abandoned. */
+export const JOB_GENERATION_RUN_LOCK_MS = 15 * 60 * 1000;
+
+export type JobGenerationDayDiff = {
+  target: JobGenerationTarget;
+  entries: JobDiffEntry[];
+};
+
+export async function loadJobGenerationDiff(
+  supabase: SupabaseClient,
+  targets: JobGenerationTarget[],
+): Promise<{ days: JobGenerationDayDiff[]; error: null } | { days: null; error: string }> {
+  const [clientsResult, existingResult] = await Promise.all([
+    supabase.from("client_list").select(JOB_SOURCE_COLUMNS),
+    supabase
+      .from("jobs")
+      .select(EXISTING_JOB_COLUMNS)
+      .in(
+        "day_of_week",
+        targets.map((target) => target.dayName),
+      )
+      .is("last_completed_on", null),
+  ]);
+
+  if (clientsResult.error) {
+    return { days: null, error: `Failed to load client schedules: ${clientsResult.error.message}` };
+  }
+
+  if (existingResult.error) {
+    return { days: null, error: `Failed to load existing jobs: ${existingResult.error.message}` };
+  }
+
+  const rows = (clientsResult.data ?? []) as JobSourceClientRow[];
+  const existing = (existingResult.data ?? []) as ExistingJobRow[];
+  const days = targets.map((target) => ({
+    target,
+    entries: diffJobs(
+      buildJobsForTarget(rows, target),
+      existing.filter((job) => job.day_of_week === target.dayName),
+    ),
+  }));
+
+  return { days, error: null };
+}
+
+export type JobGenerationRunOptions = {
+  targets: JobGenerationTarget[];
+  trigger: JobGenerationTrigger;
+  requestedBy?: string | null;
+  /** Diff entry keys to apply; every change is applied when omitted. */
+  acceptedKeys?: Iterable<string>;
+};
+
+export type JobGenerationRunResult =
+  | {
+      status: "succeeded";
+      runId: string | null;
+      summary: JobDiffSummary;
+      inserted: number;
+      updated: number;
+      deleted: number;
+    }
+  | { status: "failed"; runId: string | null; error: string }
+  | { status: "skipped"; error: string };
+
+const finishRun = async (
+  supabase: SupabaseClient,
+  runId: string | null,
+  values: Partial<JobGenerationRunRow>,
+) => {
+  if (!runId) return;
+  const { error } = await supabase
+    .from("job_generation_runs")
+    .update({ ...values, finished_at: new Date().toISOString() })
+    .eq("id", runId);
+  if (error) {
+    console.error("[job-generation] failed to record run result", { runId, error: error.message });
+  }
+};
+
+/**
+ * Diffs and applies the generated jobs for `targets`, recording the attempt in
+ * `job_generation_runs`. Re-running is harmless: once the jobs match the
+ * schedule the diff is empty, and a run already in progress for the same dates
+ * is reported as skipped instead of writing twice.
+ */
+export async function runJobGeneration(
+  supabase: SupabaseClient,
+  { targets, trigger, requestedBy = null, acceptedKeys }: JobGenerationRunOptions,
+): Promise<JobGenerationRunResult> {
+  const fromDate = targets[0].date;
+  const toDate = targets[targets.length - 1].date;
+
+  const { error: staleError } = await supabase
+    .from("job_generation_runs")
+    .update({ status: "failed", error: "Run did not finish.", finished_at: new Date().toISOString() })
+    .eq("status", "running")
+    .lt("started_at", new Date(Date.now() - JOB_GENERATION_RUN_LOCK_MS).toISOString());
+
+  if (staleError) {
+    console.error("[job-generation] failed to close abandoned runs", { error: staleError.message });
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from("job_generation_runs")
+    .insert({
+      trigger,
+      status: "running",
+      from_date: fromDate,
+      to_date: toDate,
+      requested_by: requestedBy,
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  // The table allows one running row per date range, so a concurrent call
+  // fails here instead of applying the same diff twice.
+  if (runError?.code === UNIQUE_VIOLATION) {
+    return { status: "skipped", error: "A generation run for these dates is already in progress." };
+  }
+
+  if (runError) {
+    console.error("[job-generation] failed to record run start", { error: runError.message });
+  }
+
+  const runId = run?.id ?? null;
+  const diff = await loadJobGenerationDiff(supabase, targets);
+
+  if (!diff.days) {
+    await finishRun(supabase, runId, { status: "failed", error: diff.error });
+    return { status: "failed", runId, error: diff.error };
+  }
+
+  const entries = diff.days.flatMap((day) => day.entries);
+  const summary = summarizeJobDiff(entries);
+  const result = await applyJobDiffMutations(supabase, buildJobDiffMutations(entries, acceptedKeys));
+
+  if (!result.ok) {
+    const error = `Failed to ${result.step} jobs: ${result.message}`;
+    await finishRun(supabase, runId, { status: "failed", error, unchanged_count: summary.unchanged });
+    return { status: "failed", runId, error };
+  }
+
+  await finishRun(supabase, runId, {
+    status: "succeeded",
+    inserted_count: result.inserted,
+    updated_count: result.updated,
+    deleted_count: result.deleted,
+    unchanged_count: summary.unchanged,
+  });
+
+  return {
+    status: "succeeded",
+    runId,
+    summary,
+    inserted: result.inserted,
+    updated: result.updated,
+    deleted: result.deleted,
+  };
+}
@@ -0,0 +1,25 @@
+export const SKIP_REASONS = ["bins_not_out", "access_blocked", "no_bins_found", "unsafe"] as const;
+
+export type SkipReason = (typeof SKIP_REASONS)[number];
+
+/** `logs.task_type` for a stop the crew couldn't complete. */
+export const SKIP_TASK_TYPE = "skip";
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  bins_not_out: "Bins not out",
+  access_blocked: "Access blocked",
+  no_bins_found: "No bins found",
+  unsafe: "Unsafe",
+};
+
+export function normalizeSkipReason(value: unknown): SkipReason | null {
+  if (typeof value !== "string") return null;
+  const normalized = value.trim().toLowerCase();
+  return (SKIP_REASONS as readonly string[]).includes(normalized) ? (normalized as SkipReason) : null;
+}
+
+/** Label for a stored skip reason, or null when there isn't a recognised one. */
+export function describeSkipReason(value: unknown): string | null {
+  const reason = normalizeSkipReason(value);
+  return reason ? SKIP_REASON_LABELS[reason] : null;
+}
@@ -0,0 +1,88 @@
+import type { NotificationChannelName, NotificationEvent } from '@/lib/notifications/types'
+
+export type NotificationPreferences = {
+  accountId: string
+  userId: string
+  emailEnRoute: boolean
+  pushEnRoute: boolean
+  emailOnSite: boolean
+  pushOnSite: boolean
+  emailJobComplete: boolean
+  pushJobComplete: boolean
+  emailBilling: boolean
+  pushBilling: boolean
+  emailPropertyAlerts: boolean
+  pushPropertyAlerts: boolean
+}
+
+export type NotificationMetadata = {
+  [accountId: string]: {
+    emailEnRoute?: boolean
+    pushEnRoute?: boolean
+    emailOnSite?: boolean
+    pushOnSite?: boolean
+    emailJobComplete?: boolean
+    pushJobComplete?: boolean
+    emailRouteUpdates?: boolean
+    pushRouteUpdates?: boolean
+    emailBilling?: boolean
+    pushBilling?: boolean
+    emailPropertyAlerts?: boolean
+    pushPropertyAlerts?: boolean
+  }
+}
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPreferences = {
+  accountId: 'primary',
+  userId: 'unknown',
+  emailEnRoute: true,
+  pushEnRoute: true,
+  emailOnSite: true,
+  pushOnSite: true,
+  emailJobComplete: true,
+  pushJobComplete: true,
+  emailBilling: false,
+  pushBilling: false,
+  emailPropertyAlerts: false,
+  pushPropertyAlerts: false,
+}
+
+export const mergeNotificationPrefs = (
+  accountId: string,
+  userId: string,
+  metadata: NotificationMetadata | undefined,
+): NotificationPreferences => {
+  const stored = metadata?.[accountId] ?? {}
+  const legacyEmailRouteUpdates = stored.emailRouteUpdates
+  const legacyPushRouteUpdates = stored.pushRouteUpdates
+
+  return {
+    accountId,
+    userId,
+    emailEnRoute: stored.emailEnRoute ?? legacyEmailRouteUpdates ?? DEFAULT_NOTIFICATION_PREFS.emailEnRoute,
+    pushEnRoute: stored.pushEnRoute ?? legacyPushRouteUpdates ?? DEFAULT_NOTIFICATION_PREFS.pushEnRoute,
+    emailOnSite: stored.emailOnSite ?? legacyEmailRouteUpdates ?? DEFAULT_NOTIFICATION_PREFS.emailOnSite,
+    pushOnSite: stored.pushOnSite ?? legacyPushRouteUpdates ?? DEFAULT_NOTIFICATION_PREFS.pushOnSite,
+    emailJobComplete: stored.emailJobComplete ?? DEFAULT_NOTIFICATION_PREFS.emailJobComplete,
+    pushJobComplete: stored.pushJobComplete ?? DEFAULT_NOTIFICATION_PREFS.pushJobComplete,
+    emailBilling: stored.emailBilling ?? DEFAULT_NOTIFICATION_PREFS.emailBilling,
+    pushBilling: stored.pushBilling ?? DEFAULT_NOTIFICATION_PREFS.pushBilling,
+    emailPropertyAlerts: stored.emailPropertyAlerts ?? DEFAULT_NOTIFICATION_PREFS.emailPropertyAlerts,
+    pushPropertyAlerts: stored.pushPropertyAlerts ?? DEFAULT_NOTIFICATION_PREFS.pushPropertyAlerts,
+  }
+}
+
+const PREFERENCE_KEYS: Record<NotificationEvent, Record<NotificationChannelName, keyof NotificationPreferences>> = {
+  en_route: { email: 'emailEnRoute', push: 'pushEnRoute' },
+  on_site: { email: 'emailOnSite', push: 'pushOnSite' },
+  completed: { email: 'emailJobComplete', push: 'pushJobComplete' },
+  // A skip is the outcome of the visit, so it follows the job-complete preference.
+  skipped: { email: 'emailJobComplete', push: 'pushJobComplete' },
+}
+
+/** Whether a recipient has opted in to an event on a channel. */
+export const preferenceAllows = (
+  preferences: NotificationPreferences,
+  event: NotificationEvent,
+  channel: NotificationChannelName,
+): boolean => preferences[PREFERENCE_KEYS[event][channel]] === true
@@ -0,0 +1,136 @@
+import nodemailer from "nodemailer";
+import webpush, { WebPushError } from "web-push";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NotificationChannel, NotificationChannelName, NotificationMessage, NotificationRecipient } from "./types";
+
+export type StubDelivery = {
+  recipient: NotificationRecipient;
+  message: NotificationMessage;
+};
+
+export type StubChannel = NotificationChannel & {
+  sent: StubDelivery[];
+};
+
+/**
+ * Records messages instead of sending them. Used by tests and by local
+ * development with `NOTIFICATION_TRANSPORT=stub`.
+ */
+export function createStubChannel(
+  name: NotificationChannelName = "email",
+  { log = false, fail }: { log?: boolean; fail?: (recipient: NotificationRecipient) => boolean } = {},
+): StubChannel {
+  const sent: StubDelivery[] = [];
+  return {
+    name,
+    sent,
+    accepts: (recipient) => (name === "email" ? Boolean(recipient.email) : Boolean(recipient.pushSubscriptions?.length)),
+    async send(recipient, message) {
+      if (fail?.(recipient)) {
+        throw new Error(`Stub ${name} delivery failed`);
+      }
+      sent.push({ recipient, message });
+      if (log) {
+        console.info(`[notifications/stub] ${name} → ${recipient.email ?? recipient.userId}: ${message.subject}`);
+      }
+    },
+  };
+}
+
+/** SMTP email channel, or null when `SMTP_HOST` and `SMTP_FROM` are not set. */
+export function createSmtpChannel(env: NodeJS.ProcessEnv = process.env): NotificationChannel | null {
+  const host = env.SMTP_HOST?.trim();
+  const from = env.SMTP_FROM?.trim();
+  if (!host || !from) return null;
+
+  const port = Number(env.SMTP_PORT ?? 587);
+  const transport = nodemailer.createTransport({
+    host,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS ?? "" } : undefined,
+  });
+
+  return {
+    name: "email",
+    accepts: (recipient) => Boolean(recipient.email),
+    async send(recipient, message) {
+      await transport.sendMail({
+        from,
+        to: recipient.email!,
+        subject: message.subject,
+        text: message.text,
+      });
+    },
+  };
+}
+
+/**
+ * Web Push channel, or null when the VAPID keys are not set. A message counts
+ * as delivered when it reaches at least one of the recipient's browsers.
+ * Subscriptions the push service reports as gone are deleted.
+ */
+export function createWebPushChannel(
+  supabase: SupabaseClient,
+  env: NodeJS.ProcessEnv = process.env,
+): NotificationChannel | null {
+  const publicKey = env.NEXT_PUBLIC_VAPID_PUBLIC_KEY?.trim();
+  const privateKey = env.VAPID_PRIVATE_KEY?.trim();
+  const subject = env.VAPID_SUBJECT?.trim();
+  if (!publicKey || !privateKey || !subject) return null;
+
+  return {
+    name: "push",
+    accepts: (recipient) => Boolean(recipient.pushSubscriptions?.length),
+    async send(recipient, message) {
+      const payload = JSON.stringify({
+        title: message.subject,
+        body: message.summary,
+        url: message.url,
+        tag: message.event,
+      });
+      let delivered = 0;
+      let lastError: unknown = null;
+
+      for (const subscription of recipient.pushSubscriptions ?? []) {
+        try {
+          await webpush.sendNotification(
+            { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+            payload,
+            { vapidDetails: { subject, publicKey, privateKey }, TTL: 60 * 60 },
+          );
+          delivered += 1;
+        } catch (error) {
+          if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+            const { error: deleteError } = await supabase.from("push_subscriptions").delete().eq("id", subscription.id);
+            if (deleteError) console.warn("[notifications] failed to remove expired push subscription", deleteError);
+          } else {
+            lastError = error;
+          }
+        }
+      }
+
+      if (!delivered && lastError) throw lastError;
+    },
+  };
+}
+
+/**
+ * Channels enabled by configuration. `NOTIFICATION_TRANSPORT=stub` swaps
+ * every channel for a stub that logs instead of sending.
+ */
+export function getNotificationChannels(
+  supabase: SupabaseClient,
+  env: NodeJS.ProcessEnv = process.env,
+): NotificationChannel[] {
+  if (env.NOTIFICATION_TRANSPORT?.trim().toLowerCase() === "stub") {
+    return [createStubChannel("email", { log: true }), createStubChannel("push", { log: true })];
+  }
+
+  const channels: NotificationChannel[] = [];
+  const smtp = createSmtpChannel(env);
+  if (smtp) channels.push(smtp);
+  const push = createWebPushChannel(supabase, env);
+  if (push) channels.push(push);
+  return channels;
+}
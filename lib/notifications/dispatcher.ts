@@ -0,0 +1,293 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { buildOrFilters } from "@/lib/clientPortalAccess";
+import {
+  mergeNotificationPrefs,
+  preferenceAllows,
+  type NotificationMetadata,
+} from "@/lib/notificationPreferences";
+import { buildNotificationMessage } from "./messages";
+import {
+  OUTBOX_COLUMNS,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationRecipient,
+  type OutboxRow,
+  type PushSubscriptionRecord,
+} from "./types";
+
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+
+const DEFAULT_BATCH_SIZE = 50;
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const USERS_PAGE_SIZE = 1000;
+
+export type PlannedDelivery = {
+  key: string;
+  channel: NotificationChannel;
+  recipient: NotificationRecipient;
+};
+
+export type RecipientResolver = (accountId: string) => Promise<NotificationRecipient[]>;
+
+export type DispatchOptions = {
+  channels: NotificationChannel[];
+  resolveRecipients?: RecipientResolver;
+  batchSize?: number;
+  now?: Date;
+};
+
+export type DispatchSummary = {
+  processed: number;
+  sent: number;
+  skipped: number;
+  retrying: number;
+  failed: number;
+  deliveries: number;
+};
+
+/** One minute after the first failure, doubling each time, capped at an hour. */
+export function getNotificationRetryDelayMs(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+const recipientKey = (recipient: NotificationRecipient) =>
+  recipient.userId ?? recipient.email?.toLowerCase() ?? "unknown";
+
+/**
+ * Works out which messages an outbox event still needs: every channel that
+ * can reach a recipient who opted in, minus deliveries already recorded for
+ * the event. The recorded keys are what make retries safe to repeat.
+ */
+export function planDeliveries(
+  event: NotificationEvent,
+  recipients: NotificationRecipient[],
+  channels: NotificationChannel[],
+  delivered: ReadonlySet<string> = new Set(),
+): PlannedDelivery[] {
+  const planned: PlannedDelivery[] = [];
+  channels.forEach((channel) => {
+    recipients.forEach((recipient) => {
+      if (!channel.accepts(recipient)) return;
+      if (!preferenceAllows(recipient.preferences, event, channel.name)) return;
+      const key = `${channel.name}:${recipientKey(recipient)}`;
+      if (delivered.has(key) || planned.some((entry) => entry.key === key)) return;
+      planned.push({ key, channel, recipient });
+    });
+  });
+  return planned;
+}
+
+const splitEmails = (value: string | null | undefined) =>
+  (value ?? "")
+    .split(/[,\s;]/)
+    .map((part) => part.trim().toLowerCase())
+    .filter((part) => part.includes("@"));
+
+async function listAllUsers(supabase: SupabaseClient): Promise<User[]> {
+  const users: User[] = [];
+  for (let page = 1; ; page += 1) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: USERS_PAGE_SIZE });
+    if (error) throw error;
+    users.push(...data.users);
+    if (data.users.length < USERS_PAGE_SIZE) return users;
+  }
+}
+
+/**
+ * Recipients for an account: active `account_members` plus the emails on the
+ * account's `client_list` rows. Preferences come from each person's
+ * `user_metadata`; emails without a login get the portal defaults. Users'
+ * push subscriptions are attached. Needs a service-role client to read other
+ * users.
+ */
+export function createRecipientResolver(supabase: SupabaseClient): RecipientResolver {
+  let usersPromise: Promise<{ byId: Map<string, User>; byEmail: Map<string, User> }> | null = null;
+  const loadUsers = () => {
+    usersPromise ??= listAllUsers(supabase).then((users) => ({
+      byId: new Map(users.map((user) => [user.id, user] as const)),
+      byEmail: new Map(
+        users.filter((user) => user.email).map((user) => [user.email!.toLowerCase(), user] as const),
+      ),
+    }));
+    return usersPromise;
+  };
+  const cache = new Map<string, Promise<NotificationRecipient[]>>();
+
+  const resolve = async (accountId: string): Promise<NotificationRecipient[]> => {
+    const [{ data: members, error: membersError }, { data: rows, error: rowsError }] = await Promise.all([
+      supabase
+        .from("account_members")
+        .select("user_id, email")
+        .eq("account_id", accountId)
+        .eq("status", "active"),
+      supabase
+        .from("client_list")
+        .select("property_id, account_id, email")
+        .or([...buildOrFilters("account_id", [accountId]), ...buildOrFilters("property_id", [accountId])].join(",")),
+    ]);
+
+    if (membersError) console.warn("[notifications] failed to load account members", membersError);
+    if (rowsError) throw rowsError;
+
+    const { byId, byEmail } = await loadUsers();
+    const recipients = new Map<string, NotificationRecipient>();
+    const add = (user: User | undefined, email: string | null) => {
+      const address = user?.email?.toLowerCase() ?? email;
+      const key = user?.id ?? address;
+      if (!key || recipients.has(key)) return;
+      recipients.set(key, {
+        userId: user?.id ?? null,
+        email: address,
+        preferences: mergeNotificationPrefs(
+          accountId,
+          user?.id ?? "unknown",
+          user?.user_metadata?.notification_preferences as NotificationMetadata | undefined,
+        ),
+      });
+    };
+
+    (members ?? []).forEach((member: { user_id: string | null; email: string | null }) => {
+      if (member.user_id) add(byId.get(member.user_id), member.email?.toLowerCase() ?? null);
+    });
+    ((rows ?? []) as { property_id: string; account_id: string | null; email: string | null }[])
+      .filter((row) => (row.account_id?.trim() || row.property_id) === accountId)
+      .forEach((row) => splitEmails(row.email).forEach((email) => add(byEmail.get(email), email)));
+
+    const userIds = Array.from(recipients.values())
+      .map((recipient) => recipient.userId)
+      .filter((id): id is string => Boolean(id));
+    if (userIds.length) {
+      const { data: subscriptions, error: subscriptionsError } = await supabase
+        .from("push_subscriptions")
+        .select("id, user_id, endpoint, p256dh, auth")
+        .in("user_id", userIds);
+      if (subscriptionsError) {
+        console.warn("[notifications] failed to load push subscriptions", subscriptionsError);
+      }
+      ((subscriptions ?? []) as (PushSubscriptionRecord & { user_id: string })[]).forEach(({ user_id, ...subscription }) => {
+        const recipient = recipients.get(user_id);
+        if (recipient) recipient.pushSubscriptions = [...(recipient.pushSubscriptions ?? []), subscription];
+      });
+    }
+
+    return Array.from(recipients.values());
+  };
+
+  return (accountId) => {
+    if (!cache.has(accountId)) cache.set(accountId, resolve(accountId));
+    return cache.get(accountId)!;
+  };
+}
+
+async function claimOutboxRow(supabase: SupabaseClient, row: OutboxRow, now: Date, staleBefore: string) {
+  let claim = supabase
+    .from("notification_outbox")
+    .update({ status: "processing", locked_at: now.toISOString() })
+    .eq("id", row.id)
+    .eq("status", row.status);
+  if (row.status === "processing") claim = claim.lt("locked_at", staleBefore);
+
+  const { data, error } = await claim.select("id");
+  if (error) {
+    console.warn("[notifications] failed to claim outbox row", { id: row.id, error });
+    return false;
+  }
+  return Boolean(data?.length);
+}
+
+/**
+ * Sends due outbox events. Each row is claimed before it is processed so
+ * overlapping runs don't double-send, and every successful message is
+ * recorded in `notification_deliveries` so a retry only resends what failed.
+ */
+export async function dispatchNotifications(
+  supabase: SupabaseClient,
+  { channels, resolveRecipients, batchSize = DEFAULT_BATCH_SIZE, now = new Date() }: DispatchOptions,
+): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { processed: 0, sent: 0, skipped: 0, retrying: 0, failed: 0, deliveries: 0 };
+  const resolver = resolveRecipients ?? createRecipientResolver(supabase);
+  const nowIso = now.toISOString();
+  const staleBefore = new Date(now.getTime() - STALE_LOCK_MS).toISOString();
+
+  const { data: due, error: dueError } = await supabase
+    .from("notification_outbox")
+    .select(OUTBOX_COLUMNS)
+    .or(`and(status.eq.pending,next_attempt_at.lte.${nowIso}),and(status.eq.processing,locked_at.lt.${staleBefore})`)
+    .order("created_at", { ascending: true })
+    .limit(batchSize);
+
+  if (dueError) throw dueError;
+
+  for (const row of (due ?? []) as OutboxRow[]) {
+    if (!(await claimOutboxRow(supabase, row, now, staleBefore))) continue;
+    summary.processed += 1;
+
+    const errors: string[] = [];
+    let delivered = 0;
+
+    try {
+      const recipients = row.account_id ? await resolver(row.account_id) : [];
+      const { data: existing, error: existingError } = await supabase
+        .from("notification_deliveries")
+        .select("channel, recipient_key")
+        .eq("outbox_id", row.id);
+      if (existingError) throw existingError;
+
+      const already = new Set(
+        (existing ?? []).map((entry: { channel: string; recipient_key: string }) => `${entry.channel}:${entry.recipient_key}`),
+      );
+      delivered = already.size;
+      const message = buildNotificationMessage(row.event, row.payload);
+
+      for (const delivery of planDeliveries(row.event, recipients, channels, already)) {
+        try {
+          await delivery.channel.send(delivery.recipient, message);
+        } catch (sendError) {
+          errors.push(`${delivery.key}: ${sendError instanceof Error ? sendError.message : String(sendError)}`);
+          continue;
+        }
+        delivered += 1;
+        summary.deliveries += 1;
+        const { error: recordError } = await supabase.from("notification_deliveries").insert({
+          outbox_id: row.id,
+          channel: delivery.channel.name,
+          recipient_key: recipientKey(delivery.recipient),
+        });
+        if (recordError && recordError.code !== "23505") {
+          console.warn("[notifications] failed to record delivery", { id: row.id, key: delivery.key, recordError });
+        }
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    const attempts = row.attempts + 1;
+    let update: Record<string, unknown>;
+    if (!errors.length) {
+      const status = delivered > 0 ? "sent" : "skipped";
+      summary[status] += 1;
+      update = { status, attempts, last_error: null, locked_at: null, processed_at: nowIso };
+    } else if (attempts >= MAX_NOTIFICATION_ATTEMPTS) {
+      summary.failed += 1;
+      update = { status: "failed", attempts, last_error: errors.join("; "), locked_at: null, processed_at: nowIso };
+    } else {
+      summary.retrying += 1;
+      update = {
+        status: "pending",
+        attempts,
+        last_error: errors.join("; "),
+        locked_at: null,
+        next_attempt_at: new Date(now.getTime() + getNotificationRetryDelayMs(attempts)).toISOString(),
+      };
+    }
+
+    const { error: updateError } = await supabase.from("notification_outbox").update(update).eq("id", row.id);
+    if (updateError) {
+      console.error("[notifications] failed to update outbox row", { id: row.id, updateError });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,60 @@
+import { describeSkipReason } from "@/lib/jobSkips";
+import { buildAppUrl } from "@/lib/url";
+import type { NotificationEvent, NotificationMessage, OutboxPayload } from "./types";
+
+const describeJob = (jobType: string | null | undefined) => {
+  if (jobType === "put_out") return "put your bins out";
+  if (jobType === "bring_in") return "bring your bins in";
+  return "service your bins";
+};
+
+export function buildNotificationMessage(event: NotificationEvent, payload: OutboxPayload | null): NotificationMessage {
+  const address = payload?.address?.trim() || "your property";
+  const task = describeJob(payload?.job_type);
+  const greeting = payload?.client_name?.trim() ? `Hi ${payload.client_name.trim()},` : "Hi,";
+
+  switch (event) {
+    case "en_route": {
+      const url = buildAppUrl("/client/tracker");
+      return {
+        event,
+        subject: `BinBird crew on the way to ${address}`,
+        summary: `Our crew is on the way to ${task}.`,
+        text: `${greeting}\n\nOur crew is on the way to ${address} to ${task}.\n\nFollow along live: ${url}`,
+        url,
+      };
+    }
+    case "on_site": {
+      const url = buildAppUrl("/client/tracker");
+      return {
+        event,
+        subject: `BinBird crew has arrived at ${address}`,
+        summary: "Our crew has arrived and is getting started.",
+        text: `${greeting}\n\nOur crew has arrived at ${address} and is getting started.\n\nView progress: ${url}`,
+        url,
+      };
+    }
+    case "completed": {
+      const url = buildAppUrl("/client/history");
+      return {
+        event,
+        subject: `Service complete at ${address}`,
+        summary: "All done. Tap to see the proof photo.",
+        text: `${greeting}\n\nWe've finished at ${address}. A proof photo has been added to your job history.\n\nView it here: ${url}`,
+        url,
+      };
+    }
+    case "skipped": {
+      const url = buildAppUrl("/client/history");
+      const reason = describeSkipReason(payload?.skip_reason);
+      const because = reason ? ` Reason: ${reason.toLowerCase()}.` : "";
+      return {
+        event,
+        subject: `We couldn't complete the service at ${address}`,
+        summary: `Our crew couldn't ${task} today.${because}`,
+        text: `${greeting}\n\nOur crew couldn't ${task} at ${address} today.${because}\n\nDetails are in your job history: ${url}`,
+        url,
+      };
+    }
+  }
+}
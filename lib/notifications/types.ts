@@ -0,0 +1,72 @@
+import type { NotificationPreferences } from "@/lib/notificationPreferences";
+
+export const NOTIFICATION_EVENTS = ["en_route", "on_site", "completed", "skipped"] as const;
+
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export type NotificationChannelName = "email" | "push";
+
+export type OutboxStatus = "pending" | "processing" | "sent" | "skipped" | "failed";
+
+/** Job details copied into the outbox when the event is recorded. */
+export type OutboxPayload = {
+  address?: string | null;
+  client_name?: string | null;
+  job_type?: string | null;
+  skip_reason?: string | null;
+};
+
+export type OutboxRow = {
+  id: string;
+  job_id: string;
+  account_id: string | null;
+  property_id: string | null;
+  event: NotificationEvent;
+  occurred_on: string;
+  payload: OutboxPayload | null;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  locked_at: string | null;
+  created_at: string;
+  processed_at: string | null;
+};
+
+export const OUTBOX_COLUMNS =
+  "id, job_id, account_id, property_id, event, occurred_on, payload, status, attempts, next_attempt_at, last_error, locked_at, created_at, processed_at";
+
+export type PushSubscriptionRecord = {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+export type NotificationRecipient = {
+  userId: string | null;
+  email: string | null;
+  preferences: NotificationPreferences;
+  /** Browsers the recipient has enabled push on. Only users with a login have any. */
+  pushSubscriptions?: PushSubscriptionRecord[];
+};
+
+export type NotificationMessage = {
+  event: NotificationEvent;
+  subject: string;
+  /** One line for push notifications. */
+  summary: string;
+  text: string;
+  url: string;
+};
+
+/**
+ * A delivery transport. `accepts` says whether the channel can reach the
+ * recipient at all (an email address, a push subscription) before
+ * preferences are considered.
+ */
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  accepts(recipient: NotificationRecipient): boolean;
+  send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void>;
+}
@@ -126,43 +126,51 @@ function normalizeNextIdx(value: unknown, jobsLength: number): number {
   return Math.min(Math.max(numeric, 0), Math.max(jobsLength - 1, 0));
 }
 
-function parsePlannedRun(raw: string): PlannedRunPayload | null {
-  try {
-    const parsed = JSON.parse(raw) as Partial<PlannedRunPayload> | null;
-    if (!parsed || !isLatLng(parsed.start) || !isLatLng(parsed.end)) {
-      return null;
-    }
+/**
+ * Validates a planned run that did not come from this browser's storage, such
+ * as the copy synced to the `runs` table.
+ */
+export function coercePlannedRun(value: unknown): PlannedRunPayload | null {
+  const parsed = value as Partial<PlannedRunPayload> | null;
+  if (!parsed || typeof parsed !== "object" || !isLatLng(parsed.start) || !isLatLng(parsed.end)) {
+    return null;
+  }
 
-    const jobsInput = Array.isArray(parsed.jobs) ? parsed.jobs : [];
-    const normalizedJobs = jobsInput
-      .map((job) => {
-        try {
-          return normalizeJob(job as Job);
-        } catch {
-          return null;
-        }
-      })
-      .filter((job): job is Job => job !== null);
-
-    if (!normalizedJobs.length) {
-      return null;
-    }
+  const jobsInput = Array.isArray(parsed.jobs) ? parsed.jobs : [];
+  const normalizedJobs = jobsInput
+    .map((job) => {
+      try {
+        return normalizeJob(job as Job);
+      } catch {
+        return null;
+      }
+    })
+    .filter((job): job is Job => job !== null);
+
+  if (!normalizedJobs.length) {
+    return null;
+  }
 
-    const nextIdx = normalizeNextIdx(parsed.nextIdx ?? 0, normalizedJobs.length);
-
-    return {
-      start: parsed.start,
-      end: parsed.end,
-      jobs: normalizedJobs,
-      startAddress: normalizeAddress(parsed.startAddress),
-      endAddress: normalizeAddress(parsed.endAddress),
-      createdAt:
-        typeof parsed.createdAt === "string" && parsed.createdAt.length
-          ? parsed.createdAt
-          : new Date().toISOString(),
-      hasStarted: Boolean(parsed.hasStarted),
-      nextIdx,
-    };
+  const nextIdx = normalizeNextIdx(parsed.nextIdx ?? 0, normalizedJobs.length);
+
+  return {
+    start: parsed.start,
+    end: parsed.end,
+    jobs: normalizedJobs,
+    startAddress: normalizeAddress(parsed.startAddress),
+    endAddress: normalizeAddress(parsed.endAddress),
+    createdAt:
+      typeof parsed.createdAt === "string" && parsed.createdAt.length
+        ? parsed.createdAt
+        : new Date().toISOString(),
+    hasStarted: Boolean(parsed.hasStarted),
+    nextIdx,
+  };
+}
+
+function parsePlannedRun(raw: string): PlannedRunPayload | null {
+  try {
+    return coercePlannedRun(JSON.parse(raw));
   } catch (err) {
     console.warn("Unable to parse planned run payload", err);
     return null;
@@ -1,4 +1,4 @@
-import type { User } from "@supabase/supabase-js";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
 
 export type PortalRole = "staff" | "client" | "admin" | null;
 
@@ -36,3 +36,29 @@ export function resolvePortalRoleFromUser(user: Pick<User, "app_metadata" | "use
 
   return metadataRole;
 }
+
+/**
+ * The role used for authorization. `user_metadata` is left out because users
+ * can edit it themselves; the role comes from `app_metadata`, then the
+ * `get_my_role` RPC, then the user's `user_profile` row.
+ */
+export async function resolvePortalRole(
+  supabase: SupabaseClient,
+  user: Pick<User, "id" | "app_metadata">,
+): Promise<PortalRole> {
+  const appRole = extractPortalRole(user.app_metadata);
+  if (appRole) return appRole;
+
+  const { data: rpcRole, error: rpcError } = await supabase.rpc("get_my_role");
+  if (rpcError) console.warn("Unable to load role from get_my_role", rpcError.message);
+  const role = normalizePortalRole(rpcRole);
+  if (role) return role;
+
+  const { data: profile, error: profileError } = await supabase
+    .from("user_profile")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (profileError) console.warn("Unable to load role from user_profile", profileError.message);
+  return normalizePortalRole(profile?.role);
+}
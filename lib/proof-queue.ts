@@ -0,0 +1,161 @@
+import type { Job } from "./jobs";
+import type { SkipReason } from "./jobSkips";
+import type { PlannedRunPayload } from "./planned-run";
+import type { ProofVerification } from "./proofVerification";
+
+export type QueuedProofGps = {
+  lat: number | null;
+  lng: number | null;
+  acc: number | null;
+  time: string | null;
+};
+
+export type QueuedProofPhoto = {
+  /** JPEG ready to upload, processed when the proof was captured. */
+  blob: Blob;
+  thumbnail?: Blob | null;
+  caption: string | null;
+  /** EXIF capture time of the original photo. */
+  capturedAt?: string | null;
+  /** Storage paths once uploaded, so a retry doesn't upload the photo twice. */
+  path: string | null;
+  thumbnailPath?: string | null;
+};
+
+export type QueuedProofRun = {
+  runId: string;
+  completedJobs: number;
+  endedAt: string | null;
+  plan: PlannedRunPayload | null;
+};
+
+export type QueuedProof = {
+  id: string;
+  createdAt: string;
+  userId: string;
+  job: Job;
+  /** Photos in the order they were taken. Only a skip may have none. */
+  photos: QueuedProofPhoto[];
+  /** Set when the crew couldn't complete the stop; the proof then records a skip. */
+  skipReason?: SkipReason | null;
+  gps: QueuedProofGps;
+  /** Location and timestamp checks, scored when the proof was captured. */
+  verification?: ProofVerification | null;
+  checklist: Record<string, boolean>;
+  note: string | null;
+  doneOn: string;
+  completedAt: string;
+  run: QueuedProofRun | null;
+  // Progress markers so a retry resumes after the last step that succeeded
+  // instead of inserting the log twice. Photos carry their own marker.
+  logged: boolean;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+};
+
+export type NewQueuedProof = Omit<
+  QueuedProof,
+  "id" | "createdAt" | "logged" | "attempts" | "nextAttemptAt" | "lastError"
+>;
+
+/** Fired on `window` whenever the queue is written to. */
+export const PROOF_QUEUE_EVENT = "binbird:proof-queue";
+
+const DB_NAME = "binbird-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "proofs";
+
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export function getProofRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(attempts - 1, 0);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("Offline storage is not available on this device."));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Unable to open offline storage."));
+    }).catch((err) => {
+      databasePromise = null;
+      throw err;
+    });
+  }
+
+  return databasePromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operate: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operate(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Offline storage write was aborted."));
+  });
+}
+
+function notifyQueueChanged() {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(PROOF_QUEUE_EVENT));
+}
+
+export async function enqueueProof(proof: NewQueuedProof): Promise<QueuedProof> {
+  const queued: QueuedProof = {
+    ...proof,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    logged: false,
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+  };
+  await withStore("readwrite", (store) => store.put(queued));
+  notifyQueueChanged();
+  return queued;
+}
+
+/** Queued proofs, oldest first so uploads land in the order they were captured. */
+export async function listQueuedProofs(): Promise<QueuedProof[]> {
+  const proofs = await withStore<QueuedProof[]>("readonly", (store) => store.getAll());
+  return proofs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function countQueuedProofs(): Promise<number> {
+  try {
+    return await withStore<number>("readonly", (store) => store.count());
+  } catch (err) {
+    console.warn("Unable to read the proof upload queue", err);
+    return 0;
+  }
+}
+
+export async function saveQueuedProof(proof: QueuedProof) {
+  await withStore("readwrite", (store) => store.put(proof));
+  notifyQueueChanged();
+}
+
+export async function removeQueuedProof(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyQueueChanged();
+}
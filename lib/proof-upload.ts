@@ -0,0 +1,270 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getProofRetryDelayMs,
+  listQueuedProofs,
+  removeQueuedProof,
+  saveQueuedProof,
+  type QueuedProof,
+  type QueuedProofPhoto,
+} from "./proof-queue";
+import { recordRunProof } from "./run-history";
+import { SKIP_TASK_TYPE } from "./jobSkips";
+import { proofThumbnailPath, type StoredProofPhoto } from "./proofPhotos";
+
+// kebab-case helper
+export function toKebab(value: string | null | undefined, fallback: string): string {
+  if (!value || typeof value !== "string") return fallback;
+  return value
+    .toLowerCase()
+    .replace(/,\s*/g, "-")
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// custom week helper (Monday-Saturday cycle, Sunday joins next week)
+export function getCustomWeek(date: Date) {
+  const d = new Date(date);
+
+  // If Sunday, push to Monday (next cycle)
+  if (d.getDay() === 0) {
+    d.setDate(d.getDate() + 1);
+  }
+
+  // ISO week calc
+  const target = new Date(d.valueOf());
+  const dayNr = (target.getDay() + 6) % 7; // Monday=0 … Sunday=6
+  target.setDate(target.getDate() - dayNr + 3); // Thursday of current week
+  const firstThursday = new Date(target.getFullYear(), 0, 4);
+  const diff = target.valueOf() - firstThursday.valueOf();
+  const week = 1 + Math.round(diff / (7 * 24 * 3600 * 1000));
+
+  return {
+    year: target.getFullYear(),
+    week: `Week-${week}`,
+  };
+}
+
+function generateSequentialFileName(
+  baseName: string,
+  extension: string,
+  existingNames: string[],
+): string {
+  const existing = new Set(existingNames);
+  const defaultLabel = `${baseName}${extension}`;
+  if (!existing.has(defaultLabel)) return defaultLabel;
+
+  let counter = 2;
+  while (existing.has(`${baseName} (${counter})${extension}`)) {
+    counter += 1;
+  }
+  return `${baseName} (${counter})${extension}`;
+}
+
+function isDuplicateStorageError(err: unknown): boolean {
+  if (!err || typeof err !== "object") return false;
+
+  const possible = err as { statusCode?: number; message?: string; error?: string };
+  if (typeof possible.statusCode === "number" && possible.statusCode === 409) {
+    return true;
+  }
+
+  const message =
+    typeof possible.message === "string"
+      ? possible.message
+      : typeof possible.error === "string"
+        ? possible.error
+        : "";
+
+  if (!message) return false;
+  const lowered = message.toLowerCase();
+  return lowered.includes("already exists") || lowered.includes("duplicate");
+}
+
+async function uploadProofPhoto(supabase: SupabaseClient, proof: QueuedProof, photo: Blob): Promise<string> {
+  const { job } = proof;
+  const { year, week } = getCustomWeek(new Date(proof.completedAt));
+  const safeClient = toKebab(job.client_name, "unknown-client");
+  const safeAddress = toKebab(job.address, "unknown-address");
+  const folderPath = `${safeClient}/${safeAddress}/${year}/${week}`;
+  const baseFileName = proof.skipReason ? "Skipped" : job.job_type === "bring_in" ? "Bring In" : "Put Out";
+  const fileExtension = ".jpg";
+  const bucket = supabase.storage.from("proofs");
+  const { data: existingFiles, error: listErr } = await bucket.list(folderPath, { limit: 100 });
+  if (listErr) {
+    console.warn("Unable to check existing proof photos", listErr);
+  }
+  const existingNames = existingFiles?.map((existingFile) => existingFile.name) ?? [];
+  const attemptedNames = new Set(existingNames);
+  let fileLabel = generateSequentialFileName(baseFileName, fileExtension, existingNames);
+  let uploadError: unknown = null;
+
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    attemptedNames.add(fileLabel);
+    const uploadFile = new File([photo], fileLabel, { type: "image/jpeg" });
+    const candidatePath = `${folderPath}/${fileLabel}`;
+    const { error: uploadErr } = await bucket.upload(candidatePath, uploadFile, { upsert: false });
+
+    if (!uploadErr) {
+      return candidatePath;
+    }
+
+    uploadError = uploadErr;
+    if (!isDuplicateStorageError(uploadErr)) {
+      throw uploadErr;
+    }
+
+    fileLabel = generateSequentialFileName(baseFileName, fileExtension, Array.from(attemptedNames));
+  }
+
+  const fallbackLabel = `${baseFileName} ${Date.now()}${fileExtension}`;
+  const fallbackFile = new File([photo], fallbackLabel, { type: "image/jpeg" });
+  const fallbackPath = `${folderPath}/${fallbackLabel}`;
+  const { error: fallbackError } = await bucket.upload(fallbackPath, fallbackFile, { upsert: false });
+  if (fallbackError) {
+    throw uploadError ?? fallbackError;
+  }
+  return fallbackPath;
+}
+
+function earliestCapture(proof: QueuedProof): string | null {
+  const times = proof.photos
+    .map((photo) => photo.capturedAt)
+    .filter((value): value is string => Boolean(value))
+    .sort();
+  return times[0] ?? null;
+}
+
+/**
+ * Uploads one queued proof: each photo, then the `logs` row, then the job
+ * completion. Each finished step is saved back to the queue so a retry picks
+ * up where the last attempt stopped. A skip is logged with the skip task type
+ * and reason, and closes the job for the day as `skipped`.
+ */
+export async function uploadQueuedProof(supabase: SupabaseClient, queued: QueuedProof) {
+  let proof = queued;
+  const { job } = proof;
+
+  const updatePhoto = async (index: number, changes: Partial<QueuedProofPhoto>) => {
+    const photos = proof.photos.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...changes } : entry));
+    proof = { ...proof, photos };
+    await saveQueuedProof(proof);
+  };
+
+  for (let index = 0; index < proof.photos.length; index += 1) {
+    const photo = proof.photos[index];
+    const path = photo.path ?? (await uploadProofPhoto(supabase, proof, photo.blob));
+    if (!photo.path) await updatePhoto(index, { path });
+
+    if (photo.thumbnail && !photo.thumbnailPath) {
+      // The thumbnail is a nice-to-have; a failure here shouldn't hold up the proof.
+      const thumbnailPath = proofThumbnailPath(path);
+      const { error: thumbnailErr } = await supabase.storage
+        .from("proofs")
+        .upload(thumbnailPath, new File([photo.thumbnail], thumbnailPath.split("/").pop()!, { type: "image/jpeg" }), {
+          upsert: true,
+        });
+      if (thumbnailErr) console.warn("Unable to upload proof thumbnail", thumbnailErr);
+      await updatePhoto(index, { thumbnailPath: thumbnailErr ? null : thumbnailPath, thumbnail: null });
+    }
+  }
+
+  if (!proof.logged) {
+    const { error: logErr } = await supabase.from("logs").insert({
+      job_id: job.id,
+      account_id: job.account_id ?? null,
+      property_id: job.property_id ?? null,
+      client_name: job.client_name ?? null,
+      address: job.address,
+      task_type: proof.skipReason ? SKIP_TASK_TYPE : job.job_type,
+      skip_reason: proof.skipReason ?? null,
+      bins: job.bins ?? null,
+      notes: proof.note,
+      photo_path: proof.photos[0]?.path ?? null,
+      photos: proof.photos.map<StoredProofPhoto>((photo) => ({
+        path: photo.path!,
+        caption: photo.caption,
+        thumbnail_path: photo.thumbnailPath ?? null,
+        captured_at: photo.capturedAt ?? null,
+      })),
+      captured_at: earliestCapture(proof),
+      done_on: proof.doneOn,
+      gps_lat: proof.gps.lat,
+      gps_lng: proof.gps.lng,
+      gps_acc: proof.gps.acc,
+      gps_time: proof.gps.time,
+      gps_distance_m: proof.verification?.distanceM ?? null,
+      verification_score: proof.verification?.score ?? null,
+      verification_flags: proof.verification?.flags ?? [],
+      flagged: proof.verification?.flagged ?? false,
+      user_id: proof.userId,
+    });
+    if (logErr) throw logErr;
+    proof = { ...proof, logged: true };
+    await saveQueuedProof(proof);
+  }
+
+  const { error: jobErr } = await supabase
+    .from("jobs")
+    .update({
+      last_completed_on: proof.doneOn,
+      status: proof.skipReason ? "skipped" : "completed",
+      completed_at: proof.completedAt,
+      skip_reason: proof.skipReason ?? null,
+    })
+    .eq("id", job.id);
+  if (jobErr) throw jobErr;
+
+  if (proof.run) {
+    await recordRunProof(supabase, proof.run.runId, {
+      job,
+      completedAt: proof.completedAt,
+      completedJobs: proof.run.completedJobs,
+      endedAt: proof.run.endedAt,
+      plan: proof.run.plan,
+    });
+  }
+}
+
+let activeQueueRun: Promise<void> | null = null;
+
+async function drainProofQueue(supabase: SupabaseClient) {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return;
+
+  const proofs = await listQueuedProofs();
+  for (const proof of proofs) {
+    if (proof.nextAttemptAt > Date.now()) continue;
+
+    try {
+      await uploadQueuedProof(supabase, proof);
+      await removeQueuedProof(proof.id);
+    } catch (err) {
+      console.warn("Unable to upload queued proof", { id: proof.id, err });
+      // Re-read so the progress markers written by a partial upload survive.
+      const latest = (await listQueuedProofs()).find((entry) => entry.id === proof.id) ?? proof;
+      const attempts = latest.attempts + 1;
+      await saveQueuedProof({
+        ...latest,
+        attempts,
+        nextAttemptAt: Date.now() + getProofRetryDelayMs(attempts),
+        lastError: err instanceof Error ? err.message : String((err as { message?: unknown })?.message ?? err),
+      });
+    }
+  }
+}
+
+/**
+ * Uploads every queued proof that is due for an attempt. Calls made while a
+ * pass is already running share it rather than uploading the same proof twice.
+ */
+export function processProofQueue(supabase: SupabaseClient): Promise<void> {
+  if (!activeQueueRun) {
+    activeQueueRun = drainProofQueue(supabase)
+      .catch((err) => {
+        console.warn("Unable to process the proof upload queue", err);
+      })
+      .finally(() => {
+        activeQueueRun = null;
+      });
+  }
+  return activeQueueRun;
+}
@@ -0,0 +1,66 @@
+/** One photo attached to a proof, as stored in `logs.photos`. */
+export type StoredProofPhoto = {
+  path: string;
+  caption: string | null;
+  thumbnail_path?: string | null;
+  /** EXIF capture time of the original photo. */
+  captured_at?: string | null;
+};
+
+export type ProofPhoto = {
+  path: string;
+  caption: string | null;
+  thumbnailPath: string | null;
+  capturedAt: string | null;
+};
+
+/** Most photos staff can attach to a single proof. */
+export const MAX_PROOF_PHOTOS = 6;
+
+export const MAX_PROOF_CAPTION_LENGTH = 120;
+
+/** Thumbnails sit in a `thumbnails` folder next to the photo they were made from. */
+export function proofThumbnailPath(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? `thumbnails/${path}` : `${path.slice(0, slash)}/thumbnails/${path.slice(slash + 1)}`;
+}
+
+const optionalString = (value: unknown) => (typeof value === "string" && value.trim().length ? value : null);
+
+export function normalizeProofCaption(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const caption = value.trim().slice(0, MAX_PROOF_CAPTION_LENGTH);
+  return caption.length ? caption : null;
+}
+
+/**
+ * Photos recorded on a `logs` row. Logs written before proofs had several
+ * photos only have `photo_path`, which is returned as a single uncaptioned photo.
+ */
+export function normalizeProofPhotos(value: unknown, fallbackPath?: string | null): ProofPhoto[] {
+  const photos = (Array.isArray(value) ? value : [])
+    .map((entry) => {
+      if (!entry || typeof entry !== "object") return null;
+      const { path, caption, thumbnail_path, captured_at } = entry as Record<string, unknown>;
+      if (typeof path !== "string" || !path.trim().length) return null;
+      return {
+        path,
+        caption: normalizeProofCaption(caption),
+        thumbnailPath: optionalString(thumbnail_path),
+        capturedAt: optionalString(captured_at),
+      };
+    })
+    .filter((photo): photo is ProofPhoto => photo !== null);
+
+  if (!photos.length && fallbackPath) {
+    return [{ path: fallbackPath, caption: null, thumbnailPath: null, capturedAt: null }];
+  }
+  return photos;
+}
+
+/** Captions keyed by storage path, for galleries that are handed a list of keys. */
+export function proofPhotoCaptions(photos: ProofPhoto[]): Record<string, string> {
+  return Object.fromEntries(
+    photos.filter((photo) => photo.caption).map((photo) => [photo.path, photo.caption as string]),
+  );
+}
@@ -0,0 +1,120 @@
+import { haversineMeters, type LatLng } from "./routeOptimizer";
+
+export const PROOF_FLAGS = [
+  "no_gps",
+  "far_from_property",
+  "low_accuracy",
+  "stale_fix",
+  "capture_time_mismatch",
+] as const;
+
+export type ProofFlag = (typeof PROOF_FLAGS)[number];
+
+export const PROOF_FLAG_LABELS: Record<ProofFlag, string> = {
+  no_gps: "No GPS fix",
+  far_from_property: "Far from property",
+  low_accuracy: "Low GPS accuracy",
+  stale_fix: "Old GPS fix",
+  capture_time_mismatch: "Photo taken earlier",
+};
+
+export type ProofVerification = {
+  /** 100 for a clean proof, lower the more checks it fails. */
+  score: number;
+  flagged: boolean;
+  flags: ProofFlag[];
+  /** Distance between the GPS fix and the property, when both are known. */
+  distanceM: number | null;
+};
+
+export type ProofVerificationInput = {
+  job: Partial<LatLng> | null;
+  gps: {
+    lat: number | null;
+    lng: number | null;
+    acc: number | null;
+    time: string | null;
+  };
+  /** EXIF capture time of the photo, when it had one. */
+  capturedAt: string | null;
+  submittedAt: string;
+};
+
+/** A fix further than this from the property's pin is treated as off-site. */
+export const MAX_PROOF_DISTANCE_M = 100;
+
+/** Fixes reporting a worse accuracy radius than this can't place the crew at the property. */
+export const MAX_PROOF_ACCURACY_M = 50;
+
+/** How old the last fix may be when the proof is submitted. */
+export const MAX_PROOF_FIX_AGE_MS = 2 * 60 * 1000;
+
+/** How long before submission the photo may have been taken. */
+export const MAX_PROOF_CAPTURE_AGE_MS = 15 * 60 * 1000;
+
+/** Device clocks drift, so a photo slightly "after" submission isn't suspicious. */
+const CAPTURE_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+/** Proofs scoring below this are flagged for review. */
+export const PROOF_FLAG_THRESHOLD = 70;
+
+const FLAG_PENALTIES: Record<ProofFlag, number> = {
+  no_gps: 40,
+  far_from_property: 50,
+  low_accuracy: 20,
+  stale_fix: 20,
+  capture_time_mismatch: 40,
+};
+
+const parseTime = (value: string | null) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const isKnownLocation = (point: Partial<LatLng> | null): point is LatLng =>
+  Boolean(point) &&
+  Number.isFinite(point!.lat) &&
+  Number.isFinite(point!.lng) &&
+  !(point!.lat === 0 && point!.lng === 0);
+
+/**
+ * Scores a proof against the property it was submitted for: how far the GPS
+ * fix was from the pin, how accurate and how old the fix was, and whether the
+ * photo's EXIF capture time is close to submission. Photos without EXIF
+ * (screenshots, some Android cameras) aren't penalised; a missing fix is.
+ */
+export function verifyProof({ job, gps, capturedAt, submittedAt }: ProofVerificationInput): ProofVerification {
+  const flags: ProofFlag[] = [];
+  const submitted = parseTime(submittedAt) ?? Date.now();
+  const fix = gps.lat !== null && gps.lng !== null ? { lat: gps.lat, lng: gps.lng } : null;
+  let distanceM: number | null = null;
+
+  if (!fix || !isKnownLocation(fix)) {
+    flags.push("no_gps");
+  } else {
+    if (isKnownLocation(job)) {
+      distanceM = Math.round(haversineMeters(fix, job));
+      if (distanceM > MAX_PROOF_DISTANCE_M) flags.push("far_from_property");
+    }
+    if (gps.acc !== null && gps.acc > MAX_PROOF_ACCURACY_M) flags.push("low_accuracy");
+    const fixTime = parseTime(gps.time);
+    if (fixTime !== null && submitted - fixTime > MAX_PROOF_FIX_AGE_MS) flags.push("stale_fix");
+  }
+
+  const captured = parseTime(capturedAt);
+  if (
+    captured !== null &&
+    (submitted - captured > MAX_PROOF_CAPTURE_AGE_MS || captured - submitted > CAPTURE_CLOCK_SKEW_MS)
+  ) {
+    flags.push("capture_time_mismatch");
+  }
+
+  const score = Math.max(0, flags.reduce((total, flag) => total - FLAG_PENALTIES[flag], 100));
+  return { score, flagged: score < PROOF_FLAG_THRESHOLD, flags, distanceM };
+}
+
+export function normalizeProofFlags(value: unknown): ProofFlag[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((flag): flag is ProofFlag => (PROOF_FLAGS as readonly string[]).includes(flag));
+}
@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { CLIENT_FIELD_CONFIGS, type ClientListRow } from "@/components/admin/clientFieldConfig";
+
+export type PropertyRequestStatus = "pending" | "approved" | "rejected" | "converted";
+
+export type PropertyRequestAction = "approve" | "reject" | "convert";
+
+export type PropertyRequestRow = {
+  id: string;
+  account_id: string;
+  account_name: string | null;
+  requester_email: string | null;
+  requested_by: string | null;
+  address_line1: string;
+  address_line2: string | null;
+  suburb: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  start_date: string | null;
+  instructions: string | null;
+  status: PropertyRequestStatus | null;
+  converted_property_id: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+};
+
+export const PROPERTY_REQUEST_COLUMNS =
+  "id, account_id, account_name, requester_email, requested_by, address_line1, address_line2, suburb, city, state, postal_code, start_date, instructions, status, converted_property_id, reviewed_by, reviewed_at, created_at";
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .nullable()
+    .transform((value) => (value && value.length ? value : null));
+
+export const propertyRequestSchema = z.object({
+  accountId: z.string().trim().min(1, "An account is required to request a property."),
+  accountName: optionalText(200),
+  requesterEmail: z
+    .string()
+    .trim()
+    .email("Please provide a valid contact email.")
+    .optional()
+    .nullable()
+    .or(z.literal(""))
+    .transform((value) => (value && value.length ? value : null)),
+  addressLine1: z
+    .string()
+    .trim()
+    .min(1, "Please provide the property address so we know where to start service.")
+    .max(200),
+  addressLine2: optionalText(200),
+  suburb: optionalText(120),
+  city: optionalText(120),
+  state: optionalText(60),
+  postalCode: optionalText(20),
+  startDate: z
+    .string()
+    .trim()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be a valid date.")
+    .optional()
+    .nullable()
+    .or(z.literal(""))
+    .transform((value) => (value && value.length ? value : null)),
+  instructions: optionalText(2000),
+});
+
+export type PropertyRequestInput = z.infer<typeof propertyRequestSchema>;
+
+export const propertyRequestActionSchema = z.object({
+  action: z.enum(["approve", "reject", "convert"]),
+});
+
+const ACTION_STATUS: Record<PropertyRequestAction, PropertyRequestStatus> = {
+  approve: "approved",
+  reject: "rejected",
+  convert: "converted",
+};
+
+export const statusForAction = (action: PropertyRequestAction): PropertyRequestStatus =>
+  ACTION_STATUS[action];
+
+export const normalizePropertyRequestStatus = (value: unknown): PropertyRequestStatus => {
+  if (typeof value !== "string") return "pending";
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "approved" || normalized === "rejected" || normalized === "converted") {
+    return normalized;
+  }
+  return "pending";
+};
+
+/**
+ * Actions an admin may take from a given status. Converted and rejected
+ * requests are final; approved requests can still be converted.
+ */
+export const allowedActionsFor = (status: PropertyRequestStatus): PropertyRequestAction[] => {
+  switch (status) {
+    case "pending":
+      return ["approve", "reject", "convert"];
+    case "approved":
+      return ["reject", "convert"];
+    default:
+      return [];
+  }
+};
+
+export const formatPropertyRequestAddress = (
+  request: Pick<
+    PropertyRequestRow,
+    "address_line1" | "address_line2" | "suburb" | "city" | "state" | "postal_code"
+  >,
+): string =>
+  [
+    request.address_line1,
+    request.address_line2,
+    request.suburb,
+    request.city,
+    request.state,
+    request.postal_code,
+  ]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+
+const BIN_COUNT_KEYS = new Set<keyof ClientListRow>(["red_bins", "yellow_bins", "green_bins"]);
+
+export type ExistingClientDetails = Pick<ClientListRow, "client_name" | "company" | "email">;
+
+/**
+ * Builds a client_list row from a property request, using the same defaults
+ * NewClientForm starts with: every column blank apart from one bin of each
+ * colour and a freshly generated property id. Client details are copied from
+ * an existing property on the account, just like the form's "Use existing
+ * client" picker, falling back to what the requester supplied.
+ */
+export const buildClientRowFromRequest = (
+  request: PropertyRequestRow,
+  existingClient: ExistingClientDetails | null = null,
+  propertyId: string = crypto.randomUUID(),
+): ClientListRow => {
+  const row = {} as Record<keyof ClientListRow, string | number | null>;
+  CLIENT_FIELD_CONFIGS.forEach(({ key }) => {
+    row[key] = BIN_COUNT_KEYS.has(key) ? 1 : null;
+  });
+
+  const accountName = request.account_name?.trim() || null;
+  const address = formatPropertyRequestAddress(request);
+
+  return {
+    ...(row as ClientListRow),
+    property_id: propertyId,
+    account_id: request.account_id,
+    client_name: existingClient ? existingClient.client_name : accountName,
+    company: existingClient ? existingClient.company : null,
+    email: existingClient ? existingClient.email : request.requester_email?.trim() || null,
+    address: address.length ? address : null,
+    notes: request.instructions?.trim() || null,
+    trial_start: request.start_date,
+  };
+};
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().trim().url("Invalid push endpoint."),
+  keys: z.object({
+    p256dh: z.string().trim().min(1, "Missing push key."),
+    auth: z.string().trim().min(1, "Missing push auth secret."),
+  }),
+});
+
+export const pushUnsubscribeSchema = z.object({
+  endpoint: z.string().trim().url("Invalid push endpoint."),
+});
+
+/** Decodes a base64url VAPID public key into the form `pushManager.subscribe` expects. */
+export function urlBase64ToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const padded = `${value}${"=".repeat((4 - (value.length % 4)) % 4)}`.replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let index = 0; index < raw.length; index += 1) bytes[index] = raw.charCodeAt(index);
+  return bytes;
+}
@@ -0,0 +1,229 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeProofPhotos, proofThumbnailPath, type StoredProofPhoto } from "./proofPhotos";
+
+/** How long each kind of proof data is kept, in days. Stored as the single row of `retention_settings`. */
+export type RetentionPolicy = {
+  logDays: number;
+  photoDays: number;
+  /** Used instead of both windows above for flagged proofs, which are often queried later. Proofs have no disputed state. */
+  flaggedDays: number;
+};
+
+/** Six weeks, which was the fixed purge window before it became configurable. */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  logDays: 42,
+  photoDays: 42,
+  flaggedDays: 365,
+};
+
+export const MIN_RETENTION_DAYS = 7;
+export const MAX_RETENTION_DAYS = 3650;
+
+export type RetentionSettingsRow = {
+  log_days: number | null;
+  photo_days: number | null;
+  flagged_days: number | null;
+  updated_at?: string | null;
+};
+
+export type RetentionHoldRow = {
+  account_id: string;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+export type RetentionLogRow = {
+  id: string;
+  account_id: string | null;
+  created_at: string | null;
+  flagged: boolean | null;
+  photo_path: string | null;
+  photos: StoredProofPhoto[] | null;
+};
+
+export const RETENTION_LOG_COLUMNS = "id, account_id, created_at, flagged, photo_path, photos";
+
+export type RetentionPlan = {
+  /** Logs past their window, deleted along with their photos. */
+  deleteLogIds: string[];
+  /** Logs that are kept but whose photos are past the photo window. */
+  stripLogIds: string[];
+  /** Photos and thumbnails in the `proofs` bucket belonging to both lists above. */
+  storagePaths: string[];
+  /** Logs past a window that are kept because their account is on legal hold. */
+  heldLogCount: number;
+};
+
+export type RetentionPurgeResult = {
+  logsDeleted: number;
+  logsStripped: number;
+  objectsRemoved: number;
+  heldLogCount: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Storage's remove call takes at most this many paths. */
+const STORAGE_REMOVE_BATCH = 1000;
+
+/** PostgREST returns at most this many rows per request by default. */
+const LOG_PAGE_SIZE = 1000;
+
+/**
+ * Ids sent per update or delete. They travel in the query string, and 1000
+ * UUIDs would overrun the gateway's URL limit.
+ */
+const LOG_WRITE_BATCH = 100;
+
+const clampDays = (value: unknown, fallback: number) => {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.min(MAX_RETENTION_DAYS, Math.max(MIN_RETENTION_DAYS, Math.round(parsed)));
+};
+
+export function normalizeRetentionPolicy(row: Partial<RetentionSettingsRow> | null | undefined): RetentionPolicy {
+  return {
+    logDays: clampDays(row?.log_days, DEFAULT_RETENTION_POLICY.logDays),
+    photoDays: clampDays(row?.photo_days, DEFAULT_RETENTION_POLICY.photoDays),
+    flaggedDays: clampDays(row?.flagged_days, DEFAULT_RETENTION_POLICY.flaggedDays),
+  };
+}
+
+/** Every object a log's photos occupy, including thumbnails that may never have been recorded on the row. */
+export function retentionStoragePaths(log: Pick<RetentionLogRow, "photo_path" | "photos">): string[] {
+  const paths = normalizeProofPhotos(log.photos, log.photo_path).flatMap((photo) => [
+    photo.path,
+    photo.thumbnailPath ?? proofThumbnailPath(photo.path),
+  ]);
+  if (log.photo_path) paths.push(log.photo_path);
+  return Array.from(new Set(paths));
+}
+
+/**
+ * Decides what a purge removes. A log older than its window is deleted with
+ * its photos; a log only past the photo window keeps its row and loses its
+ * photos. Flagged proofs use the flagged window for both. Nothing belonging
+ * to an account on legal hold is touched.
+ */
+export function planRetentionPurge(
+  logs: RetentionLogRow[],
+  policy: RetentionPolicy,
+  heldAccountIds: Iterable<string>,
+  now = Date.now(),
+): RetentionPlan {
+  const held = new Set(heldAccountIds);
+  const plan: RetentionPlan = { deleteLogIds: [], stripLogIds: [], storagePaths: [], heldLogCount: 0 };
+  const storagePaths = new Set<string>();
+
+  for (const log of logs) {
+    const created = log.created_at ? new Date(log.created_at).getTime() : Number.NaN;
+    if (Number.isNaN(created)) continue;
+
+    const ageDays = (now - created) / DAY_MS;
+    const logDays = log.flagged ? policy.flaggedDays : policy.logDays;
+    const photoDays = log.flagged ? policy.flaggedDays : Math.min(policy.photoDays, logDays);
+    const paths = retentionStoragePaths(log);
+    const expired = ageDays > logDays;
+    const photosExpired = paths.length > 0 && ageDays > photoDays;
+
+    if (!expired && !photosExpired) continue;
+    if (log.account_id && held.has(log.account_id)) {
+      plan.heldLogCount += 1;
+      continue;
+    }
+
+    if (expired) {
+      plan.deleteLogIds.push(log.id);
+    } else {
+      plan.stripLogIds.push(log.id);
+    }
+    paths.forEach((path) => storagePaths.add(path));
+  }
+
+  plan.storagePaths = Array.from(storagePaths);
+  return plan;
+}
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+export async function loadRetentionPolicy(supabase: SupabaseClient): Promise<RetentionPolicy> {
+  const { data, error } = await supabase
+    .from("retention_settings")
+    .select("log_days, photo_days, flagged_days")
+    .maybeSingle();
+  if (error) throw error;
+  return normalizeRetentionPolicy(data);
+}
+
+/** Loads the policy, holds and candidate logs and works out what a purge would remove. */
+export async function loadRetentionPlan(supabase: SupabaseClient, now = Date.now()): Promise<RetentionPlan> {
+  const policy = await loadRetentionPolicy(supabase);
+  const { data: holds, error: holdsError } = await supabase.from("retention_holds").select("account_id");
+  if (holdsError) throw holdsError;
+
+  const shortestWindow = Math.min(policy.logDays, policy.photoDays, policy.flaggedDays);
+  const cutoff = new Date(now - shortestWindow * DAY_MS).toISOString();
+  const logs: RetentionLogRow[] = [];
+
+  for (let from = 0; ; from += LOG_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("logs")
+      .select(RETENTION_LOG_COLUMNS)
+      .lt("created_at", cutoff)
+      .order("created_at", { ascending: true })
+      .range(from, from + LOG_PAGE_SIZE - 1);
+    if (error) throw error;
+    logs.push(...((data ?? []) as RetentionLogRow[]));
+    if (!data || data.length < LOG_PAGE_SIZE) break;
+  }
+
+  return planRetentionPurge(
+    logs,
+    policy,
+    (holds ?? []).map((hold) => hold.account_id as string),
+    now,
+  );
+}
+
+/**
+ * Carries out a plan. Storage objects go first so a failure part-way leaves
+ * rows pointing at missing photos rather than photos nobody can find.
+ */
+export async function runRetentionPurge(supabase: SupabaseClient, plan: RetentionPlan): Promise<RetentionPurgeResult> {
+  let objectsRemoved = 0;
+  for (const paths of chunk(plan.storagePaths, STORAGE_REMOVE_BATCH)) {
+    const { data, error } = await supabase.storage.from("proofs").remove(paths);
+    if (error) throw error;
+    objectsRemoved += data?.length ?? 0;
+  }
+
+  for (const ids of chunk(plan.stripLogIds, LOG_WRITE_BATCH)) {
+    const { error } = await supabase.from("logs").update({ photo_path: null, photos: [] }).in("id", ids);
+    if (error) throw error;
+  }
+
+  for (const ids of chunk(plan.deleteLogIds, LOG_WRITE_BATCH)) {
+    const { error } = await supabase.from("logs").delete().in("id", ids);
+    if (error) throw error;
+  }
+
+  return {
+    logsDeleted: plan.deleteLogIds.length,
+    logsStripped: plan.stripLogIds.length,
+    objectsRemoved,
+    heldLogCount: plan.heldLogCount,
+  };
+}
+
+export function describeRetentionPurge(result: Pick<RetentionPurgeResult, "logsDeleted" | "logsStripped" | "heldLogCount">) {
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+  const parts = [
+    `${plural(result.logsDeleted, "log")} deleted`,
+    `photos removed from ${plural(result.logsStripped, "log")}`,
+  ];
+  if (result.heldLogCount) parts.push(`${plural(result.heldLogCount, "log")} kept on legal hold`);
+  return parts.join(", ");
+}
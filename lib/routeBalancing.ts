@@ -0,0 +1,201 @@
+import { DEFAULT_SERVICE_S, estimateDriveSeconds, haversineMeters, type LatLng } from "./routeOptimizer";
+
+export type BalanceJob = LatLng & {
+  id: string;
+  assignedTo: string | null;
+};
+
+export type DriverCluster = {
+  driverId: string;
+  jobIds: string[];
+  driveSeconds: number;
+  serviceSeconds: number;
+  totalSeconds: number;
+};
+
+export type BalanceProposal = {
+  clusters: DriverCluster[];
+  /** Proposed driver for every job, keyed by job id. */
+  assignments: Record<string, string>;
+  /** Jobs whose proposed driver differs from their current one. */
+  changedJobIds: string[];
+};
+
+export type BalanceOptions = {
+  serviceSeconds?: number;
+  maxMoves?: number;
+};
+
+const CLUSTERING_ROUNDS = 10;
+const DEFAULT_MAX_MOVES = 200;
+
+function centroid(points: LatLng[]): LatLng | null {
+  if (!points.length) return null;
+  const total = points.reduce((sum, point) => ({ lat: sum.lat + point.lat, lng: sum.lng + point.lng }), {
+    lat: 0,
+    lng: 0,
+  });
+  return { lat: total.lat / points.length, lng: total.lng / points.length };
+}
+
+/**
+ * Rough drive time for one driver: a nearest-neighbour chain through the
+ * stops, starting from the stop closest to the middle of the cluster.
+ */
+export function estimateClusterDriveSeconds(points: LatLng[]): number {
+  if (points.length < 2) return 0;
+  const middle = centroid(points)!;
+  const remaining = [...points];
+  remaining.sort((a, b) => haversineMeters(middle, a) - haversineMeters(middle, b));
+  let current = remaining.shift()!;
+  let meters = 0;
+
+  while (remaining.length) {
+    let nearestIndex = 0;
+    let nearestMeters = Infinity;
+    remaining.forEach((point, index) => {
+      const distance = haversineMeters(current, point);
+      if (distance < nearestMeters) {
+        nearestMeters = distance;
+        nearestIndex = index;
+      }
+    });
+    meters += nearestMeters;
+    current = remaining.splice(nearestIndex, 1)[0];
+  }
+
+  return estimateDriveSeconds(meters);
+}
+
+function pickSeeds(jobs: BalanceJob[], driverIds: string[]): LatLng[] {
+  // Drivers who already have work that day start from it, so a balanced day
+  // moves as few jobs as possible.
+  const seeds: (LatLng | null)[] = driverIds.map((driverId) =>
+    centroid(jobs.filter((job) => job.assignedTo === driverId)),
+  );
+
+  const overall = centroid(jobs)!;
+  for (let index = 0; index < seeds.length; index += 1) {
+    if (seeds[index]) continue;
+    const placed = seeds.filter((seed): seed is LatLng => Boolean(seed));
+    let farthest = jobs[0];
+    let farthestMeters = -1;
+    for (const job of jobs) {
+      const distance = placed.length
+        ? Math.min(...placed.map((seed) => haversineMeters(seed, job)))
+        : haversineMeters(overall, job);
+      if (distance > farthestMeters) {
+        farthestMeters = distance;
+        farthest = job;
+      }
+    }
+    seeds[index] = { lat: farthest.lat, lng: farthest.lng };
+  }
+
+  return seeds as LatLng[];
+}
+
+/**
+ * Splits a day's jobs between the drivers on shift. Jobs are first grouped
+ * geographically around one centre per driver, then stops on the edge of the
+ * busiest cluster are handed to a neighbouring one while that lowers the
+ * longest estimated day (drive time plus time at each stop).
+ */
+export function balanceJobs(
+  jobs: BalanceJob[],
+  driverIds: string[],
+  { serviceSeconds = DEFAULT_SERVICE_S, maxMoves = DEFAULT_MAX_MOVES }: BalanceOptions = {},
+): BalanceProposal {
+  if (!jobs.length || !driverIds.length) {
+    return {
+      clusters: driverIds.map((driverId) => ({
+        driverId,
+        jobIds: [],
+        driveSeconds: 0,
+        serviceSeconds: 0,
+        totalSeconds: 0,
+      })),
+      assignments: {},
+      changedJobIds: [],
+    };
+  }
+
+  let centres = pickSeeds(jobs, driverIds);
+  let membership = jobs.map(() => 0);
+
+  for (let round = 0; round < CLUSTERING_ROUNDS; round += 1) {
+    const next = jobs.map((job) => {
+      let best = 0;
+      centres.forEach((centre, index) => {
+        if (haversineMeters(centre, job) < haversineMeters(centres[best], job)) best = index;
+      });
+      return best;
+    });
+    const stable = next.every((cluster, index) => cluster === membership[index]);
+    membership = next;
+    centres = centres.map(
+      (centre, index) => centroid(jobs.filter((_, jobIndex) => membership[jobIndex] === index)) ?? centre,
+    );
+    if (stable && round > 0) break;
+  }
+
+  const load = (cluster: number, members: number[]) => {
+    const points = jobs.filter((_, jobIndex) => members[jobIndex] === cluster);
+    return estimateClusterDriveSeconds(points) + points.length * serviceSeconds;
+  };
+
+  for (let move = 0; move < maxMoves; move += 1) {
+    const loads = driverIds.map((_, index) => load(index, membership));
+    const busiest = loads.indexOf(Math.max(...loads));
+
+    let bestMove: { jobIndex: number; target: number; score: number } | null = null;
+    for (let jobIndex = 0; jobIndex < jobs.length; jobIndex += 1) {
+      if (membership[jobIndex] !== busiest) continue;
+      const without = [...membership];
+      without[jobIndex] = -1;
+      const busiestAfter = load(busiest, without);
+
+      for (let target = 0; target < driverIds.length; target += 1) {
+        if (target === busiest) continue;
+        const withJob = [...membership];
+        withJob[jobIndex] = target;
+        const longest = Math.max(busiestAfter, load(target, withJob));
+        if (longest >= loads[busiest] - 1) continue;
+        // Prefer stops close to the cluster taking them so areas stay compact.
+        const score = longest + estimateDriveSeconds(haversineMeters(jobs[jobIndex], centres[target]));
+        if (!bestMove || score < bestMove.score) bestMove = { jobIndex, target, score };
+      }
+    }
+
+    if (!bestMove) break;
+    const { jobIndex, target } = bestMove;
+    membership[jobIndex] = target;
+    centres = centres.map(
+      (centre, index) => centroid(jobs.filter((_, i) => membership[i] === index)) ?? centre,
+    );
+  }
+
+  const assignments: Record<string, string> = {};
+  jobs.forEach((job, jobIndex) => {
+    assignments[job.id] = driverIds[membership[jobIndex]];
+  });
+
+  const clusters = driverIds.map((driverId, index) => {
+    const points = jobs.filter((_, jobIndex) => membership[jobIndex] === index);
+    const driveSeconds = estimateClusterDriveSeconds(points);
+    const clusterServiceSeconds = points.length * serviceSeconds;
+    return {
+      driverId,
+      jobIds: points.map((job) => job.id),
+      driveSeconds,
+      serviceSeconds: clusterServiceSeconds,
+      totalSeconds: driveSeconds + clusterServiceSeconds,
+    };
+  });
+
+  return {
+    clusters,
+    assignments,
+    changedJobIds: jobs.filter((job) => assignments[job.id] !== job.assignedTo).map((job) => job.id),
+  };
+}
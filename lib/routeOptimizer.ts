@@ -0,0 +1,561 @@
+import polyline from "@mapbox/polyline";
+import { z } from "zod";
+
+export type LatLng = { lat: number; lng: number };
+
+const latLngSchema = z.object({
+  lat: z.number().finite().min(-90).max(90),
+  lng: z.number().finite().min(-180).max(180),
+});
+
+/**
+ * Largest run the API will optimise. The built-in solver's 2-opt grows with
+ * the cube of the stop count, so this keeps one request from tying up the server.
+ */
+export const MAX_OPTIMIZE_WAYPOINTS = 200;
+
+const MAX_MATRIX_SIZE = MAX_OPTIMIZE_WAYPOINTS + 2;
+
+const matrixSchema = z.array(z.array(z.number().finite().nonnegative()).max(MAX_MATRIX_SIZE)).max(MAX_MATRIX_SIZE);
+
+const timestampSchema = z.string().datetime({ offset: true });
+
+const waypointSchema = latLngSchema.extend({
+  /** Do not start this stop before this time. */
+  earliest: timestampSchema.nullish(),
+  /** Flag this stop if it cannot be started by this time. */
+  latest: timestampSchema.nullish(),
+  /** Higher values are pulled earlier in the route when windows allow. */
+  priority: z.number().int().min(0).max(10).optional(),
+  /** Time spent at the stop; defaults to DEFAULT_SERVICE_S when windows are used. */
+  service_s: z.number().finite().nonnegative().optional(),
+});
+
+/**
+ * Matrices are indexed by node: 0 is the start, 1..n are the waypoints in
+ * request order and n + 1 is the end.
+ */
+export const routeOptimizationRequestSchema = z
+  .object({
+    start: latLngSchema,
+    end: latLngSchema,
+    waypoints: z
+      .array(waypointSchema)
+      .min(1, "At least one waypoint is required.")
+      .max(MAX_OPTIMIZE_WAYPOINTS, `At most ${MAX_OPTIMIZE_WAYPOINTS} waypoints can be optimised at once.`),
+    /** When the driver leaves the start; defaults to now. */
+    departAt: timestampSchema.optional(),
+    distances: matrixSchema.optional(),
+    durations: matrixSchema.optional(),
+  })
+  .superRefine((value, ctx) => {
+    const size = value.waypoints.length + 2;
+    for (const key of ["distances", "durations"] as const) {
+      const matrix = value[key];
+      if (matrix && (matrix.length !== size || matrix.some((row) => row.length !== size))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} must be a ${size}×${size} matrix covering start, waypoints and end.`,
+        });
+      }
+    }
+  });
+
+export type RouteOptimizationRequest = z.infer<typeof routeOptimizationRequestSchema>;
+
+export type RouteLeg = {
+  start_address: string | null;
+  end_address: string | null;
+  distance_m: number;
+  duration_s: number;
+};
+
+export type FlaggedStop = {
+  /** Waypoint index in the request. */
+  index: number;
+  reason: "window_missed";
+  /** Estimated time the stop is reached in the returned order. */
+  arrival: string;
+  latest: string;
+};
+
+export type OptimizedRoute = {
+  /** Waypoint indexes in visiting order. */
+  order: number[];
+  legs: RouteLeg[];
+  /** Encoded polyline from start to end. */
+  polyline: string;
+  /** Stops whose time window cannot be met in any order the solver found. */
+  flagged: FlaggedStop[];
+};
+
+export type RouteOptimizationOutcome =
+  | { ok: true; route: OptimizedRoute }
+  | { ok: false; status: number; error: string; details?: unknown };
+
+export type RouteOptimizerName = "google" | "heuristic" | "scheduled";
+
+export interface RouteOptimizer {
+  name: RouteOptimizerName;
+  optimize(request: RouteOptimizationRequest): Promise<RouteOptimizationOutcome>;
+}
+
+/** Google Directions rejects requests with more waypoints than this. */
+export const GOOGLE_MAX_WAYPOINTS = 25;
+
+/** Used to estimate leg durations when no duration matrix is supplied. */
+const AVERAGE_SPEED_MPS = 30_000 / 3600;
+
+const MAX_TWO_OPT_PASSES = 50;
+
+const MAX_SCHEDULE_PASSES = 20;
+
+/**
+ * Wall-clock time the time-window search may spend improving each of its two
+ * starting orders. The search runs inside the request handler, so a large
+ * windowed run returns the best order found so far rather than blocking it.
+ */
+const SCHEDULE_TIME_BUDGET_MS = 400;
+
+/** Time assumed at each stop when scheduling against time windows. */
+export const DEFAULT_SERVICE_S = 120;
+
+/**
+ * How much a stop's priority weighs against travel time: each priority level
+ * makes an hour's wait for that stop cost as much as six extra minutes driving.
+ */
+const PRIORITY_WEIGHT = 0.1;
+
+export function haversineMeters(from: LatLng, to: LatLng): number {
+  const R = 6371e3;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const φ1 = toRad(from.lat);
+  const φ2 = toRad(to.lat);
+  const Δφ = toRad(to.lat - from.lat);
+  const Δλ = toRad(to.lng - from.lng);
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/** Straight-line driving estimate used when no duration matrix is available. */
+export function estimateDriveSeconds(meters: number): number {
+  return meters / AVERAGE_SPEED_MPS;
+}
+
+function buildDistanceMatrix(nodes: LatLng[]): number[][] {
+  return nodes.map((from) => nodes.map((to) => haversineMeters(from, to)));
+}
+
+function pathCost(path: number[], matrix: number[][], from: number, to: number): number {
+  let cost = 0;
+  for (let i = from; i < to; i += 1) {
+    cost += matrix[path[i]][path[i + 1]];
+  }
+  return cost;
+}
+
+/** Cost from `path[i - 1]` to `path[k + 1]` if the stretch `i..k` were visited backwards. */
+function reversedCost(path: number[], matrix: number[][], i: number, k: number): number {
+  let cost = matrix[path[i - 1]][path[k]] + matrix[path[i]][path[k + 1]];
+  for (let j = k; j > i; j -= 1) {
+    cost += matrix[path[j]][path[j - 1]];
+  }
+  return cost;
+}
+
+/**
+ * Orders the waypoints of an open path with fixed start and end nodes: a
+ * nearest-neighbour tour improved with 2-opt until no reversal shortens it.
+ * Returns waypoint indexes (0-based, excluding start and end).
+ */
+export function solveOpenPath(matrix: number[][]): number[] {
+  const waypointCount = matrix.length - 2;
+  if (waypointCount <= 0) return [];
+  const endNode = waypointCount + 1;
+
+  const remaining = new Set(Array.from({ length: waypointCount }, (_, i) => i + 1));
+  const path = [0];
+  while (remaining.size) {
+    const current = path[path.length - 1];
+    let nearest = -1;
+    for (const candidate of remaining) {
+      if (nearest === -1 || matrix[current][candidate] < matrix[current][nearest]) {
+        nearest = candidate;
+      }
+    }
+    path.push(nearest);
+    remaining.delete(nearest);
+  }
+  path.push(endNode);
+
+  // Costs are compared over the whole reversed stretch rather than just the two
+  // swapped edges so that asymmetric matrices (one-way streets) stay correct.
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass += 1) {
+    let improved = false;
+    for (let i = 1; i < path.length - 2; i += 1) {
+      for (let k = i + 1; k < path.length - 1; k += 1) {
+        const before = pathCost(path, matrix, i - 1, k + 1);
+        if (reversedCost(path, matrix, i, k) + 1e-9 < before) {
+          const reversed = path.slice(i, k + 1).reverse();
+          path.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return path.slice(1, -1).map((node) => node - 1);
+}
+
+type StopConstraint = {
+  earliest: number | null;
+  latest: number | null;
+  priority: number;
+  serviceMs: number;
+};
+
+type ScheduleEvaluation = {
+  late: number;
+  latenessMs: number;
+  score: number;
+  arrivals: number[];
+};
+
+function hasScheduleConstraints(request: RouteOptimizationRequest): boolean {
+  return request.waypoints.some(
+    (waypoint) => waypoint.earliest || waypoint.latest || (waypoint.priority ?? 0) > 0,
+  );
+}
+
+const departureMs = (request: RouteOptimizationRequest) =>
+  request.departAt ? Date.parse(request.departAt) : Date.now();
+
+/** Constraints indexed by node, with empty ones for the start and end. */
+function buildStopConstraints(request: RouteOptimizationRequest): StopConstraint[] {
+  return [
+    { earliest: null, latest: null, priority: 0, serviceMs: 0 },
+    ...request.waypoints.map((waypoint) => ({
+      earliest: waypoint.earliest ? Date.parse(waypoint.earliest) : null,
+      latest: waypoint.latest ? Date.parse(waypoint.latest) : null,
+      priority: waypoint.priority ?? 0,
+      serviceMs: (waypoint.service_s ?? DEFAULT_SERVICE_S) * 1000,
+    })),
+    { earliest: null, latest: null, priority: 0, serviceMs: 0 },
+  ];
+}
+
+function evaluateSchedule(
+  order: number[],
+  travelSeconds: number[][],
+  stops: StopConstraint[],
+  departMs: number,
+): ScheduleEvaluation {
+  const endNode = travelSeconds.length - 1;
+  const arrivals: number[] = [];
+  let time = departMs;
+  let previous = 0;
+  let late = 0;
+  let latenessMs = 0;
+  let priorityCost = 0;
+
+  for (const node of order) {
+    const stop = stops[node];
+    time += travelSeconds[previous][node] * 1000;
+    if (stop.earliest !== null && time < stop.earliest) time = stop.earliest;
+    arrivals.push(time);
+    if (stop.latest !== null && time > stop.latest) {
+      late += 1;
+      latenessMs += time - stop.latest;
+    }
+    priorityCost += stop.priority * (time - departMs);
+    time += stop.serviceMs;
+    previous = node;
+  }
+  time += travelSeconds[previous][endNode] * 1000;
+
+  return {
+    late,
+    latenessMs,
+    score: (time - departMs + PRIORITY_WEIGHT * priorityCost) / 1000,
+    arrivals,
+  };
+}
+
+function isBetterSchedule(candidate: ScheduleEvaluation, current: ScheduleEvaluation): boolean {
+  if (candidate.late !== current.late) return candidate.late < current.late;
+  if (Math.abs(candidate.latenessMs - current.latenessMs) > 1) {
+    return candidate.latenessMs < current.latenessMs;
+  }
+  return candidate.score + 1e-6 < current.score;
+}
+
+function improveSchedule(
+  initial: number[],
+  travelSeconds: number[][],
+  stops: StopConstraint[],
+  departMs: number,
+  deadline: number,
+): { order: number[]; evaluation: ScheduleEvaluation } {
+  let order = [...initial];
+  let best = evaluateSchedule(order, travelSeconds, stops, departMs);
+
+  const tryOrder = (candidate: number[]) => {
+    const evaluation = evaluateSchedule(candidate, travelSeconds, stops, departMs);
+    if (!isBetterSchedule(evaluation, best)) return false;
+    order = candidate;
+    best = evaluation;
+    return true;
+  };
+
+  for (let pass = 0; pass < MAX_SCHEDULE_PASSES; pass += 1) {
+    let improved = false;
+
+    // Moving single stops resolves most window clashes; reversals tidy up the
+    // driving in between.
+    for (let from = 0; from < order.length; from += 1) {
+      if (Date.now() > deadline) return { order, evaluation: best };
+      for (let to = 0; to < order.length; to += 1) {
+        if (from === to) continue;
+        const candidate = [...order];
+        const [node] = candidate.splice(from, 1);
+        candidate.splice(to, 0, node);
+        if (tryOrder(candidate)) improved = true;
+      }
+    }
+
+    for (let i = 0; i < order.length - 1; i += 1) {
+      if (Date.now() > deadline) return { order, evaluation: best };
+      for (let k = i + 1; k < order.length; k += 1) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+        if (tryOrder(candidate)) improved = true;
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return { order, evaluation: best };
+}
+
+/**
+ * Orders waypoints against their time windows and priorities. Both the
+ * shortest-distance order and a latest-deadline-first order are improved by
+ * moving and reversing stops, each within a time budget, and whichever misses
+ * fewer windows wins. Stops still late in the result are returned as flagged.
+ */
+export function solveTimeWindowPath(
+  request: RouteOptimizationRequest,
+  distanceMatrix: number[][],
+  travelSeconds: number[][],
+): { order: number[]; flagged: FlaggedStop[] } {
+  const departMs = departureMs(request);
+  const stops = buildStopConstraints(request);
+
+  const distanceOrder = solveOpenPath(distanceMatrix).map((index) => index + 1);
+  const deadlineOrder = [...distanceOrder].sort(
+    (a, b) => (stops[a].latest ?? Infinity) - (stops[b].latest ?? Infinity),
+  );
+
+  const candidates = [distanceOrder, deadlineOrder].map((initial) =>
+    improveSchedule(initial, travelSeconds, stops, departMs, Date.now() + SCHEDULE_TIME_BUDGET_MS),
+  );
+  const best = candidates.reduce((winner, candidate) =>
+    isBetterSchedule(candidate.evaluation, winner.evaluation) ? candidate : winner,
+  );
+
+  const flagged = best.order.flatMap((node, position): FlaggedStop[] => {
+    const latest = stops[node].latest;
+    const arrival = best.evaluation.arrivals[position];
+    if (latest === null || arrival <= latest) return [];
+    return [
+      {
+        index: node - 1,
+        reason: "window_missed",
+        arrival: new Date(arrival).toISOString(),
+        latest: new Date(latest).toISOString(),
+      },
+    ];
+  });
+
+  return { order: best.order.map((node) => node - 1), flagged };
+}
+
+/**
+ * Whether the request's windows or priorities could change the order. A
+ * `latest` only binds when the plain shortest order, at the solver's own
+ * estimated times, would miss it; the run planner sends a 19:00 deadline on
+ * every put-out, which a short evening run never gets near.
+ */
+export function hasBindingScheduleConstraints(request: RouteOptimizationRequest): boolean {
+  const departMs = departureMs(request);
+  const reordering = request.waypoints.some(
+    (waypoint) =>
+      (waypoint.priority ?? 0) > 0 || (waypoint.earliest ? Date.parse(waypoint.earliest) > departMs : false),
+  );
+  if (reordering) return true;
+  if (!request.waypoints.some((waypoint) => waypoint.latest)) return false;
+
+  const distanceMatrix = request.distances ?? buildDistanceMatrix([request.start, ...request.waypoints, request.end]);
+  const travelSeconds = request.durations ?? distanceMatrix.map((row) => row.map(estimateDriveSeconds));
+  const order = solveOpenPath(distanceMatrix).map((index) => index + 1);
+  return evaluateSchedule(order, travelSeconds, buildStopConstraints(request), departMs).late > 0;
+}
+
+export const heuristicRouteOptimizer: RouteOptimizer = {
+  name: "heuristic",
+  async optimize(request) {
+    const { start, end, waypoints, distances, durations } = request;
+    const nodes = [start, ...waypoints, end];
+    const distanceMatrix = distances ?? buildDistanceMatrix(nodes);
+    const travelSeconds =
+      durations ?? distanceMatrix.map((row) => row.map(estimateDriveSeconds));
+    const { order, flagged } = hasScheduleConstraints(request)
+      ? solveTimeWindowPath(request, distanceMatrix, travelSeconds)
+      : { order: solveOpenPath(distanceMatrix), flagged: [] };
+    const visit = [0, ...order.map((index) => index + 1), nodes.length - 1];
+
+    const legs = visit.slice(0, -1).map((from, i) => {
+      const to = visit[i + 1];
+      const distance = distanceMatrix[from][to];
+      return {
+        start_address: null,
+        end_address: null,
+        distance_m: Math.round(distance),
+        duration_s: Math.round(travelSeconds[from][to]),
+      };
+    });
+
+    return {
+      ok: true,
+      route: {
+        order,
+        legs,
+        polyline: polyline.encode(visit.map((node) => [nodes[node].lat, nodes[node].lng])),
+        flagged,
+      },
+    };
+  },
+};
+
+type GoogleDirectionsLeg = {
+  start_address: string;
+  end_address: string;
+  distance: { value: number };
+  duration: { value: number };
+};
+
+/**
+ * Asks Google Directions for a route through the waypoints. With
+ * `optimizeOrder` Google picks the order; without it the waypoints are driven
+ * in the order given.
+ */
+async function requestGoogleDirections(
+  start: LatLng,
+  end: LatLng,
+  waypoints: LatLng[],
+  optimizeOrder: boolean,
+): Promise<RouteOptimizationOutcome> {
+  const key = process.env.GOOGLE_MAPS_SERVER_KEY;
+  if (!key) {
+    return { ok: false, status: 500, error: "Missing GOOGLE_MAPS_SERVER_KEY" };
+  }
+
+  const url = new URL("https://maps.googleapis.com/maps/api/directions/json");
+  url.searchParams.set("origin", `${start.lat},${start.lng}`);
+  url.searchParams.set("destination", `${end.lat},${end.lng}`);
+  url.searchParams.set("key", key);
+  url.searchParams.set("mode", "driving");
+  url.searchParams.set(
+    "waypoints",
+    `${optimizeOrder ? "optimize:true|" : ""}${waypoints.map((w) => `${w.lat},${w.lng}`).join("|")}`,
+  );
+
+  const resp = await fetch(url.toString());
+  const data = await resp.json();
+
+  if (data.status !== "OK") {
+    return { ok: false, status: 400, error: data.status, details: data };
+  }
+
+  const route = data.routes[0];
+  return {
+    ok: true,
+    route: {
+      polyline: route.overview_polyline.points,
+      order: optimizeOrder ? route.waypoint_order : waypoints.map((_, index) => index),
+      legs: (route.legs as GoogleDirectionsLeg[]).map((l) => ({
+        start_address: l.start_address,
+        end_address: l.end_address,
+        distance_m: l.distance.value,
+        duration_s: l.duration.value,
+      })),
+      flagged: [],
+    },
+  };
+}
+
+export const googleRouteOptimizer: RouteOptimizer = {
+  name: "google",
+  optimize: ({ start, end, waypoints }) => requestGoogleDirections(start, end, waypoints, true),
+};
+
+/**
+ * Orders a windowed run with the built-in solver, then draws it on the road
+ * network with Google in that order. Runs with missed windows keep the
+ * solver's straight-line legs so their flagged arrival times stay consistent.
+ */
+export const scheduledRouteOptimizer: RouteOptimizer = {
+  name: "scheduled",
+  async optimize(request) {
+    const outcome = await heuristicRouteOptimizer.optimize(request);
+    if (!outcome.ok || outcome.route.flagged.length) return outcome;
+
+    const { order } = outcome.route;
+    try {
+      const roads = await requestGoogleDirections(
+        request.start,
+        request.end,
+        order.map((index) => request.waypoints[index]),
+        false,
+      );
+      if (!roads.ok) {
+        console.warn("Unable to load road geometry for scheduled route", roads.error);
+        return outcome;
+      }
+      return { ok: true, route: { ...outcome.route, legs: roads.route.legs, polyline: roads.route.polyline } };
+    } catch (error) {
+      console.warn("Unable to load road geometry for scheduled route", error);
+      return outcome;
+    }
+  },
+};
+
+/**
+ * Picks the optimiser from `ROUTE_OPTIMIZER` ("google" or "heuristic"). Without
+ * it, Google is used when a server key is configured. Routes Google cannot take
+ * in one request and requests that bring their own matrices use the built-in
+ * solver. Time windows or priorities that could change the order are solved by
+ * the built-in solver and then drawn on Google's roads.
+ */
+export function selectRouteOptimizer(request: RouteOptimizationRequest): RouteOptimizer {
+  const configured = process.env.ROUTE_OPTIMIZER?.trim().toLowerCase();
+  const preferred: RouteOptimizerName =
+    configured === "google" || configured === "heuristic"
+      ? configured
+      : process.env.GOOGLE_MAPS_SERVER_KEY
+        ? "google"
+        : "heuristic";
+
+  if (
+    preferred === "google" &&
+    request.waypoints.length <= GOOGLE_MAX_WAYPOINTS &&
+    !request.distances &&
+    !request.durations
+  ) {
+    return hasBindingScheduleConstraints(request) ? scheduledRouteOptimizer : googleRouteOptimizer;
+  }
+
+  return heuristicRouteOptimizer;
+}
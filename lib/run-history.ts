@@ -0,0 +1,161 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Job } from "./jobs";
+import { getOperationalISODate } from "./date";
+import type { PlannedRunPayload } from "./planned-run";
+
+export type RunStop = {
+  job_id: string;
+  property_id: string | null;
+  address: string;
+  job_type: Job["job_type"];
+  completed_at?: string | null;
+};
+
+export type RunRecord = {
+  id: string;
+  staff_id: string;
+  run_date: string;
+  started_at: string;
+  ended_at: string | null;
+  total_jobs: number;
+  completed_jobs: number;
+  start_address: string | null;
+  end_address: string | null;
+  planned_order: RunStop[];
+  actual_order: RunStop[];
+};
+
+export const RUN_COLUMNS =
+  "id, staff_id, run_date, started_at, ended_at, total_jobs, completed_jobs, start_address, end_address, planned_order, actual_order";
+
+export type RunOrderComparison = {
+  stop: RunStop;
+  actualPosition: number;
+  plannedPosition: number | null;
+};
+
+export function buildRunStops(jobs: Job[]): RunStop[] {
+  return jobs.map((job) => ({
+    job_id: String(job.id),
+    property_id: job.property_id ?? null,
+    address: job.address,
+    job_type: job.job_type,
+  }));
+}
+
+/**
+ * Lines up the order jobs were actually proofed against the planned order.
+ * Positions are 1-based; `plannedPosition` is null for stops that were not in
+ * the plan.
+ */
+export function compareRunOrder(planned: RunStop[], actual: RunStop[]): RunOrderComparison[] {
+  const plannedIndex = new Map(planned.map((stop, index) => [stop.job_id, index + 1]));
+  return actual.map((stop, index) => ({
+    stop,
+    actualPosition: index + 1,
+    plannedPosition: plannedIndex.get(stop.job_id) ?? null,
+  }));
+}
+
+export function getRunDurationMs(run: Pick<RunRecord, "started_at" | "ended_at">): number | null {
+  if (!run.ended_at) return null;
+  const start = new Date(run.started_at).getTime();
+  const end = new Date(run.ended_at).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return null;
+  return end - start;
+}
+
+// The writers below never throw: run history is a record of the shift and must
+// not block a driver from moving on to the next stop.
+
+export async function startRunRecord(
+  supabase: SupabaseClient,
+  run: { id: string; startedAt: string; plan: PlannedRunPayload },
+) {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase.from("runs").upsert({
+      id: run.id,
+      staff_id: user.id,
+      run_date: getOperationalISODate(new Date(run.startedAt)),
+      started_at: run.startedAt,
+      ended_at: null,
+      total_jobs: run.plan.jobs.length,
+      start_address: run.plan.startAddress,
+      end_address: run.plan.endAddress,
+      planned_order: buildRunStops(run.plan.jobs),
+      plan: run.plan,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+  } catch (err) {
+    console.warn("Unable to record run start", err);
+  }
+}
+
+export async function recordRunProof(
+  supabase: SupabaseClient,
+  runId: string,
+  proof: {
+    job: Job;
+    completedAt: string;
+    completedJobs: number;
+    endedAt: string | null;
+    plan?: PlannedRunPayload | null;
+  },
+) {
+  try {
+    const { data, error: loadError } = await supabase
+      .from("runs")
+      .select("actual_order")
+      .eq("id", runId)
+      .maybeSingle<Pick<RunRecord, "actual_order">>();
+    if (loadError) throw loadError;
+    if (!data) return;
+
+    const [stop] = buildRunStops([proof.job]);
+    const actualOrder = [
+      ...(data.actual_order ?? []).filter((existing) => existing.job_id !== stop.job_id),
+      { ...stop, completed_at: proof.completedAt },
+    ];
+
+    const { error } = await supabase
+      .from("runs")
+      .update({
+        actual_order: actualOrder,
+        completed_jobs: proof.completedJobs,
+        ended_at: proof.endedAt,
+        ...(proof.plan ? { plan: proof.plan } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", runId);
+    if (error) throw error;
+  } catch (err) {
+    console.warn("Unable to record run progress", err);
+  }
+}
+
+export async function completeRunRecord(
+  supabase: SupabaseClient,
+  runId: string,
+  completion: { endedAt: string; completedJobs: number },
+) {
+  try {
+    const { error } = await supabase
+      .from("runs")
+      .update({
+        ended_at: completion.endedAt,
+        completed_jobs: completion.completedJobs,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", runId)
+      .is("ended_at", null);
+    if (error) throw error;
+  } catch (err) {
+    console.warn("Unable to record run completion", err);
+  }
+}
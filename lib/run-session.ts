@@ -5,6 +5,8 @@ export type RunSessionRecord = {
   endedAt: string | null;
   totalJobs: number;
   completedJobs: number;
+  /** Id of the matching `runs` row, so progress can be written server-side. */
+  runId?: string | null;
 };
 
 const RUN_SESSION_STORAGE_KEY = "binbird:active-run";
@@ -52,6 +54,7 @@ function parseRunSession(raw: string): RunSessionRecord | null {
         endedAt: parsed.endedAt,
         totalJobs: parsed.totalJobs,
         completedJobs: parsed.completedJobs,
+        runId: typeof parsed.runId === "string" ? parsed.runId : null,
       };
     }
   } catch (err) {
@@ -114,6 +117,7 @@ export function writeRunSession(record: RunSessionRecord) {
     endedAt: record.endedAt ?? null,
     totalJobs: Number.isFinite(record.totalJobs) ? record.totalJobs : 0,
     completedJobs: Number.isFinite(record.completedJobs) ? record.completedJobs : 0,
+    runId: record.runId ?? null,
   };
 
   const payload = JSON.stringify(normalized);
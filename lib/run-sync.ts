@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Job } from "./jobs";
+import { getOperationalISODate } from "./date";
+import { coercePlannedRun, type PlannedRunPayload } from "./planned-run";
+import type { RunRecord } from "./run-history";
+
+export type ResumableRun = Pick<RunRecord, "id" | "run_date" | "started_at" | "total_jobs"> & {
+  plan: PlannedRunPayload;
+};
+
+type JobCompletionRow = Pick<Job, "id" | "status" | "completed_at" | "last_completed_on">;
+
+export type ReconciledPlannedRun = {
+  plan: PlannedRunPayload;
+  completedJobs: number;
+  isComplete: boolean;
+};
+
+/**
+ * Rebuilds a plan's progress from the jobs table rather than from whichever
+ * device saved it last: a job counts as done when it was completed on the
+ * run's operational date, and the run resumes at the first job that was not.
+ */
+export function reconcilePlannedRun(
+  plan: PlannedRunPayload,
+  completions: JobCompletionRow[],
+  runDate: string,
+): ReconciledPlannedRun {
+  const completionById = new Map(completions.map((row) => [String(row.id), row]));
+
+  const jobs = plan.jobs.map((job) => {
+    const row = completionById.get(job.id);
+    if (!row) return job;
+    const completedOnRunDate = row.last_completed_on?.slice(0, 10) === runDate;
+    return {
+      ...job,
+      status: completedOnRunDate ? row.status ?? "completed" : job.status,
+      completed_at: completedOnRunDate ? row.completed_at ?? null : job.completed_at,
+      last_completed_on: completedOnRunDate ? row.last_completed_on : null,
+    };
+  });
+
+  const firstOpenIdx = jobs.findIndex((job) => !job.last_completed_on);
+  const completedJobs = jobs.filter((job) => job.last_completed_on).length;
+
+  return {
+    plan: {
+      ...plan,
+      jobs,
+      hasStarted: true,
+      nextIdx: firstOpenIdx === -1 ? Math.max(jobs.length - 1, 0) : firstOpenIdx,
+    },
+    completedJobs,
+    isComplete: firstOpenIdx === -1,
+  };
+}
+
+export async function loadPlanCompletions(
+  supabase: SupabaseClient,
+  plan: PlannedRunPayload,
+): Promise<JobCompletionRow[] | null> {
+  const ids = plan.jobs.map((job) => job.id);
+  if (!ids.length) return [];
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("id, status, completed_at, last_completed_on")
+    .in("id", ids);
+
+  if (error) {
+    console.warn("Unable to load job completion state", error);
+    return null;
+  }
+
+  return (data ?? []) as JobCompletionRow[];
+}
+
+/** Finds the signed-in staff member's unfinished run for today, if another device saved one. */
+export async function loadResumableRun(supabase: SupabaseClient): Promise<ResumableRun | null> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from("runs")
+      .select("id, run_date, started_at, total_jobs, plan")
+      .eq("staff_id", user.id)
+      .eq("run_date", getOperationalISODate())
+      .is("ended_at", null)
+      .not("plan", "is", null)
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    const plan = coercePlannedRun(data.plan);
+    if (!plan) return null;
+
+    return {
+      id: data.id,
+      run_date: data.run_date,
+      started_at: data.started_at,
+      total_jobs: data.total_jobs,
+      plan,
+    };
+  } catch (err) {
+    console.warn("Unable to check for a run on another device", err);
+    return null;
+  }
+}
+
+export async function syncRunPlan(supabase: SupabaseClient, runId: string, plan: PlannedRunPayload) {
+  try {
+    const { error } = await supabase
+      .from("runs")
+      .update({ plan, updated_at: new Date().toISOString() })
+      .eq("id", runId);
+    if (error) throw error;
+  } catch (err) {
+    console.warn("Unable to sync planned run", err);
+  }
+}
@@ -0,0 +1,231 @@
+import { jsPDF } from "jspdf";
+import { SKIP_TASK_TYPE, describeSkipReason } from "./jobSkips";
+import { normalizeProofPhotos, type StoredProofPhoto } from "./proofPhotos";
+
+export type ServiceReportLog = {
+  id: string;
+  address: string | null;
+  done_on: string | null;
+  created_at: string | null;
+  task_type: string | null;
+  skip_reason: string | null;
+  notes: string | null;
+  photo_path: string | null;
+  photos: StoredProofPhoto[] | null;
+};
+
+export const SERVICE_REPORT_LOG_COLUMNS =
+  "id, address, done_on, created_at, task_type, skip_reason, notes, photo_path, photos";
+
+export type ServiceReportEntry = {
+  id: string;
+  /** `YYYY-MM-DD` the service was done. */
+  date: string;
+  address: string;
+  task: string;
+  note: string | null;
+  skipped: boolean;
+  /** Smallest stored image of the first proof photo, for the report's thumbnail. */
+  imagePath: string | null;
+};
+
+export type ServiceReportSummary = {
+  services: number;
+  properties: number;
+  putOut: number;
+  bringIn: number;
+  skipped: number;
+};
+
+export type ServiceReport = {
+  accountName: string;
+  /** `YYYY-MM`. */
+  month: string;
+  entries: ServiceReportEntry[];
+  /** Data URLs of the images in `entries`, keyed by storage path. */
+  images: Record<string, string>;
+  generatedAt?: Date;
+};
+
+const TIME_ZONE = "Australia/Melbourne";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** First and last day of a `YYYY-MM` month, or null when it isn't one. */
+export function serviceReportMonthRange(month: string): { from: string; to: string } | null {
+  const match = month.match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  if (monthIndex < 0 || monthIndex > 11) return null;
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${pad(lastDay)}` };
+}
+
+export function formatServiceReportMonth(month: string): string {
+  const range = serviceReportMonthRange(month);
+  if (!range) return month;
+  return new Intl.DateTimeFormat("en-AU", { month: "long", year: "numeric", timeZone: "UTC" }).format(
+    new Date(`${range.from}T00:00:00Z`),
+  );
+}
+
+const taskLabel = (log: ServiceReportLog) => {
+  if (log.task_type === SKIP_TASK_TYPE) {
+    const reason = describeSkipReason(log.skip_reason);
+    return reason ? `Not completed: ${reason}` : "Not completed";
+  }
+  if (log.task_type === "put_out") return "Bins put out";
+  if (log.task_type === "bring_in") return "Bins brought in";
+  return "Service";
+};
+
+/** One report line per log in date order, using the smallest stored image of its first photo. */
+export function buildServiceReportEntries(logs: ServiceReportLog[]): ServiceReportEntry[] {
+  return logs
+    .map((log) => {
+      const [photo] = normalizeProofPhotos(log.photos, log.photo_path);
+      return {
+        id: log.id,
+        date: log.done_on ?? log.created_at?.slice(0, 10) ?? "",
+        address: log.address?.trim() || "Unknown address",
+        task: taskLabel(log),
+        note: log.notes?.trim() || null,
+        skipped: log.task_type === SKIP_TASK_TYPE,
+        imagePath: photo ? (photo.thumbnailPath ?? photo.path) : null,
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.address.localeCompare(b.address));
+}
+
+export function summarizeServiceReport(entries: ServiceReportEntry[]): ServiceReportSummary {
+  return {
+    services: entries.filter((entry) => !entry.skipped).length,
+    properties: new Set(entries.map((entry) => entry.address)).size,
+    putOut: entries.filter((entry) => entry.task === "Bins put out").length,
+    bringIn: entries.filter((entry) => entry.task === "Bins brought in").length,
+    skipped: entries.filter((entry) => entry.skipped).length,
+  };
+}
+
+const formatDate = (value: string) => {
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime())
+    ? value
+    : new Intl.DateTimeFormat("en-AU", { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" }).format(
+        parsed,
+      );
+};
+
+const PAGE_MARGIN = 15;
+const ROW_HEIGHT = 30;
+const IMAGE_WIDTH = 36;
+const IMAGE_HEIGHT = 27;
+
+/**
+ * Lays a month of service out as an A4 PDF: a summary header, then one row
+ * per visit with its date, address, what was done and a proof thumbnail.
+ * Visits without a photo, or whose photo couldn't be loaded, get a blank box.
+ */
+export function renderServiceReportPdf({ accountName, month, entries, images, generatedAt = new Date() }: ServiceReport) {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textX = PAGE_MARGIN + IMAGE_WIDTH + 6;
+  const textWidth = pageWidth - textX - PAGE_MARGIN;
+  const summary = summarizeServiceReport(entries);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text("Service report", PAGE_MARGIN, PAGE_MARGIN + 5);
+  doc.setFontSize(12);
+  doc.text(`${accountName} · ${formatServiceReportMonth(month)}`, PAGE_MARGIN, PAGE_MARGIN + 13);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(90);
+  doc.text(
+    `${summary.services} services at ${summary.properties} ${summary.properties === 1 ? "property" : "properties"}: ` +
+      `${summary.putOut} put out, ${summary.bringIn} brought in, ${summary.skipped} not completed.`,
+    PAGE_MARGIN,
+    PAGE_MARGIN + 20,
+  );
+  const generated = new Intl.DateTimeFormat("en-AU", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: TIME_ZONE,
+  }).format(generatedAt);
+  doc.text(`Generated ${generated}`, PAGE_MARGIN, PAGE_MARGIN + 25);
+  doc.setTextColor(0);
+
+  let y = PAGE_MARGIN + 33;
+  if (!entries.length) {
+    doc.text("No services were recorded for this month.", PAGE_MARGIN, y + 5);
+  }
+
+  for (const entry of entries) {
+    if (y + ROW_HEIGHT > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+
+    doc.setDrawColor(220);
+    doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+
+    const image = entry.imagePath ? images[entry.imagePath] : undefined;
+    if (image) {
+      try {
+        const { width, height } = doc.getImageProperties(image);
+        const scale = Math.min(IMAGE_WIDTH / width, IMAGE_HEIGHT / height);
+        const drawWidth = width * scale;
+        const drawHeight = height * scale;
+        doc.addImage(
+          image,
+          "JPEG",
+          PAGE_MARGIN + (IMAGE_WIDTH - drawWidth) / 2,
+          y + 1.5 + (IMAGE_HEIGHT - drawHeight) / 2,
+          drawWidth,
+          drawHeight,
+          undefined,
+          "FAST",
+        );
+      } catch (error) {
+        console.warn("Unable to add proof image to report", error);
+        doc.rect(PAGE_MARGIN, y + 1.5, IMAGE_WIDTH, IMAGE_HEIGHT);
+      }
+    } else {
+      doc.rect(PAGE_MARGIN, y + 1.5, IMAGE_WIDTH, IMAGE_HEIGHT);
+    }
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text(doc.splitTextToSize(entry.address, textWidth)[0] as string, textX, y + 6);
+    doc.setFont("helvetica", "normal");
+    doc.text(`${formatDate(entry.date)} · ${entry.task}`, textX, y + 12);
+    if (entry.note) {
+      doc.setFontSize(9);
+      doc.setTextColor(90);
+      doc.text((doc.splitTextToSize(entry.note, textWidth) as string[]).slice(0, 2), textX, y + 18);
+      doc.setTextColor(0);
+    }
+
+    y += ROW_HEIGHT;
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page += 1) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 8, { align: "right" });
+  }
+
+  return doc;
+}
+
+export function serviceReportFileName(accountName: string, month: string): string {
+  const slug = accountName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `service-report-${slug || "account"}-${month}.pdf`;
+}
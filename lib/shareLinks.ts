@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+export type ShareLinkRow = {
+  id: string;
+  account_id: string;
+  property_ids: string[] | null;
+  label: string | null;
+  expires_at: string;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+/** Columns safe to return to clients; the token hash stays server-side. */
+export const SHARE_LINK_COLUMNS = "id, account_id, property_ids, label, expires_at, created_by, created_at, revoked_at";
+
+export const SHARE_LINK_EXPIRY_DAYS = [1, 7, 30, 90] as const;
+
+export const DEFAULT_SHARE_LINK_EXPIRY_DAYS = 7;
+
+export const createShareLinkSchema = z.object({
+  accountId: z.string().trim().min(1, "Missing account."),
+  propertyIds: z.array(z.string().trim().min(1)).max(500).optional().default([]),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, "Links must last at least a day.")
+    .max(90, "Links can last at most 90 days.")
+    .default(DEFAULT_SHARE_LINK_EXPIRY_DAYS),
+  label: z
+    .string()
+    .trim()
+    .max(120)
+    .optional()
+    .nullable()
+    .transform((value) => (value && value.length ? value : null)),
+});
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/** A fresh share token. Only its hash is stored, so the link can't be recovered later. */
+export function createShareToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(24)));
+}
+
+/**
+ * SHA-256 of a share token as hex. Uses Web Crypto so the same lookup works in
+ * middleware and in server components.
+ */
+export async function hashShareToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function isShareLinkExpired(expiresAt: string | null, now: Date = new Date()): boolean {
+  if (!expiresAt) return false;
+  const expiry = new Date(expiresAt).getTime();
+  return Number.isNaN(expiry) || expiry <= now.getTime();
+}
+
+export function shareLinkExpiresAt(days: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
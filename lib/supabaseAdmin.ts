@@ -0,0 +1,15 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client for server jobs that run without a signed-in user, such
+ * as cron endpoints. Returns null when the service key is not configured.
+ */
+export function supabaseServiceRole(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+
+  return createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -3,8 +3,16 @@ import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs'
 import { ACTIVE_RUN_COOKIE_NAME } from '@/lib/active-run-cookie'
-import { resolvePortalScope } from '@/lib/clientPortalAccess'
-import { normalizePortalRole, resolvePortalRoleFromUser } from '@/lib/portalRoles'
+import { isPortalScopeExpired, resolvePortalScope } from '@/lib/clientPortalAccess'
+import { resolvePortalRole, type PortalRole } from '@/lib/portalRoles'
+import {
+  ROLE_CLAIM_COOKIE_NAME,
+  ROLE_CLAIM_COOKIE_OPTIONS,
+  getRoleClaimSecret,
+  issueRoleClaim,
+  verifyRoleClaim,
+} from '@/lib/auth/roleClaim'
+import { supabaseServiceRole } from '@/lib/supabaseAdmin'
 
 export async function middleware(req: NextRequest) {
   const pathname = req.nextUrl.pathname
@@ -62,49 +70,43 @@ export async function middleware(req: NextRequest) {
   // =====================================================
   // 🧩 ROLE DETECTION SECTION
   // =====================================================
-  let role: ReturnType<typeof normalizePortalRole> = resolvePortalRoleFromUser(
-    session?.user ?? null,
-  )
+  let role: PortalRole = null
+  let issuedRoleClaim: string | null = null
+  const roleClaimSecret = getRoleClaimSecret()
+
+  // Redirects are new responses, so a freshly issued claim has to be copied onto them.
+  const redirectTo = (path: string) => {
+    const redirect = NextResponse.redirect(new URL(path, req.url))
+    if (issuedRoleClaim) redirect.cookies.set(ROLE_CLAIM_COOKIE_NAME, issuedRoleClaim, ROLE_CLAIM_COOKIE_OPTIONS)
+    return redirect
+  }
 
   if (session) {
-    // 🧠 Try to get role from RPC if not in metadata
-    if (!role) {
-      const { data, error } = await supabase.rpc('get_my_role')
-      console.log('🧩 RPC get_my_role result:', { data, error })
-
-      if (error) {
-        console.error('Error fetching role from RPC:', error.message)
-      } else if (data) {
-        role = normalizePortalRole(data)
-      }
+    // 🔏 A signed claim from an earlier request saves looking the role up again
+    if (roleClaimSecret) {
+      role = await verifyRoleClaim(req.cookies.get(ROLE_CLAIM_COOKIE_NAME)?.value, roleClaimSecret, session.user.id)
     }
 
-    // 🧱 Fallback: direct query from user_profile
     if (!role) {
-      const { data: profile, error: profileError } = await supabase
-        .from('user_profile')
-        .select('role')
-        .eq('user_id', session.user.id)
-        .maybeSingle()
-
-      if (profileError) console.error('Profile fallback error:', profileError.message)
-      role = normalizePortalRole(profile?.role)
+      role = await resolvePortalRole(supabase, session.user)
+      if (role && roleClaimSecret) {
+        issuedRoleClaim = await issueRoleClaim(session.user.id, role, roleClaimSecret)
+        res.cookies.set(ROLE_CLAIM_COOKIE_NAME, issuedRoleClaim, ROLE_CLAIM_COOKIE_OPTIONS)
+      }
     }
 
-    console.log('🧠 Final resolved role:', role)
-
     // ✅ Fix: redirect admin correctly after login
     if (role === 'admin' && normalizedPathname === '/auth/login') {
-      return NextResponse.redirect(new URL('/admin', req.url))
+      return redirectTo('/admin')
     }
 
     // 🏃 Active run cookie logic
     if (hasActiveRunCookie && activeRunBlockedPaths.has(normalizedPathname)) {
       if (role === 'staff' || role === 'admin') {
-        return NextResponse.redirect(new URL('/staff/route', req.url))
+        return redirectTo('/staff/route')
       }
 
-      const redirect = NextResponse.redirect(new URL('/client/dashboard', req.url))
+      const redirect = redirectTo('/client/dashboard')
       redirect.cookies.delete(ACTIVE_RUN_COOKIE_NAME)
       return redirect
     }
@@ -117,19 +119,19 @@ export async function middleware(req: NextRequest) {
           : role === 'staff'
             ? '/staff/run'
             : '/client/dashboard'
-      return NextResponse.redirect(new URL(destination, req.url))
+      return redirectTo(destination)
     }
 
     // 🧱 Role-based route access
     if (role) {
       if (pathname.startsWith('/staff') && role !== 'staff' && role !== 'admin') {
-        return NextResponse.redirect(new URL('/', req.url))
+        return redirectTo('/')
       }
       if (pathname.startsWith('/ops') && role !== 'admin') {
-        return NextResponse.redirect(new URL('/', req.url))
+        return redirectTo('/')
       }
       if (pathname.startsWith('/admin') && role !== 'admin') {
-        return NextResponse.redirect(new URL('/', req.url))
+        return redirectTo('/')
       }
     }
   }
@@ -138,6 +140,10 @@ export async function middleware(req: NextRequest) {
     res.cookies.delete(ACTIVE_RUN_COOKIE_NAME)
   }
 
+  if (!session && req.cookies.has(ROLE_CLAIM_COOKIE_NAME)) {
+    res.cookies.delete(ROLE_CLAIM_COOKIE_NAME)
+  }
+
   // =====================================================
   // 💬 Client portal token check
   // =====================================================
@@ -156,10 +162,13 @@ export async function middleware(req: NextRequest) {
         return NextResponse.redirect(new URL('/c/error', req.url))
       }
 
-      const scope = await resolvePortalScope(supabase, decodedToken)
+      const scope = await resolvePortalScope(supabaseServiceRole() ?? supabase, decodedToken)
       if (!scope) {
         return NextResponse.redirect(new URL('/c/error', req.url))
       }
+      if (isPortalScopeExpired(scope)) {
+        return NextResponse.redirect(new URL('/c/error?reason=expired', req.url))
+      }
     } else {
       return NextResponse.redirect(new URL('/c/error', req.url))
     }
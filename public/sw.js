@@ -0,0 +1,37 @@
+// BinBird service worker: shows job notifications sent with Web Push.
+
+self.addEventListener('push', (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch (error) {
+    payload = { body: event.data ? event.data.text() : '' }
+  }
+
+  const title = payload.title || 'BinBird'
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/wing-icon-192.png',
+      badge: '/wing-icon-192.png',
+      tag: payload.tag,
+      data: { url: payload.url || '/client/dashboard' },
+    }),
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/client/dashboard', self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin))
+      if (existing) {
+        existing.focus()
+        return existing.navigate(url)
+      }
+      return self.clients.openWindow(url)
+    }),
+  )
+})